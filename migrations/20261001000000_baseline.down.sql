@@ -0,0 +1,23 @@
+-- Drops every table in the baseline. All data is lost.
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+DROP FUNCTION IF EXISTS audit_events_append_only();
+DROP TABLE IF EXISTS audit_events;
+
+DROP TABLE IF EXISTS transactions;
+DROP TABLE IF EXISTS mineral_offers;
+DROP TABLE IF EXISTS mineral_listings;
+DROP TABLE IF EXISTS listings;
+
+DROP TABLE IF EXISTS api_keys;
+DROP TABLE IF EXISTS registration_invitations;
+DROP TABLE IF EXISTS organization_invitations;
+DROP TABLE IF EXISTS organization_members;
+DROP TABLE IF EXISTS organizations;
+
+DROP TABLE IF EXISTS role_permissions;
+DROP TABLE IF EXISTS roles;
+
+DROP TABLE IF EXISTS login_attempts;
+DROP TABLE IF EXISTS user_sessions;
+DROP TABLE IF EXISTS users;
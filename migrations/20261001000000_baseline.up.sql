@@ -0,0 +1,307 @@
+-- Baseline schema: every table the application used before versioned migrations existed.
+--
+-- Tables and indexes are created only if missing, so the baseline can also be applied to a
+-- database that was set up by hand; it records the schema without touching existing data.
+-- Such databases already have users, listings, mineral_listings, mineral_offers and
+-- transactions, but without the columns added since, so each of those tables is followed
+-- by ALTER statements that add whatever is missing.
+
+-- Accounts ------------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS users (
+  id SERIAL PRIMARY KEY,
+  first_name VARCHAR(50) NOT NULL,
+  last_name VARCHAR(50) NOT NULL,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  password_hash TEXT NOT NULL,
+  role VARCHAR(50) NOT NULL DEFAULT 'buyer', -- Built-in role or a name from roles
+  company_name VARCHAR(100),
+  phone_number VARCHAR(30),
+  location VARCHAR(100),
+  compliance_status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (compliance_status IN ('pending', 'compliant', 'non_compliant')),
+  preferred_mineral_types TEXT[],
+  minimum_purchase_quantity NUMERIC,
+  required_regulations TEXT[],
+  email_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  email_verification_token_hash TEXT,
+  email_verification_expires_at TIMESTAMPTZ,
+  reset_password_token_hash TEXT,
+  reset_password_expires_at TIMESTAMPTZ,
+  token_version INTEGER NOT NULL DEFAULT 0,
+  two_factor_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  two_factor_secret TEXT,
+  two_factor_pending_secret TEXT,
+  two_factor_recovery_codes TEXT[],
+  deleted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE users
+  ADD COLUMN IF NOT EXISTS email_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS email_verification_token_hash TEXT,
+  ADD COLUMN IF NOT EXISTS email_verification_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS reset_password_token_hash TEXT,
+  ADD COLUMN IF NOT EXISTS reset_password_expires_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS token_version INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS two_factor_enabled BOOLEAN NOT NULL DEFAULT FALSE,
+  ADD COLUMN IF NOT EXISTS two_factor_secret TEXT,
+  ADD COLUMN IF NOT EXISTS two_factor_pending_secret TEXT,
+  ADD COLUMN IF NOT EXISTS two_factor_recovery_codes TEXT[],
+  ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Roles used to be limited to buyer, miner and admin; any CHECK constraint or enum type
+-- enforcing that would reject custom roles. Constraint names were never set explicitly,
+-- so find them by the column they check.
+DO $$
+DECLARE
+  ck RECORD;
+BEGIN
+  FOR ck IN
+    SELECT c.conname
+    FROM pg_constraint c
+    JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = ANY (c.conkey)
+    WHERE c.contype = 'c' AND c.conrelid = 'users'::regclass AND a.attname = 'role'
+  LOOP
+    EXECUTE format('ALTER TABLE users DROP CONSTRAINT %I', ck.conname);
+  END LOOP;
+END $$;
+
+ALTER TABLE users ALTER COLUMN role DROP DEFAULT;
+ALTER TABLE users ALTER COLUMN role TYPE VARCHAR(50) USING role::text;
+ALTER TABLE users ALTER COLUMN role SET DEFAULT 'buyer';
+
+CREATE INDEX IF NOT EXISTS users_role_idx ON users (role);
+CREATE INDEX IF NOT EXISTS users_created_at_idx ON users (created_at);
+CREATE INDEX IF NOT EXISTS users_email_verification_token_hash_idx ON users (email_verification_token_hash);
+CREATE INDEX IF NOT EXISTS users_reset_password_token_hash_idx ON users (reset_password_token_hash);
+
+CREATE TABLE IF NOT EXISTS user_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  refresh_token_hash TEXT NOT NULL UNIQUE,
+  previous_refresh_token_hash TEXT,
+  user_agent TEXT,
+  ip_address TEXT,
+  expires_at TIMESTAMPTZ NOT NULL,
+  revoked_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS user_sessions_user_id_idx ON user_sessions (user_id);
+CREATE INDEX IF NOT EXISTS user_sessions_previous_refresh_token_hash_idx ON user_sessions (previous_refresh_token_hash);
+
+CREATE TABLE IF NOT EXISTS login_attempts (
+  email VARCHAR(255) PRIMARY KEY, -- Lowercased; tracked whether or not the account exists
+  failed_count INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_until TIMESTAMPTZ
+);
+
+-- Roles and permissions -----------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS roles (
+  name VARCHAR(50) PRIMARY KEY,
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS role_permissions (
+  role VARCHAR(50) NOT NULL REFERENCES roles(name) ON DELETE CASCADE,
+  permission VARCHAR(100) NOT NULL, -- A key of PERMISSIONS in src/config/permissions.ts
+  PRIMARY KEY (role, permission)
+);
+
+-- Organizations -------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS organizations (
+  id SERIAL PRIMARY KEY,
+  name VARCHAR(100) NOT NULL,
+  created_by INTEGER NOT NULL REFERENCES users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS organization_members (
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'trader', 'viewer')),
+  joined_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS organization_members_user_id_idx ON organization_members (user_id);
+
+CREATE TABLE IF NOT EXISTS organization_invitations (
+  id SERIAL PRIMARY KEY,
+  organization_id INTEGER NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  role VARCHAR(20) NOT NULL CHECK (role IN ('owner', 'trader', 'viewer')),
+  token_hash TEXT NOT NULL UNIQUE,
+  invited_by INTEGER NOT NULL REFERENCES users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'accepted', 'revoked', 'expired')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS organization_invitations_organization_id_idx ON organization_invitations (organization_id);
+
+CREATE TABLE IF NOT EXISTS registration_invitations (
+  id SERIAL PRIMARY KEY,
+  code_hash TEXT NOT NULL UNIQUE,
+  email VARCHAR(255), -- Null for codes handed out rather than emailed
+  role VARCHAR(50) NOT NULL,
+  organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE,
+  company_name VARCHAR(100),
+  invited_by INTEGER NOT NULL REFERENCES users(id),
+  status VARCHAR(20) NOT NULL DEFAULT 'sent' CHECK (status IN ('sent', 'accepted', 'expired', 'revoked')),
+  expires_at TIMESTAMPTZ NOT NULL,
+  accepted_by INTEGER REFERENCES users(id),
+  accepted_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS registration_invitations_organization_id_idx ON registration_invitations (organization_id);
+
+CREATE TABLE IF NOT EXISTS api_keys (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  organization_id INTEGER REFERENCES organizations(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  key_prefix VARCHAR(20) NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}',
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  last_used_ip TEXT,
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS api_keys_user_id_idx ON api_keys (user_id);
+CREATE INDEX IF NOT EXISTS api_keys_organization_id_idx ON api_keys (organization_id);
+
+-- Marketplace ---------------------------------------------------------------
+
+-- Listings created through /api/marketplace/listings
+CREATE TABLE IF NOT EXISTS listings (
+  id SERIAL PRIMARY KEY,
+  seller_id INTEGER NOT NULL REFERENCES users(id),
+  organization_id INTEGER REFERENCES organizations(id),
+  mineral_type VARCHAR(100) NOT NULL,
+  description TEXT NOT NULL,
+  quantity NUMERIC NOT NULL,
+  unit VARCHAR(20) NOT NULL,
+  price_per_unit NUMERIC NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  location VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'pending', 'sold', 'canceled')),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE listings ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id);
+
+CREATE INDEX IF NOT EXISTS listings_seller_id_idx ON listings (seller_id);
+CREATE INDEX IF NOT EXISTS listings_organization_id_idx ON listings (organization_id);
+
+-- Listings referenced by offers and transactions; merged into listings by a later migration
+CREATE TABLE IF NOT EXISTS mineral_listings (
+  id SERIAL PRIMARY KEY,
+  seller_id INTEGER NOT NULL REFERENCES users(id),
+  organization_id INTEGER REFERENCES organizations(id),
+  mineral_type VARCHAR(100) NOT NULL,
+  description TEXT,
+  quantity NUMERIC NOT NULL,
+  unit VARCHAR(20) NOT NULL,
+  price_per_unit NUMERIC NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  location VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'pending', 'sold', 'canceled')),
+  listed_date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE mineral_listings ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id);
+
+CREATE TABLE IF NOT EXISTS mineral_offers (
+  id SERIAL PRIMARY KEY,
+  listing_id INTEGER NOT NULL REFERENCES mineral_listings(id),
+  buyer_id INTEGER NOT NULL REFERENCES users(id),
+  organization_id INTEGER REFERENCES organizations(id),
+  offer_price NUMERIC NOT NULL,
+  offer_quantity NUMERIC NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  status VARCHAR(20) NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'accepted', 'rejected', 'expired', 'completed')),
+  message TEXT,
+  expiry_date TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE mineral_offers ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id);
+
+CREATE INDEX IF NOT EXISTS mineral_offers_listing_id_idx ON mineral_offers (listing_id);
+CREATE INDEX IF NOT EXISTS mineral_offers_buyer_id_idx ON mineral_offers (buyer_id);
+
+CREATE TABLE IF NOT EXISTS transactions (
+  id SERIAL PRIMARY KEY,
+  listing_id INTEGER NOT NULL REFERENCES mineral_listings(id),
+  buyer_id INTEGER NOT NULL REFERENCES users(id),
+  seller_id INTEGER NOT NULL REFERENCES users(id),
+  offer_id INTEGER REFERENCES mineral_offers(id),
+  organization_id INTEGER REFERENCES organizations(id), -- Buying organization, carried over from the offer
+  final_price NUMERIC NOT NULL, -- Total amount charged
+  final_quantity NUMERIC NOT NULL,
+  currency VARCHAR(3) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'completed', 'failed', 'refunded')),
+  payment_gateway_id TEXT, -- Payment ID at the provider (e.g. a Stripe payment intent)
+  transaction_date TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+ALTER TABLE transactions ADD COLUMN IF NOT EXISTS organization_id INTEGER REFERENCES organizations(id);
+
+CREATE INDEX IF NOT EXISTS transactions_buyer_id_idx ON transactions (buyer_id);
+CREATE INDEX IF NOT EXISTS transactions_seller_id_idx ON transactions (seller_id);
+
+-- Audit log -----------------------------------------------------------------
+
+CREATE TABLE IF NOT EXISTS audit_events (
+  id BIGSERIAL PRIMARY KEY,
+  actor_id INTEGER REFERENCES users(id), -- Null for the system, webhooks and the CLI
+  action VARCHAR(100) NOT NULL,
+  entity_type VARCHAR(50) NOT NULL,
+  entity_id VARCHAR(100),
+  changes JSONB,
+  ip_address TEXT,
+  request_id VARCHAR(128),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS audit_events_created_at_idx ON audit_events (created_at);
+CREATE INDEX IF NOT EXISTS audit_events_actor_id_idx ON audit_events (actor_id);
+CREATE INDEX IF NOT EXISTS audit_events_entity_idx ON audit_events (entity_type, entity_id);
+CREATE INDEX IF NOT EXISTS audit_events_action_idx ON audit_events (action);
+CREATE INDEX IF NOT EXISTS audit_events_request_id_idx ON audit_events (request_id);
+
+-- The audit log is append-only
+CREATE OR REPLACE FUNCTION audit_events_append_only() RETURNS trigger AS $$
+BEGIN
+  RAISE EXCEPTION 'audit_events is append-only';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS audit_events_append_only ON audit_events;
+CREATE TRIGGER audit_events_append_only
+  BEFORE UPDATE OR DELETE ON audit_events
+  FOR EACH ROW EXECUTE FUNCTION audit_events_append_only();
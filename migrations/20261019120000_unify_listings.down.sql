@@ -0,0 +1,69 @@
+-- Split merged listings back out into mineral_listings.
+--
+-- Only listings that came from mineral_listings can move back. If offers or transactions
+-- now reference listings that were created in `listings`, the old schema cannot represent
+-- them and the rollback stops.
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM mineral_offers mo JOIN listings l ON l.id = mo.listing_id
+    WHERE l.legacy_mineral_listing_id IS NULL
+  ) OR EXISTS (
+    SELECT 1 FROM transactions t JOIN listings l ON l.id = t.listing_id
+    WHERE l.legacy_mineral_listing_id IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Offers or transactions reference listings that did not come from mineral_listings; cannot roll back.';
+  END IF;
+END $$;
+
+CREATE TABLE mineral_listings (
+  id SERIAL PRIMARY KEY,
+  seller_id INTEGER NOT NULL REFERENCES users(id),
+  organization_id INTEGER REFERENCES organizations(id),
+  mineral_type VARCHAR(100) NOT NULL,
+  description TEXT,
+  quantity NUMERIC NOT NULL,
+  unit VARCHAR(20) NOT NULL,
+  price_per_unit NUMERIC NOT NULL,
+  currency VARCHAR(3) NOT NULL DEFAULT 'USD',
+  location VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'available',
+  listed_date TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  last_updated TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+INSERT INTO mineral_listings (
+  id, seller_id, organization_id, mineral_type, description, quantity, unit, price_per_unit,
+  currency, location, status, listed_date, last_updated, created_at, updated_at
+)
+SELECT
+  legacy_mineral_listing_id, seller_id, organization_id, mineral_type, description, quantity, unit, price_per_unit,
+  currency, location, status, created_at, updated_at, created_at, updated_at
+FROM listings
+WHERE legacy_mineral_listing_id IS NOT NULL;
+
+SELECT setval(pg_get_serial_sequence('mineral_listings', 'id'), GREATEST((SELECT MAX(id) FROM mineral_listings), 1));
+
+ALTER TABLE mineral_offers DROP CONSTRAINT mineral_offers_listing_id_fkey;
+ALTER TABLE transactions DROP CONSTRAINT transactions_listing_id_fkey;
+
+UPDATE mineral_offers mo
+SET listing_id = l.legacy_mineral_listing_id
+FROM listings l
+WHERE l.id = mo.listing_id;
+
+UPDATE transactions t
+SET listing_id = l.legacy_mineral_listing_id
+FROM listings l
+WHERE l.id = t.listing_id;
+
+ALTER TABLE mineral_offers
+  ADD CONSTRAINT mineral_offers_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES mineral_listings(id);
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES mineral_listings(id);
+
+DELETE FROM listings WHERE legacy_mineral_listing_id IS NOT NULL;
+ALTER TABLE listings DROP COLUMN legacy_mineral_listing_id;
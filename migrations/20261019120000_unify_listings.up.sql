@@ -0,0 +1,51 @@
+-- Merge mineral_listings into listings so every listing lives in one table.
+--
+-- Listings created through /api/marketplace/listings were stored in `listings`, while
+-- offers and transactions referenced `mineral_listings`. Rows from mineral_listings are
+-- copied into listings with new IDs, offers and transactions are repointed at the copies,
+-- and mineral_listings is dropped. The original ID is kept in legacy_mineral_listing_id
+-- so the merge can be traced (and reverted).
+
+ALTER TABLE listings ADD COLUMN legacy_mineral_listing_id INTEGER UNIQUE;
+
+INSERT INTO listings (
+  seller_id, organization_id, mineral_type, description, quantity, unit, price_per_unit,
+  currency, location, status, created_at, updated_at, legacy_mineral_listing_id
+)
+SELECT
+  seller_id, organization_id, mineral_type, COALESCE(description, ''), quantity, unit, price_per_unit,
+  COALESCE(currency, 'USD'), location, COALESCE(status, 'available'),
+  COALESCE(created_at, listed_date, NOW()), COALESCE(updated_at, last_updated, NOW()), id
+FROM mineral_listings
+ORDER BY id;
+
+-- Foreign key names were never set explicitly, so find them by the table they reference
+DO $$
+DECLARE
+  fk RECORD;
+BEGIN
+  FOR fk IN
+    SELECT conrelid::regclass AS table_name, conname
+    FROM pg_constraint
+    WHERE contype = 'f' AND confrelid = 'mineral_listings'::regclass
+  LOOP
+    EXECUTE format('ALTER TABLE %s DROP CONSTRAINT %I', fk.table_name, fk.conname);
+  END LOOP;
+END $$;
+
+UPDATE mineral_offers mo
+SET listing_id = l.id
+FROM listings l
+WHERE l.legacy_mineral_listing_id = mo.listing_id;
+
+UPDATE transactions t
+SET listing_id = l.id
+FROM listings l
+WHERE l.legacy_mineral_listing_id = t.listing_id;
+
+ALTER TABLE mineral_offers
+  ADD CONSTRAINT mineral_offers_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES listings(id);
+ALTER TABLE transactions
+  ADD CONSTRAINT transactions_listing_id_fkey FOREIGN KEY (listing_id) REFERENCES listings(id);
+
+DROP TABLE mineral_listings;
@@ -0,0 +1,7 @@
+-- The pg_trgm extension is left installed; other objects may depend on it.
+
+DROP INDEX IF EXISTS listings_search_document_trgm_idx;
+DROP INDEX IF EXISTS listings_search_vector_idx;
+
+ALTER TABLE listings DROP COLUMN IF EXISTS search_document;
+ALTER TABLE listings DROP COLUMN IF EXISTS search_vector;
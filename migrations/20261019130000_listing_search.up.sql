@@ -0,0 +1,24 @@
+-- Full-text search over listings.
+--
+-- search_vector is weighted (mineral type highest, then seller company and location, then
+-- description) for ranked tsquery matches; search_document is the same text in plain form
+-- for pg_trgm word similarity, which catches typos. Both are maintained by ListingModel
+-- when a listing is created or updated, and when a seller's company name changes.
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+ALTER TABLE listings ADD COLUMN search_vector tsvector;
+ALTER TABLE listings ADD COLUMN search_document TEXT;
+
+UPDATE listings l SET
+  search_vector =
+    setweight(to_tsvector('english', l.mineral_type), 'A') ||
+    setweight(to_tsvector('english', coalesce(u.company_name, '')), 'B') ||
+    setweight(to_tsvector('english', l.location), 'B') ||
+    setweight(to_tsvector('english', coalesce(l.description, '')), 'C'),
+  search_document = concat_ws(' ', l.mineral_type, l.description, l.location, u.company_name)
+FROM users u
+WHERE u.id = l.seller_id;
+
+CREATE INDEX listings_search_vector_idx ON listings USING GIN (search_vector);
+CREATE INDEX listings_search_document_trgm_idx ON listings USING GIN (search_document gin_trgm_ops);
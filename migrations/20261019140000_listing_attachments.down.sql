@@ -0,0 +1,3 @@
+-- Stored files are not removed; clear the uploads directory (or bucket) separately if needed.
+
+DROP TABLE IF EXISTS listing_attachments;
@@ -0,0 +1,25 @@
+-- Photos and documents (assay reports, export permits, ...) attached to listings.
+--
+-- The files themselves live in file storage (see src/services/storageService.ts) under
+-- storage_key; photos also have a thumbnail under thumbnail_key. position orders a listing's
+-- photos and its documents separately, lowest first, and is set by the seller.
+
+CREATE TABLE IF NOT EXISTS listing_attachments (
+  id SERIAL PRIMARY KEY,
+  listing_id INTEGER NOT NULL REFERENCES listings(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('photo', 'document')),
+  document_type VARCHAR(30) CHECK (document_type IN ('assay_report', 'export_permit', 'other')),
+  original_name VARCHAR(255) NOT NULL,
+  mime_type VARCHAR(100) NOT NULL,
+  size_bytes INTEGER NOT NULL,
+  storage_key TEXT NOT NULL,
+  thumbnail_key TEXT,
+  width INTEGER,
+  height INTEGER,
+  position INTEGER NOT NULL,
+  uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK ((kind = 'document') = (document_type IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS listing_attachments_listing_id_idx ON listing_attachments (listing_id, kind, position);
@@ -0,0 +1,4 @@
+DROP INDEX IF EXISTS listings_mineral_type_grade_idx;
+DROP INDEX IF EXISTS listings_specifications_idx;
+
+ALTER TABLE listings DROP COLUMN IF EXISTS specifications;
@@ -0,0 +1,10 @@
+-- Structured specifications for listings: form, grade, purity, moisture, impurities and
+-- particle size, validated per mineral category by the API (see MineralSpecification).
+-- NULL means the seller has not given one.
+
+ALTER TABLE listings ADD COLUMN specifications JSONB CHECK (jsonb_typeof(specifications) = 'object');
+
+-- Form filters use containment (specifications @> '{"form": ...}')
+CREATE INDEX listings_specifications_idx ON listings USING GIN (specifications jsonb_path_ops);
+-- Grades are only comparable within a mineral type, so grade filters always come with one
+CREATE INDEX listings_mineral_type_grade_idx ON listings (lower(mineral_type), ((specifications->>'grade')::numeric));
@@ -0,0 +1,11 @@
+-- Listings keep their normalised mineral_type; the original spellings are not restored.
+
+DROP INDEX IF EXISTS listings_commodity_grade_idx;
+CREATE INDEX IF NOT EXISTS listings_mineral_type_grade_idx ON listings (lower(mineral_type), ((specifications->>'grade')::numeric));
+
+DROP INDEX IF EXISTS listings_commodity_id_idx;
+ALTER TABLE listings DROP COLUMN IF EXISTS commodity_id;
+
+DROP FUNCTION IF EXISTS commodity_id_for(TEXT);
+DROP TABLE IF EXISTS commodity_aliases;
+DROP TABLE IF EXISTS commodities;
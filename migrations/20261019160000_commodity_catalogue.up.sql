@@ -0,0 +1,125 @@
+-- Managed commodity catalogue. Listings now refer to a commodity instead of a free-text
+-- mineral type, so "Gold", "gold", "Au" and "Gold ore" are one commodity. listings.mineral_type
+-- is kept as the commodity's name for display and search.
+--
+-- A commodity sets which specification a listing may carry (see MineralSpecification): the
+-- forms it is sold in, the unit of its grade, and which specification fields apply.
+
+CREATE TABLE IF NOT EXISTS commodities (
+  id SERIAL PRIMARY KEY,
+  code VARCHAR(50) NOT NULL UNIQUE, -- Stable identifier, e.g. 'iron_ore'
+  name VARCHAR(100) NOT NULL,
+  category VARCHAR(50) NOT NULL,
+  hs_code VARCHAR(12), -- Harmonized System code it is usually traded under
+  default_unit VARCHAR(20) NOT NULL,
+  grade_unit VARCHAR(5) NOT NULL CHECK (grade_unit IN ('%', 'g/t')),
+  allowed_forms TEXT[] NOT NULL,
+  specification_fields TEXT[] NOT NULL, -- Specification fields besides form that apply
+  active BOOLEAN NOT NULL DEFAULT TRUE, -- Inactive commodities cannot be used for new listings
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS commodities_name_idx ON commodities (lower(name));
+
+-- Other names a commodity is known by: chemical symbols, forms, common misspellings
+CREATE TABLE IF NOT EXISTS commodity_aliases (
+  id SERIAL PRIMARY KEY,
+  commodity_id INTEGER NOT NULL REFERENCES commodities(id) ON DELETE CASCADE,
+  alias VARCHAR(100) NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS commodity_aliases_alias_idx ON commodity_aliases (lower(alias));
+CREATE INDEX IF NOT EXISTS commodity_aliases_commodity_id_idx ON commodity_aliases (commodity_id);
+
+-- Resolves a name, code or alias to a commodity ID, ignoring case and extra spaces; NULL if unknown
+CREATE OR REPLACE FUNCTION commodity_id_for(search_name TEXT) RETURNS INTEGER
+LANGUAGE sql STABLE AS $$
+  WITH normalized AS (SELECT lower(regexp_replace(trim(search_name), '\s+', ' ', 'g')) AS name)
+  SELECT coalesce(
+    (SELECT c.id FROM commodities c, normalized n WHERE lower(c.name) = n.name OR c.code = n.name
+     ORDER BY lower(c.name) = n.name DESC LIMIT 1),
+    (SELECT a.commodity_id FROM commodity_aliases a, normalized n WHERE lower(a.alias) = n.name)
+  )
+$$;
+
+INSERT INTO commodities (code, name, category, hs_code, default_unit, grade_unit, allowed_forms, specification_fields) VALUES
+  ('gold', 'Gold', 'precious_metals', '7108', 'oz', 'g/t',
+    ARRAY['ore', 'concentrate', 'dore', 'bullion', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('silver', 'Silver', 'precious_metals', '7106', 'oz', 'g/t',
+    ARRAY['ore', 'concentrate', 'dore', 'bullion', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('platinum', 'Platinum', 'precious_metals', '7110.11', 'oz', 'g/t',
+    ARRAY['ore', 'concentrate', 'bullion', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm']),
+  ('palladium', 'Palladium', 'precious_metals', '7110.21', 'oz', 'g/t',
+    ARRAY['ore', 'concentrate', 'bullion', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm']),
+  ('copper', 'Copper', 'base_metals', '2603.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'cathode', 'chemical', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('zinc', 'Zinc', 'base_metals', '2608.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('lead', 'Lead', 'base_metals', '2607.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('nickel', 'Nickel', 'base_metals', '2604.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'cathode', 'chemical', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('tin', 'Tin', 'base_metals', '2609.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('cobalt', 'Cobalt', 'battery_minerals', '2605.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'cathode', 'chemical', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('lithium', 'Lithium', 'battery_minerals', '2530.90', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'chemical', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('graphite', 'Graphite', 'battery_minerals', '2504.10', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('manganese', 'Manganese', 'battery_minerals', '2602.00', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'chemical', 'other'], ARRAY['grade', 'purity_percent', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('iron_ore', 'Iron Ore', 'bulk_commodities', '2601.11', 'tonne', '%',
+    ARRAY['ore', 'concentrate', 'other'], ARRAY['grade', 'moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('coal', 'Coal', 'bulk_commodities', '2701.12', 'tonne', '%',
+    ARRAY['ore', 'other'], ARRAY['moisture_percent', 'impurities_ppm', 'particle_size_mm']),
+  ('bauxite', 'Bauxite', 'bulk_commodities', '2606.00', 'tonne', '%',
+    ARRAY['ore', 'other'], ARRAY['grade', 'moisture_percent', 'impurities_ppm', 'particle_size_mm'])
+ON CONFLICT (code) DO NOTHING;
+
+INSERT INTO commodity_aliases (commodity_id, alias)
+SELECT c.id, a.alias
+FROM (VALUES
+  ('gold', 'Au'), ('gold', 'Gold ore'), ('gold', 'Gold dore'), ('gold', 'Gold doré'), ('gold', 'Gold bullion'),
+  ('silver', 'Ag'), ('silver', 'Silver ore'), ('silver', 'Silver bullion'),
+  ('platinum', 'Pt'), ('palladium', 'Pd'),
+  ('copper', 'Cu'), ('copper', 'Copper ore'), ('copper', 'Copper concentrate'), ('copper', 'Copper cathode'),
+  ('zinc', 'Zn'), ('zinc', 'Zinc concentrate'), ('zinc', 'Sphalerite'),
+  ('lead', 'Pb'), ('lead', 'Lead concentrate'), ('lead', 'Galena'),
+  ('nickel', 'Ni'), ('nickel', 'Nickel ore'),
+  ('tin', 'Sn'), ('tin', 'Cassiterite'),
+  ('cobalt', 'Co'), ('cobalt', 'Cobalt hydroxide'),
+  ('lithium', 'Li'), ('lithium', 'Spodumene'), ('lithium', 'Lithium carbonate'), ('lithium', 'Lithium hydroxide'),
+  ('manganese', 'Mn'), ('manganese', 'Manganese ore'),
+  ('iron_ore', 'Iron'), ('iron_ore', 'Fe'), ('iron_ore', 'Hematite'), ('iron_ore', 'Magnetite'),
+  ('coal', 'Thermal coal'), ('coal', 'Coking coal'),
+  ('bauxite', 'Aluminium ore'), ('bauxite', 'Aluminum ore')
+) AS a(code, alias)
+JOIN commodities c ON c.code = a.code
+ON CONFLICT DO NOTHING;
+
+ALTER TABLE listings ADD COLUMN commodity_id INTEGER REFERENCES commodities(id);
+CREATE INDEX listings_commodity_id_idx ON listings (commodity_id);
+
+-- Grade filters now go with a commodity rather than a mineral type string
+DROP INDEX IF EXISTS listings_mineral_type_grade_idx;
+CREATE INDEX listings_commodity_grade_idx ON listings (commodity_id, ((specifications->>'grade')::numeric));
+
+-- Normalise existing listings. Mineral types that match no commodity are left as they are
+-- (with no commodity_id); add an alias for them through the admin API and run this again:
+--   UPDATE listings SET commodity_id = commodity_id_for(mineral_type) WHERE commodity_id IS NULL;
+UPDATE listings l SET commodity_id = c.id, mineral_type = c.name
+FROM commodities c
+WHERE c.id = commodity_id_for(l.mineral_type);
+
+-- mineral_type may have changed, so rebuild the search columns (as in 20261019130000_listing_search)
+UPDATE listings l SET
+  search_vector =
+    setweight(to_tsvector('english', l.mineral_type), 'A') ||
+    setweight(to_tsvector('english', coalesce(u.company_name, '')), 'B') ||
+    setweight(to_tsvector('english', l.location), 'B') ||
+    setweight(to_tsvector('english', coalesce(l.description, '')), 'C'),
+  search_document = concat_ws(' ', l.mineral_type, l.description, l.location, u.company_name)
+FROM users u
+WHERE u.id = l.seller_id AND l.commodity_id IS NOT NULL;
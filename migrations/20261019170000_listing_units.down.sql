@@ -0,0 +1,8 @@
+-- Units keep their normalised spelling (e.g. 'tonnes' stays 'tonne')
+DROP INDEX IF EXISTS listings_normalized_quantity_idx;
+DROP INDEX IF EXISTS listings_normalized_price_idx;
+
+ALTER TABLE listings
+  DROP COLUMN IF EXISTS normalized_price_per_unit,
+  DROP COLUMN IF EXISTS normalized_quantity,
+  DROP COLUMN IF EXISTS canonical_unit;
@@ -0,0 +1,49 @@
+-- Normalised quantities and prices for listings. Each listing's quantity and price per unit
+-- are also stored in the canonical unit of the unit's dimension (kg for mass, l for volume,
+-- unit for counts), so price and quantity filters and sorting compare like with like.
+-- The units are defined in src/utils/units.ts; the API keeps these columns up to date.
+
+ALTER TABLE listings
+  ADD COLUMN canonical_unit TEXT CHECK (canonical_unit IN ('kg', 'l', 'unit')),
+  ADD COLUMN normalized_quantity NUMERIC,
+  ADD COLUMN normalized_price_per_unit NUMERIC;
+
+CREATE INDEX listings_normalized_price_idx ON listings (canonical_unit, normalized_price_per_unit);
+CREATE INDEX listings_normalized_quantity_idx ON listings (canonical_unit, normalized_quantity);
+
+-- Normalise existing listings, with units spelled as in src/utils/units.ts. Listings in units
+-- that are not known keep their unit, with NULL normalised values, until their seller updates them.
+WITH units (name, symbol, canonical_unit, to_canonical) AS (VALUES
+  ('kg', 'kg', 'kg', 1), ('kgs', 'kg', 'kg', 1), ('kilo', 'kg', 'kg', 1), ('kilos', 'kg', 'kg', 1),
+  ('kilogram', 'kg', 'kg', 1), ('kilograms', 'kg', 'kg', 1),
+  ('g', 'g', 'kg', 0.001), ('gram', 'g', 'kg', 0.001), ('grams', 'g', 'kg', 0.001),
+  ('tonne', 'tonne', 'kg', 1000), ('t', 'tonne', 'kg', 1000), ('tonnes', 'tonne', 'kg', 1000),
+  ('mt', 'tonne', 'kg', 1000), ('metric ton', 'tonne', 'kg', 1000), ('metric tons', 'tonne', 'kg', 1000),
+  ('metric tonne', 'tonne', 'kg', 1000), ('metric tonnes', 'tonne', 'kg', 1000),
+  ('oz', 'oz', 'kg', 0.0311034768), ('ozt', 'oz', 'kg', 0.0311034768), ('troy oz', 'oz', 'kg', 0.0311034768),
+  ('troy ounce', 'oz', 'kg', 0.0311034768), ('troy ounces', 'oz', 'kg', 0.0311034768),
+  ('ounce', 'oz', 'kg', 0.0311034768), ('ounces', 'oz', 'kg', 0.0311034768),
+  ('lb', 'lb', 'kg', 0.45359237), ('lbs', 'lb', 'kg', 0.45359237), ('pound', 'lb', 'kg', 0.45359237),
+  ('pounds', 'lb', 'kg', 0.45359237),
+  ('short ton', 'short ton', 'kg', 907.18474), ('short tons', 'short ton', 'kg', 907.18474),
+  ('us ton', 'short ton', 'kg', 907.18474), ('us tons', 'short ton', 'kg', 907.18474),
+  ('long ton', 'long ton', 'kg', 1016.0469088), ('long tons', 'long ton', 'kg', 1016.0469088),
+  ('l', 'l', 'l', 1), ('litre', 'l', 'l', 1), ('litres', 'l', 'l', 1), ('liter', 'l', 'l', 1),
+  ('liters', 'l', 'l', 1),
+  ('m3', 'm3', 'l', 1000), ('m³', 'm3', 'l', 1000), ('cubic metre', 'm3', 'l', 1000),
+  ('cubic metres', 'm3', 'l', 1000), ('cubic meter', 'm3', 'l', 1000), ('cubic meters', 'm3', 'l', 1000),
+  ('bbl', 'bbl', 'l', 158.987294928), ('barrel', 'bbl', 'l', 158.987294928),
+  ('barrels', 'bbl', 'l', 158.987294928),
+  ('gal', 'gal', 'l', 3.785411784), ('gallon', 'gal', 'l', 3.785411784),
+  ('gallons', 'gal', 'l', 3.785411784),
+  ('unit', 'unit', 'unit', 1), ('units', 'unit', 'unit', 1), ('piece', 'unit', 'unit', 1),
+  ('pieces', 'unit', 'unit', 1), ('pc', 'unit', 'unit', 1), ('pcs', 'unit', 'unit', 1),
+  ('each', 'unit', 'unit', 1), ('ea', 'unit', 'unit', 1)
+)
+UPDATE listings l SET
+  unit = u.symbol,
+  canonical_unit = u.canonical_unit,
+  normalized_quantity = l.quantity * u.to_canonical,
+  normalized_price_per_unit = l.price_per_unit / u.to_canonical
+FROM units u
+WHERE u.name = regexp_replace(regexp_replace(lower(btrim(l.unit)), '\s+', ' ', 'g'), '\.$', '');
@@ -0,0 +1,3 @@
+ALTER TABLE transactions DROP COLUMN IF EXISTS fx_snapshot;
+
+DROP TABLE IF EXISTS fx_rates;
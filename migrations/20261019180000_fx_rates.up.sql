@@ -0,0 +1,23 @@
+-- Exchange rates for showing, filtering and sorting prices across currencies, kept by admins
+-- (by hand or CSV import). Rates are against the US dollar: `rate` is how many units of the
+-- currency one US dollar buys, so USD is always 1.
+
+CREATE TABLE fx_rates (
+  currency VARCHAR(3) PRIMARY KEY CHECK (currency ~ '^[A-Z]{3}$'),
+  rate NUMERIC NOT NULL CHECK (rate > 0),
+  source VARCHAR(20) NOT NULL DEFAULT 'manual' CHECK (source IN ('seed', 'manual', 'csv')),
+  updated_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (currency <> 'USD' OR rate = 1)
+);
+
+-- Indicative rates for the currencies checkout supported before; admins should import current ones
+INSERT INTO fx_rates (currency, rate, source) VALUES
+  ('USD', 1, 'seed'),
+  ('EUR', 0.92, 'seed'),
+  ('GBP', 0.79, 'seed')
+ON CONFLICT (currency) DO NOTHING;
+
+-- The rate a checkout used, e.g. {"base_currency": "USD", "currency": "EUR", "rate": 0.92,
+-- "rate_updated_at": "...", "base_amount": 10869.57}; NULL for transactions from before rates
+ALTER TABLE transactions ADD COLUMN fx_snapshot JSONB CHECK (jsonb_typeof(fx_snapshot) = 'object');
@@ -0,0 +1,20 @@
+-- Single-use two-factor login challenges, and TOTP replay protection.
+--
+-- The challenge token returned by a correct password carries the id of a row here, so a
+-- challenge can be revoked after one successful second step or too many wrong codes.
+
+CREATE TABLE two_factor_challenges (
+  id TEXT PRIMARY KEY, -- The challenge token's jti
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('2fa_verify', '2fa_setup')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  expires_at TIMESTAMPTZ NOT NULL,
+  consumed_at TIMESTAMPTZ, -- Set once used or revoked
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX two_factor_challenges_user_id_idx ON two_factor_challenges (user_id);
+CREATE INDEX two_factor_challenges_expires_at_idx ON two_factor_challenges (expires_at);
+
+-- The 30-second TOTP time step of the last code accepted, so a code cannot be used twice
+ALTER TABLE users ADD COLUMN two_factor_last_step INTEGER;
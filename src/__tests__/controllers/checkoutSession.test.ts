@@ -0,0 +1,73 @@
+const mockQuery = jest.fn();
+const mockCreateSession = jest.fn();
+
+jest.mock('../../config/database', () => ({
+  pgPool: { query: (...args: unknown[]) => mockQuery(...args) },
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+jest.mock('stripe', () =>
+  jest.fn().mockImplementation(() => ({
+    checkout: { sessions: { create: (...args: unknown[]) => mockCreateSession(...args) } },
+  }))
+);
+
+import { Request, Response } from 'express';
+import { createCheckoutSession } from '../../controllers/paymentController';
+import { FxRateService } from '../../services/fxRateService';
+
+const checkoutBody = {
+  listing_id: 4,
+  offer_id: 9,
+  seller_id: 2,
+  mineralType: 'Copper',
+  final_price: 12500,
+  final_quantity: 10,
+  currency: 'eur',
+};
+
+const runCheckout = async (body: Record<string, unknown>) => {
+  const req = { body, user: { id: 7, role: 'buyer' } } as unknown as Request;
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+  const next = jest.fn();
+  await createCheckoutSession(req, res, next);
+  return { res, next };
+};
+
+describe('createCheckoutSession', () => {
+  let getCheckoutSnapshot: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    mockQuery.mockReset();
+    mockCreateSession.mockReset().mockResolvedValue({ url: 'https://checkout.stripe.com/c/pay/cs_test' });
+    getCheckoutSnapshot = jest
+      .spyOn(FxRateService.prototype, 'getCheckoutSnapshot')
+      .mockResolvedValue({ base_currency: 'USD', currency: 'EUR', rate: 0.92, rate_updated_at: new Date(), base_amount: 13586.96 });
+  });
+
+  test('should store and convert the normalized currency code', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [] }).mockResolvedValueOnce({ rows: [{ id: 55 }] });
+
+    const { res, next } = await runCheckout(checkoutBody);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(res.status).toHaveBeenCalledWith(200);
+    expect(getCheckoutSnapshot).toHaveBeenCalledWith('EUR', 12500);
+    expect(mockQuery.mock.calls[1][1]).toEqual([4, 7, 2, 9, 12500, 10, 'EUR', expect.any(String)]);
+    expect(mockCreateSession.mock.calls[0][0].line_items[0].price_data.currency).toBe('eur');
+  });
+
+  test.each([
+    ['a missing currency', { ...checkoutBody, currency: undefined }],
+    ['a malformed currency', { ...checkoutBody, currency: 'euro' }],
+    ['a missing price', { ...checkoutBody, final_price: undefined }],
+    ['a negative quantity', { ...checkoutBody, final_quantity: -1 }],
+  ])('should reject %s with a 400', async (_, body) => {
+    const { next } = await runCheckout(body);
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+    expect(getCheckoutSnapshot).not.toHaveBeenCalled();
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
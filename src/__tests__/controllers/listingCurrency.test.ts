@@ -0,0 +1,61 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { Request, Response } from 'express';
+import { createListing, updateListing } from '../../controllers/listingController';
+import { FxRateService } from '../../services/fxRateService';
+import { CommodityService } from '../../services/commodityService';
+import { ListingService } from '../../services/listingService';
+
+const listingBody = {
+  mineralType: 'Copper',
+  description: 'Copper cathode, LME grade A',
+  quantity: 25,
+  unit: 'tonne',
+  pricePerUnit: 9100,
+  location: 'Kitwe, Zambia',
+};
+
+const run = async (handler: typeof createListing, req: Partial<Request>) => {
+  const res = { status: jest.fn().mockReturnThis(), json: jest.fn() } as unknown as Response;
+  const next = jest.fn();
+  await handler({ params: {}, ...req, user: { id: 2, role: 'miner' } } as Request, res, next);
+  return next;
+};
+
+describe('Listing currencies', () => {
+  let resolveCommodity: jest.SpyInstance;
+  let getListingById: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(FxRateService.prototype, 'getRateMap').mockResolvedValue(new Map([['USD', 1], ['EUR', 0.92]]));
+    // Stops each request right after the currency check
+    resolveCommodity = jest.spyOn(CommodityService.prototype, 'resolveCommodity').mockRejectedValue(new Error('past the check'));
+    getListingById = jest.spyOn(ListingService.prototype, 'getListingById').mockRejectedValue(new Error('past the check'));
+  });
+
+  test('should create listings in a currency with an exchange rate', async () => {
+    const next = await run(createListing, { body: { ...listingBody, currency: 'eur' } });
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ message: 'past the check' }));
+    expect(resolveCommodity).toHaveBeenCalled();
+  });
+
+  test('should refuse to create a listing in a currency without an exchange rate', async () => {
+    const next = await run(createListing, { body: { ...listingBody, currency: 'XYZ' } });
+
+    expect(next).toHaveBeenCalledWith(
+      expect.objectContaining({ statusCode: 400, message: 'There is no exchange rate for XYZ; see GET /api/marketplace/fx-rates.' })
+    );
+    expect(resolveCommodity).not.toHaveBeenCalled();
+  });
+
+  test('should refuse to move a listing to a currency without an exchange rate', async () => {
+    const next = await run(updateListing, { params: { id: '4' }, body: { currency: 'xyz' } });
+
+    expect(next).toHaveBeenCalledWith(expect.objectContaining({ statusCode: 400 }));
+    expect(getListingById).not.toHaveBeenCalled();
+  });
+});
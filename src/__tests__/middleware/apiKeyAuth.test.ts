@@ -0,0 +1,91 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { Request, Response, NextFunction } from 'express';
+import { authenticate, requireScope, requireSession } from '../../middleware/authMiddleware';
+import { ApiKeyService } from '../../services/apiKeyService';
+import { ApiKey } from '../../models/apiKeyModel';
+import { PermissionModel } from '../../models/permissionModel';
+import { BackendUser } from '../../models/userModel';
+
+const apiKey = { id: 3, scopes: ['listings:read'], organization_id: 12 } as ApiKey;
+
+const createMockRequest = (headers: Record<string, string>, user?: Request['user']): Request =>
+  ({ headers, ip: '203.0.113.9', method: 'GET', user } as unknown as Request);
+
+const runMiddleware = async (
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  req: Request
+): Promise<unknown> => {
+  const next = jest.fn();
+  await middleware(req, {} as Response, next);
+  expect(next).toHaveBeenCalledTimes(1);
+  return next.mock.calls[0][0];
+};
+
+describe('API key authentication', () => {
+  let authenticateApiKey: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    authenticateApiKey = jest.spyOn(ApiKeyService.prototype, 'authenticateApiKey');
+    // Built-in roles keep their defaults; 'support' is a custom role that can change user roles
+    jest.spyOn(PermissionModel.prototype, 'getPermissionsForRole').mockImplementation(async (role) =>
+      role === 'support' ? ['user.read', 'user.manage_roles'] : null
+    );
+  });
+
+  test.each([
+    ['an X-API-Key header', { 'x-api-key': 'mmk_secret' }],
+    ['a Bearer token', { authorization: 'Bearer mmk_secret' }],
+  ])('should authenticate a key sent in %s', async (_, headers) => {
+    authenticateApiKey.mockResolvedValue({ apiKey, user: { id: 7, role: 'miner' } as BackendUser });
+    const req = createMockRequest(headers);
+
+    expect(await runMiddleware(authenticate, req)).toBeUndefined();
+    expect(authenticateApiKey).toHaveBeenCalledWith('mmk_secret', '203.0.113.9');
+    expect(req.user).toEqual({ id: 7, role: 'miner', apiKey: { id: 3, scopes: ['listings:read'], organizationId: 12 } });
+  });
+
+  test('should reject keys of privileged users who have not enrolled in 2FA', async () => {
+    authenticateApiKey.mockResolvedValue({ apiKey, user: { id: 7, role: 'support', two_factor_enabled: false } as BackendUser });
+
+    expect(await runMiddleware(authenticate, createMockRequest({ 'x-api-key': 'mmk_secret' }))).toMatchObject({ statusCode: 403 });
+  });
+
+  test('should pass on the error for an invalid key', async () => {
+    authenticateApiKey.mockRejectedValue(Object.assign(new Error('Invalid, expired or revoked API key.'), { statusCode: 401 }));
+
+    expect(await runMiddleware(authenticate, createMockRequest({ 'x-api-key': 'mmk_wrong' }))).toMatchObject({ statusCode: 401 });
+  });
+
+  describe('requireScope', () => {
+    test('should let a key with the scope through', async () => {
+      const req = createMockRequest({}, { id: 7, role: 'miner', apiKey: { id: 3, scopes: ['listings:read'], organizationId: null } });
+
+      expect(await runMiddleware(requireScope('listings:read'), req)).toBeUndefined();
+    });
+
+    test('should reject a key without the scope', async () => {
+      const req = createMockRequest({}, { id: 7, role: 'miner', apiKey: { id: 3, scopes: ['listings:read'], organizationId: null } });
+
+      expect(await runMiddleware(requireScope('offers:write'), req)).toMatchObject({
+        statusCode: 403,
+        message: "This API key is missing the 'offers:write' scope.",
+      });
+    });
+
+    test('should not limit requests made with a login session', async () => {
+      const req = createMockRequest({}, { id: 7, role: 'miner', sessionId: 31 });
+
+      expect(await runMiddleware(requireScope('offers:write'), req)).toBeUndefined();
+    });
+  });
+
+  test('should keep API keys away from session-only endpoints', async () => {
+    const req = createMockRequest({}, { id: 7, role: 'miner', apiKey: { id: 3, scopes: [], organizationId: null } });
+
+    expect(await runMiddleware(requireSession, req)).toMatchObject({ statusCode: 403 });
+  });
+});
@@ -0,0 +1,135 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { EventEmitter } from 'events';
+import { Request, Response, NextFunction } from 'express';
+import jwt from 'jsonwebtoken';
+import { authenticate } from '../../middleware/authMiddleware';
+import { router as userRouter } from '../../routes/userRoutes';
+import { ImpersonationService, ImpersonationTokenPayload } from '../../services/impersonationService';
+import { PermissionService } from '../../services/permissionService';
+import { UserModel, BackendUser } from '../../models/userModel';
+import { SessionModel, UserSession } from '../../models/sessionModel';
+
+const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret_key';
+
+const admin = { id: 1, role: 'admin', token_version: 0, two_factor_enabled: true } as BackendUser;
+const miner = { id: 7, role: 'miner', token_version: 0 } as BackendUser;
+const payload: ImpersonationTokenPayload = { id: miner.id, tv: 0, imp: { by: admin.id, sid: 31, tv: 0 } };
+const token = jwt.sign(payload, JWT_SECRET, { expiresIn: 600 });
+
+const createMockRequest = (method: string, url: string): Request =>
+  ({ method, url, originalUrl: `/api/users${url}`, headers: { authorization: `Bearer ${token}` }, ip: '203.0.113.9' } as unknown as Request);
+
+// Enough of a response for the middleware: headers, a status code and the 'finish' event
+const createMockResponse = (): Response =>
+  Object.assign(new EventEmitter(), { statusCode: 200, setHeader: jest.fn() }) as unknown as Response;
+
+const runMiddleware = async (
+  middleware: (req: Request, res: Response, next: NextFunction) => unknown,
+  req: Request,
+  res: Response
+): Promise<unknown> => {
+  const next = jest.fn();
+  await middleware(req, res, next);
+  expect(next).toHaveBeenCalledTimes(1);
+  return next.mock.calls[0][0];
+};
+
+// Sends a request through the real user router and returns the error it stops with
+const dispatch = (req: Request): Promise<unknown> =>
+  new Promise((resolve) => {
+    (userRouter as unknown as (req: Request, res: Response, done: (error?: unknown) => void) => void)(
+      req,
+      createMockResponse(),
+      resolve
+    );
+  });
+
+describe('Impersonation', () => {
+  let recordImpersonatedRequest: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(ImpersonationService.prototype, 'resolveImpersonation').mockResolvedValue({
+      user: miner,
+      impersonator: admin,
+      sessionId: 31,
+    });
+    recordImpersonatedRequest = jest.spyOn(ImpersonationService.prototype, 'recordImpersonatedRequest').mockResolvedValue();
+  });
+
+  describe('authenticate', () => {
+    test('should act as the impersonated user on reads', async () => {
+      const req = createMockRequest('GET', '/profile');
+      const res = createMockResponse();
+
+      expect(await runMiddleware(authenticate, req, res)).toBeUndefined();
+      expect(req.user).toEqual({ id: miner.id, role: 'miner', impersonator: { id: admin.id, role: 'admin', sessionId: 31 } });
+      expect(res.setHeader).toHaveBeenCalledWith('X-Impersonated-By', '1');
+    });
+
+    test.each(['POST', 'PUT', 'PATCH', 'DELETE'])('should reject %s requests', async (method) => {
+      const error = await runMiddleware(authenticate, createMockRequest(method, '/profile'), createMockResponse());
+
+      expect(error).toMatchObject({ statusCode: 403, message: 'Changes cannot be made while impersonating a user.' });
+    });
+
+    test('should audit every request once it completes, including rejected ones', async () => {
+      const res = createMockResponse();
+      await runMiddleware(authenticate, createMockRequest('DELETE', '/me'), res);
+      expect(recordImpersonatedRequest).not.toHaveBeenCalled();
+
+      res.statusCode = 403;
+      res.emit('finish');
+
+      expect(recordImpersonatedRequest).toHaveBeenCalledWith(
+        expect.objectContaining({ actorId: admin.id, ipAddress: '203.0.113.9' }),
+        miner.id,
+        { method: 'DELETE', path: '/api/users/me', statusCode: 403 }
+      );
+    });
+  });
+
+  describe('user routes', () => {
+    test.each(['/me/export', '/api-keys', '/api-keys/5'])('should refuse GET %s', async (url) => {
+      expect(await dispatch(createMockRequest('GET', url))).toMatchObject({
+        statusCode: 403,
+        message: 'This endpoint is not available while impersonating a user.',
+      });
+    });
+  });
+
+  describe('resolveImpersonation', () => {
+    const session = { id: 31, user_id: admin.id, revoked_at: null, expires_at: new Date(Date.now() + 60000) } as UserSession;
+
+    beforeEach(() => {
+      jest.restoreAllMocks();
+      jest.spyOn(UserModel.prototype, 'getUserById').mockImplementation(async (id) => (id === admin.id ? admin : miner));
+      jest.spyOn(PermissionService.prototype, 'hasPermission').mockResolvedValue(true);
+    });
+
+    test('should resolve a token whose admin session is live', async () => {
+      jest.spyOn(SessionModel.prototype, 'getSessionById').mockResolvedValue(session);
+
+      await expect(new ImpersonationService().resolveImpersonation(payload)).resolves.toEqual({
+        user: miner,
+        impersonator: admin,
+        sessionId: 31,
+      });
+    });
+
+    test.each([
+      ['revoked', { revoked_at: new Date() }],
+      ['expired', { expires_at: new Date(Date.now() - 1000) }],
+    ])('should reject a token whose admin session is %s', async (_, changes) => {
+      jest.spyOn(SessionModel.prototype, 'getSessionById').mockResolvedValue({ ...session, ...changes });
+
+      await expect(new ImpersonationService().resolveImpersonation(payload)).rejects.toMatchObject({
+        statusCode: 401,
+        message: 'Impersonation token is no longer valid.',
+      });
+    });
+  });
+});
@@ -0,0 +1,27 @@
+jest.mock('../../config/database', () => {
+  const pool = { query: jest.fn() };
+  return { getPool: () => pool };
+});
+
+import { getPool } from '../../config/database';
+import { ApiKeyModel } from '../../models/apiKeyModel';
+
+const query = getPool().query as jest.Mock;
+
+describe('ApiKeyModel', () => {
+  beforeEach(() => {
+    query.mockReset();
+  });
+
+  describe('findActiveByHash', () => {
+    test('should only find keys that are neither revoked nor expired', async () => {
+      query.mockResolvedValue({ rows: [] });
+
+      await expect(new ApiKeyModel().findActiveByHash('hash')).resolves.toBeNull();
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())');
+      expect(params).toEqual(['hash']);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+const mockClient = { query: jest.fn(), release: jest.fn() };
+
+jest.mock('../../config/database', () => ({
+  getPool: () => ({ query: jest.fn(), connect: jest.fn(async () => mockClient) }),
+}));
+
+import { ListingModel, toPrefixTsQuery } from '../../models/listingModel';
+
+describe('toPrefixTsQuery', () => {
+  test('should match every word as a prefix', () => {
+    expect(toPrefixTsQuery('high grade copper concentrate Zambia')).toBe(
+      'high:* | grade:* | copper:* | concentrate:* | zambia:*'
+    );
+  });
+
+  test('should drop tsquery operators and punctuation', () => {
+    expect(toPrefixTsQuery("cobalt & !lithium | (gold):* 'ore'")).toBe('cobalt:* | lithium:* | gold:* | ore:*');
+  });
+
+  test('should keep accented letters and numbers', () => {
+    expect(toPrefixTsQuery('doré 99.99')).toBe('doré:* | 99:* | 99:*');
+  });
+
+  test('should return null when there are no words', () => {
+    expect(toPrefixTsQuery(' -- !! ')).toBeNull();
+  });
+});
+
+describe('ListingModel.deleteListing', () => {
+  const statements = (): string[] => mockClient.query.mock.calls.map(([sql]) => sql.replace(/\s+/g, ' ').trim());
+
+  beforeEach(() => {
+    mockClient.query.mockReset();
+    mockClient.release.mockReset();
+  });
+
+  test('should keep a listing that has offers', async () => {
+    mockClient.query.mockImplementation(async (sql: string) =>
+      sql.includes('has_trades') ? { rows: [{ has_trades: true }] } : { rows: [] }
+    );
+
+    await expect(new ListingModel().deleteListing(4)).resolves.toBeNull();
+    expect(statements()).toContain('ROLLBACK');
+    expect(statements().some((sql) => sql.startsWith('DELETE'))).toBe(false);
+    expect(mockClient.release).toHaveBeenCalled();
+  });
+
+  test('should delete a listing without trade history, with its attachments', async () => {
+    const attachment = { id: 8, listing_id: 4 };
+    mockClient.query.mockImplementation(async (sql: string) => {
+      if (sql.includes('has_trades')) return { rows: [{ has_trades: false }] };
+      if (sql.startsWith('DELETE FROM listing_attachments')) return { rows: [attachment] };
+      return { rows: [] };
+    });
+
+    await expect(new ListingModel().deleteListing(4)).resolves.toEqual([attachment]);
+    expect(statements()).toEqual([
+      'BEGIN',
+      'SELECT id FROM listings WHERE id = $1 FOR UPDATE',
+      expect.stringContaining('has_trades'),
+      'DELETE FROM listing_attachments WHERE listing_id = $1 RETURNING *',
+      'DELETE FROM listings WHERE id = $1',
+      'COMMIT',
+    ]);
+  });
+});
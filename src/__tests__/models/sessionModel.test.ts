@@ -0,0 +1,44 @@
+jest.mock('../../config/database', () => {
+  const pool = { query: jest.fn() };
+  return { getPool: () => pool };
+});
+
+import { getPool } from '../../config/database';
+import { SessionModel } from '../../models/sessionModel';
+
+const query = getPool().query as jest.Mock;
+
+describe('SessionModel', () => {
+  beforeEach(() => {
+    query.mockReset();
+  });
+
+  describe('rotateRefreshToken', () => {
+    test('should only rotate a live session that still holds the presented token', async () => {
+      const rotated = { id: 31, refresh_token_hash: 'new-hash' };
+      query.mockResolvedValue({ rows: [rotated] });
+      const expiresAt = new Date();
+
+      await expect(new SessionModel().rotateRefreshToken(31, 'old-hash', 'new-hash', expiresAt)).resolves.toBe(rotated);
+
+      const [sql, params] = query.mock.calls[0];
+      expect(sql).toContain('WHERE id = $3 AND refresh_token_hash = $4 AND revoked_at IS NULL');
+      expect(params).toEqual(['new-hash', expiresAt, 31, 'old-hash']);
+    });
+
+    test('should return null when no session was updated', async () => {
+      query.mockResolvedValue({ rows: [] });
+
+      await expect(new SessionModel().rotateRefreshToken(31, 'old-hash', 'new-hash', new Date())).resolves.toBeNull();
+    });
+  });
+
+  describe('revokeAllSessionsForUser', () => {
+    test('should revoke only sessions that are still active and return how many', async () => {
+      query.mockResolvedValue({ rowCount: 2 });
+
+      await expect(new SessionModel().revokeAllSessionsForUser(7)).resolves.toBe(2);
+      expect(query).toHaveBeenCalledWith(expect.stringContaining('revoked_at IS NULL'), [7]);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { ApiKeyService, API_KEY_PREFIX } from '../../services/apiKeyService';
+import { OrganizationService } from '../../services/organizationService';
+import { ApiKeyModel, ApiKey } from '../../models/apiKeyModel';
+import { UserModel, BackendUser } from '../../models/userModel';
+import { hashToken } from '../../utils/tokens';
+
+const user = { id: 7, role: 'miner', two_factor_enabled: false } as BackendUser;
+
+const storedKey = (overrides: Partial<ApiKey> = {}): ApiKey => ({
+  id: 3,
+  user_id: user.id,
+  organization_id: null,
+  name: 'ERP sync',
+  key_prefix: 'mmk_abcdefgh',
+  key_hash: hashToken('mmk_secret'),
+  scopes: ['listings:read'],
+  expires_at: null,
+  last_used_at: null,
+  last_used_ip: null,
+  revoked_at: null,
+  created_at: new Date('2026-10-01T00:00:00Z'),
+  ...overrides,
+});
+
+describe('ApiKeyService', () => {
+  let apiKeyService: ApiKeyService;
+  let getMemberRole: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(UserModel.prototype, 'getUserById').mockResolvedValue(user);
+    getMemberRole = jest.spyOn(OrganizationService.prototype, 'getMemberRole').mockResolvedValue(null);
+    apiKeyService = new ApiKeyService();
+  });
+
+  describe('createApiKey', () => {
+    test('should store only the hash and a display prefix of the key', async () => {
+      const create = jest.spyOn(ApiKeyModel.prototype, 'createApiKey').mockImplementation(async (data) => storedKey({ key_hash: data.keyHash }));
+
+      const { key } = await apiKeyService.createApiKey(user.id, { name: 'ERP sync', scopes: ['listings:read', 'listings:read'] });
+
+      expect(key).toMatch(new RegExp(`^${API_KEY_PREFIX}[0-9a-f]{48}$`));
+      expect(create).toHaveBeenCalledWith(
+        expect.objectContaining({ keyHash: hashToken(key), keyPrefix: key.slice(0, 12), scopes: ['listings:read'] })
+      );
+      expect(JSON.stringify(create.mock.calls[0][0])).not.toContain(key);
+    });
+
+    test('should reject an expiry in the past', async () => {
+      await expect(
+        apiKeyService.createApiKey(user.id, { name: 'Old', scopes: ['listings:read'], expiresAt: new Date(Date.now() - 1000) })
+      ).rejects.toMatchObject({ statusCode: 400 });
+    });
+
+    test('should only let organization owners create organization-scoped keys', async () => {
+      getMemberRole.mockResolvedValue('trader');
+
+      await expect(
+        apiKeyService.createApiKey(user.id, { name: 'Org', scopes: ['offers:write'], organizationId: 12 })
+      ).rejects.toMatchObject({ statusCode: 403 });
+    });
+  });
+
+  describe('authenticateApiKey', () => {
+    let findActive: jest.SpyInstance;
+    let touch: jest.SpyInstance;
+
+    beforeEach(() => {
+      findActive = jest.spyOn(ApiKeyModel.prototype, 'findActiveByHash');
+      touch = jest.spyOn(ApiKeyModel.prototype, 'touchLastUsed').mockResolvedValue();
+    });
+
+    test('should look the key up by its hash and record its use', async () => {
+      findActive.mockResolvedValue(storedKey());
+
+      const result = await apiKeyService.authenticateApiKey('mmk_secret', '203.0.113.9');
+
+      expect(findActive).toHaveBeenCalledWith(hashToken('mmk_secret'));
+      expect(result).toEqual({ apiKey: storedKey(), user });
+      expect(touch).toHaveBeenCalledWith(3, '203.0.113.9');
+    });
+
+    test('should reject keys that are unknown, revoked or expired', async () => {
+      findActive.mockResolvedValue(null);
+
+      await expect(apiKeyService.authenticateApiKey('mmk_revoked')).rejects.toMatchObject({ statusCode: 401 });
+      expect(touch).not.toHaveBeenCalled();
+    });
+
+    test.each(['owner', 'trader'])('should accept an organization-scoped key while its creator is an %s', async (role) => {
+      findActive.mockResolvedValue(storedKey({ organization_id: 12 }));
+      getMemberRole.mockResolvedValue(role);
+
+      await expect(apiKeyService.authenticateApiKey('mmk_secret')).resolves.toMatchObject({ user });
+      expect(getMemberRole).toHaveBeenCalledWith(12, user.id);
+    });
+
+    test.each([['viewer'], [null]])('should reject an organization-scoped key once its creator is %s', async (role) => {
+      findActive.mockResolvedValue(storedKey({ organization_id: 12 }));
+      getMemberRole.mockResolvedValue(role);
+
+      await expect(apiKeyService.authenticateApiKey('mmk_secret')).rejects.toMatchObject({ statusCode: 401 });
+      expect(touch).not.toHaveBeenCalled();
+    });
+  });
+});
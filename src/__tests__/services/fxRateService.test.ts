@@ -0,0 +1,30 @@
+import { parseFxRatesCsv } from '../../services/fxRateService';
+
+describe('parseFxRatesCsv', () => {
+  test('should read the currency and rate columns in any order and case', () => {
+    const csv = 'Rate,source,CURRENCY\r\n0.92,ECB,eur\r\n1,,USD\r\n';
+
+    expect(parseFxRatesCsv(csv)).toEqual([
+      { currency: 'EUR', rate: 0.92 },
+      { currency: 'USD', rate: 1 },
+    ]);
+  });
+
+  test('should reject a file without the required columns', () => {
+    expect(() => parseFxRatesCsv('code,rate\nEUR,0.92')).toThrow('"currency" and "rate" columns');
+  });
+
+  test('should reject a file with no rates', () => {
+    expect(() => parseFxRatesCsv('currency,rate\n')).toThrow('between 1 and 500 rates');
+  });
+
+  test('should list the problems with each line', () => {
+    const csv = 'currency,rate\nEURO,0.92\nGBP,-1\nGBP,0.79\nJPY,\nUSD,1.1\nGBP,0.8';
+
+    expect(() => parseFxRatesCsv(csv)).toThrow(
+      'Invalid exchange rate CSV: line 2: "EURO" is not a three-letter currency code; ' +
+        'line 3: the rate must be a positive number; line 4: GBP appears more than once; ' +
+        'line 5: the rate must be a positive number; line 6: USD is the base currency, so its rate must be 1.'
+    );
+  });
+});
@@ -0,0 +1,72 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { InvitationService } from '../../services/invitationService';
+import { PermissionService } from '../../services/permissionService';
+import { InvitationModel, RegistrationInvitation } from '../../models/invitationModel';
+import { UserModel, BackendUser } from '../../models/userModel';
+import { OrganizationModel, Organization, OrganizationMember } from '../../models/organizationModel';
+import { AuditModel, AuditEvent } from '../../models/auditModel';
+import { ALL_PERMISSIONS } from '../../config/permissions';
+
+// 'recruiter' is a custom role that may invite users; 'support' can change users' roles
+const ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ALL_PERMISSIONS,
+  recruiter: ['invitation.manage', 'offer.create', 'offer.read_own'],
+  buyer: ['offer.create', 'offer.read_own'],
+  miner: ['listing.create', 'listing.update', 'offer.read_received'],
+  support: ['user.read', 'user.manage_roles'],
+};
+
+const recruiter = { id: 3, role: 'recruiter', first_name: 'Rae', last_name: 'Cruz' } as BackendUser;
+const context = { actorId: recruiter.id, ipAddress: '203.0.113.9' };
+
+describe('InvitationService.createInvitation', () => {
+  let createInvitation: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(UserModel.prototype, 'getUserById').mockResolvedValue(recruiter);
+    jest.spyOn(PermissionService.prototype, 'roleExists').mockImplementation(async (role) => role in ROLE_PERMISSIONS);
+    jest
+      .spyOn(PermissionService.prototype, 'getPermissionsForRole')
+      .mockImplementation(async (role) => new Set(ROLE_PERMISSIONS[role] ?? []));
+    createInvitation = jest
+      .spyOn(InvitationModel.prototype, 'createInvitation')
+      .mockImplementation(async (data) => ({ id: 1, role: data.role }) as RegistrationInvitation);
+    jest.spyOn(AuditModel.prototype, 'recordEvent').mockResolvedValue({} as AuditEvent);
+  });
+
+  test('should invite for a role whose permissions the inviter holds', async () => {
+    await expect(new InvitationService().createInvitation(context, { role: 'buyer' })).resolves.toHaveProperty('code');
+    expect(createInvitation).toHaveBeenCalledWith(expect.objectContaining({ role: 'buyer', invitedBy: recruiter.id }));
+  });
+
+  test.each(['admin', 'support'])('should refuse to invite for the administrative role %s', async (role) => {
+    await expect(new InvitationService().createInvitation(context, { role })).rejects.toMatchObject({
+      statusCode: 400,
+      message: 'Roles with administrative permissions cannot be invited; promote an existing user instead.',
+    });
+    expect(createInvitation).not.toHaveBeenCalled();
+  });
+
+  test('should refuse to invite for a role with permissions the inviter lacks', async () => {
+    await expect(new InvitationService().createInvitation(context, { role: 'miner' })).rejects.toMatchObject({
+      statusCode: 403,
+      message: 'You cannot invite users to a role with permissions you do not have: listing.create, listing.update, offer.read_received.',
+    });
+    expect(createInvitation).not.toHaveBeenCalled();
+  });
+
+  test('should still let organization owners invite miners without holding their permissions', async () => {
+    const owner = { id: 5, role: 'buyer', first_name: 'Olu', last_name: 'Ade' } as BackendUser;
+    jest.spyOn(UserModel.prototype, 'getUserById').mockResolvedValue(owner);
+    jest.spyOn(OrganizationModel.prototype, 'getOrganizationById').mockResolvedValue({ id: 12, name: 'Copperbelt Traders' } as Organization);
+    jest.spyOn(OrganizationModel.prototype, 'getMembership').mockResolvedValue({ role: 'owner' } as OrganizationMember);
+
+    await expect(
+      new InvitationService().createInvitation({ actorId: owner.id }, { role: 'miner', organizationId: 12 })
+    ).resolves.toHaveProperty('code');
+  });
+});
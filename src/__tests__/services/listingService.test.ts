@@ -0,0 +1,45 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { ListingService } from '../../services/listingService';
+import { ListingAttachmentService } from '../../services/listingAttachmentService';
+import { ListingModel, BackendListing } from '../../models/listingModel';
+import { ListingAttachment } from '../../models/listingAttachmentModel';
+import { AuditModel, AuditEvent } from '../../models/auditModel';
+
+const context = { actorId: 2, ipAddress: '203.0.113.9' };
+const listing = { id: 4, seller_id: 2, mineral_type: 'Copper', status: 'available' } as BackendListing;
+
+describe('ListingService.deleteListing', () => {
+  let deleteStoredFiles: jest.SpyInstance;
+  let recordEvent: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(ListingModel.prototype, 'getListingById').mockResolvedValue(listing);
+    deleteStoredFiles = jest.spyOn(ListingAttachmentService.prototype, 'deleteStoredFiles').mockResolvedValue();
+    recordEvent = jest.spyOn(AuditModel.prototype, 'recordEvent').mockResolvedValue({} as AuditEvent);
+  });
+
+  test('should refuse to delete a listing that has offers', async () => {
+    jest.spyOn(ListingModel.prototype, 'deleteListing').mockResolvedValue(null);
+
+    await expect(new ListingService().deleteListing(listing.id, context)).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'This listing has offers or transactions; cancel it instead.',
+    });
+    expect(deleteStoredFiles).not.toHaveBeenCalled();
+    expect(recordEvent).not.toHaveBeenCalled();
+  });
+
+  test('should delete the stored files of the attachments it removed', async () => {
+    const attachments = [{ id: 8, listing_id: listing.id }] as ListingAttachment[];
+    jest.spyOn(ListingModel.prototype, 'deleteListing').mockResolvedValue(attachments);
+
+    await new ListingService().deleteListing(listing.id, context);
+
+    expect(deleteStoredFiles).toHaveBeenCalledWith(attachments);
+    expect(recordEvent).toHaveBeenCalledWith(expect.objectContaining({ action: 'listing.deleted', entityId: listing.id }));
+  });
+});
@@ -0,0 +1,49 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import { getLoginDelaySeconds, LoginThrottleService } from '../../services/loginThrottleService';
+import { LoginAttemptModel, LoginAttempt } from '../../models/loginAttemptModel';
+import { UserModel, BackendUser } from '../../models/userModel';
+import { EmailService } from '../../services/emailService';
+
+describe('getLoginDelaySeconds', () => {
+  test('should not delay after the first failed login', () => {
+    expect(getLoginDelaySeconds(0)).toBe(0);
+    expect(getLoginDelaySeconds(1)).toBe(0);
+  });
+
+  test('should double the delay with each further failure', () => {
+    expect(getLoginDelaySeconds(2)).toBe(2);
+    expect(getLoginDelaySeconds(3)).toBe(4);
+    expect(getLoginDelaySeconds(4)).toBe(8);
+  });
+
+  test('should cap the delay at one minute', () => {
+    expect(getLoginDelaySeconds(7)).toBe(60);
+    expect(getLoginDelaySeconds(50)).toBe(60);
+  });
+});
+
+describe('LoginThrottleService.recordFailedLogin', () => {
+  const lockedAttempt = { email: 'jane@example.com', failed_count: 5, locked_until: null } as unknown as LoginAttempt;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(LoginAttemptModel.prototype, 'recordFailure').mockResolvedValue(lockedAttempt);
+    jest.spyOn(LoginAttemptModel.prototype, 'lock').mockResolvedValue();
+  });
+
+  test('should lock the normalized email and notify the account however the email was typed', async () => {
+    const getUserByEmailIgnoringCase = jest
+      .spyOn(UserModel.prototype, 'getUserByEmailIgnoringCase')
+      .mockResolvedValue({ id: 3, email: 'Jane@Example.com', first_name: 'Jane' } as BackendUser);
+    const sendAccountLockedEmail = jest.spyOn(EmailService.prototype, 'sendAccountLockedEmail').mockResolvedValue();
+
+    const attempt = await new LoginThrottleService().recordFailedLogin('JANE@example.COM');
+
+    expect(LoginAttemptModel.prototype.lock).toHaveBeenCalledWith('jane@example.com', expect.any(Date));
+    expect(getUserByEmailIgnoringCase).toHaveBeenCalledWith('JANE@example.COM');
+    expect(sendAccountLockedEmail).toHaveBeenCalledWith('Jane@Example.com', 'Jane', attempt.locked_until);
+  });
+});
@@ -0,0 +1,54 @@
+import { parseMigrationFiles, compareVersions } from '../../services/migrationService';
+
+describe('parseMigrationFiles', () => {
+  test('should pair up and down files and order them by version', () => {
+    const migrations = parseMigrationFiles([
+      '20261019120000_unify_listings.up.sql',
+      '20261001000000_baseline.down.sql',
+      '20261019120000_unify_listings.down.sql',
+      '20261001000000_baseline.up.sql',
+    ]);
+
+    expect(migrations).toEqual([
+      {
+        version: '20261001000000',
+        name: 'baseline',
+        upFile: '20261001000000_baseline.up.sql',
+        downFile: '20261001000000_baseline.down.sql',
+      },
+      {
+        version: '20261019120000',
+        name: 'unify_listings',
+        upFile: '20261019120000_unify_listings.up.sql',
+        downFile: '20261019120000_unify_listings.down.sql',
+      },
+    ]);
+  });
+
+  test('should allow a migration without a down file', () => {
+    const [migration] = parseMigrationFiles(['1_create_things.up.sql']);
+    expect(migration.downFile).toBeNull();
+  });
+
+  test('should ignore files that are not migrations', () => {
+    expect(parseMigrationFiles(['README.md', 'notes.sql', '1_create_things.up.sql'])).toHaveLength(1);
+  });
+
+  test('should reject a down file without an up file', () => {
+    expect(() => parseMigrationFiles(['1_create_things.down.sql'])).toThrow('no up file');
+  });
+
+  test('should reject two migrations with the same version', () => {
+    expect(() => parseMigrationFiles(['1_create_things.up.sql', '1_create_others.up.sql'])).toThrow(
+      'is used by both'
+    );
+  });
+});
+
+describe('compareVersions', () => {
+  test('should compare versions numerically', () => {
+    expect(compareVersions('9', '10')).toBeLessThan(0);
+    expect(compareVersions('20261019120000', '20261001000000')).toBeGreaterThan(0);
+    expect(compareVersions('42', '42')).toBe(0);
+  });
+});
@@ -0,0 +1,102 @@
+import { buildSeedData, createRandom, SEED_NOW } from '../../services/seedService';
+import { validateMineralSpecification, SpecificationRules } from '../../validation/mineralSpecificationValidation';
+import { findUnit } from '../../utils/units';
+
+const now = new Date('2026-10-19T12:00:00Z');
+
+// The seeded minerals' commodities, as in migrations/20261019160000_commodity_catalogue
+const ALL_FIELDS: SpecificationRules['specification_fields'] = [
+  'grade',
+  'purity_percent',
+  'moisture_percent',
+  'impurities_ppm',
+  'particle_size_mm',
+];
+const COMMODITIES: Record<string, SpecificationRules> = {
+  Gold: { allowed_forms: ['ore', 'concentrate', 'dore', 'bullion', 'other'], grade_unit: 'g/t', specification_fields: ALL_FIELDS },
+  Copper: { allowed_forms: ['ore', 'concentrate', 'cathode', 'chemical', 'other'], grade_unit: '%', specification_fields: ALL_FIELDS },
+  Cobalt: { allowed_forms: ['ore', 'concentrate', 'cathode', 'chemical', 'other'], grade_unit: '%', specification_fields: ALL_FIELDS },
+  Lithium: { allowed_forms: ['ore', 'concentrate', 'chemical', 'other'], grade_unit: '%', specification_fields: ALL_FIELDS },
+};
+
+describe('createRandom', () => {
+  test('should repeat the same sequence for the same seed', () => {
+    const first = createRandom(42);
+    const second = createRandom(42);
+    const sequence = Array.from({ length: 5 }, () => first());
+
+    expect(Array.from({ length: 5 }, () => second())).toEqual(sequence);
+    sequence.forEach((value) => {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    });
+  });
+});
+
+describe('buildSeedData', () => {
+  test('should produce identical data for the same scale and seed', () => {
+    expect(buildSeedData(2, 7, now)).toEqual(buildSeedData(2, 7, now));
+  });
+
+  test('should date everything relative to a fixed day rather than the clock by default', () => {
+    const data = buildSeedData(1, 1);
+
+    expect(data).toEqual(buildSeedData(1, 1, SEED_NOW));
+    expect(data).not.toEqual(buildSeedData(1, 1, now));
+  });
+
+  test('should grow everything but the admins with the scale', () => {
+    const small = buildSeedData(1, 1, now);
+    const large = buildSeedData(10, 1, now);
+    const countRole = (data: typeof small, role: string) => data.users.filter((user) => user.role === role).length;
+
+    expect(countRole(small, 'admin')).toBe(2);
+    expect(countRole(large, 'admin')).toBe(2);
+    expect(countRole(large, 'buyer')).toBe(countRole(small, 'buyer') * 10);
+    expect(countRole(large, 'miner')).toBe(countRole(small, 'miner') * 10);
+    expect(large.listings).toHaveLength(small.listings.length * 10);
+  });
+
+  test('should give every user a unique email', () => {
+    const { users } = buildSeedData(3, 1, now);
+    expect(new Set(users.map((user) => user.email)).size).toBe(users.length);
+  });
+
+  test('should cover every offer and transaction status', () => {
+    const { offers, transactions } = buildSeedData(1, 1, now);
+
+    expect(new Set(offers.map((offer) => offer.status))).toEqual(
+      new Set(['pending', 'accepted', 'rejected', 'expired', 'completed'])
+    );
+    expect(new Set(transactions.map((transaction) => transaction.status))).toEqual(
+      new Set(['pending', 'completed', 'failed', 'refunded'])
+    );
+  });
+
+  test('should link listings to miners, offers to buyers and transactions to accepted or completed offers', () => {
+    const { users, listings, offers, transactions } = buildSeedData(1, 1, now);
+
+    listings.forEach((listing) => expect(users[listing.sellerIndex].role).toBe('miner'));
+    offers.forEach((offer) => {
+      expect(users[offer.buyerIndex].role).toBe('buyer');
+      expect(offer.currency).toBe(listings[offer.listingIndex].currency);
+    });
+    transactions.forEach((transaction) =>
+      expect(['accepted', 'completed']).toContain(offers[transaction.offerIndex].status)
+    );
+  });
+
+  test('should give every listing a valid specification for its mineral', () => {
+    const { listings } = buildSeedData(1, 1, now);
+    listings.forEach((listing) => {
+      const { error, value } = validateMineralSpecification(COMMODITIES[listing.mineralType], listing.specifications);
+      expect(error).toBeUndefined();
+      expect(value).toEqual(listing.specifications);
+    });
+  });
+
+  test('should list every listing in a known unit by its symbol', () => {
+    const { listings } = buildSeedData(1, 1, now);
+    listings.forEach((listing) => expect(findUnit(listing.unit)?.symbol).toBe(listing.unit));
+  });
+});
@@ -0,0 +1,44 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { LocalFileStorage } from '../../services/storageService';
+
+const readAll = async (stream: NodeJS.ReadableStream): Promise<string> => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks).toString('utf8');
+};
+
+describe('LocalFileStorage', () => {
+  let root: string;
+  let storage: LocalFileStorage;
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'storage-test-'));
+    storage = new LocalFileStorage(root);
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('should store, read and delete a file', async () => {
+    await storage.put('listings/1/photo.jpg', Buffer.from('contents'), 'image/jpeg');
+    expect(await readAll(await storage.read('listings/1/photo.jpg'))).toBe('contents');
+
+    await storage.delete('listings/1/photo.jpg');
+    await expect(storage.read('listings/1/photo.jpg')).rejects.toThrow('File not found.');
+  });
+
+  test('should ignore deleting a file that does not exist', async () => {
+    await expect(storage.delete('listings/1/missing.pdf')).resolves.toBeUndefined();
+  });
+
+  test('should refuse keys outside the storage directory', async () => {
+    await expect(storage.put('../escape.txt', Buffer.from('x'), 'text/plain')).rejects.toThrow('Invalid storage key');
+    await expect(storage.read('/etc/passwd')).rejects.toThrow('Invalid storage key');
+    expect(fs.existsSync(path.join(root, '..', 'escape.txt'))).toBe(false);
+  });
+});
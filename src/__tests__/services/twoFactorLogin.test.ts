@@ -0,0 +1,198 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import bcrypt from 'bcryptjs';
+import { UserService } from '../../services/userService';
+import { TwoFactorService } from '../../services/twoFactorService';
+import { LoginThrottleService } from '../../services/loginThrottleService';
+import { UserModel, BackendUser } from '../../models/userModel';
+import { SessionModel, UserSession } from '../../models/sessionModel';
+import { TwoFactorChallengeModel, TwoFactorChallenge } from '../../models/twoFactorChallengeModel';
+import { PermissionModel } from '../../models/permissionModel';
+import { generateTotp, generateTotpSecret } from '../../utils/totp';
+
+const PASSWORD = 'correct horse battery staple';
+const SECRET = generateTotpSecret();
+const NOW = Date.now();
+const CURRENT_STEP = Math.floor(NOW / 30000);
+
+const user = {
+  id: 7,
+  email: 'miner@example.com',
+  role: 'miner',
+  token_version: 0,
+  password_hash: bcrypt.hashSync(PASSWORD, 4),
+  two_factor_enabled: true,
+  two_factor_secret: SECRET,
+  two_factor_last_step: null,
+} as BackendUser;
+
+describe('Two-factor login', () => {
+  let userService: UserService;
+  let challenges: Map<string, TwoFactorChallenge>;
+  let recordFailedLogin: jest.SpyInstance;
+  let clearFailedLogins: jest.SpyInstance;
+  let recordStep: jest.SpyInstance;
+
+  // Logs in with the password and returns the challenge token
+  const startLogin = async (): Promise<string> => {
+    const result = await userService.loginUser(user.email, PASSWORD);
+    if (!('challengeToken' in result)) {
+      throw new Error('Expected a two-factor challenge');
+    }
+    return result.challengeToken;
+  };
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    // Pinned so a code and the step it is expected to record fall in the same 30 seconds
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    challenges = new Map();
+
+    // Stand-ins for two_factor_challenges that keep the model's single-use semantics
+    jest.spyOn(TwoFactorChallengeModel.prototype, 'createChallenge').mockImplementation(async ({ id, userId, purpose, expiresAt }) => {
+      const challenge = { id, user_id: userId, purpose, attempt_count: 0, expires_at: expiresAt, consumed_at: null, created_at: new Date() };
+      challenges.set(id, challenge);
+      return challenge;
+    });
+    jest.spyOn(TwoFactorChallengeModel.prototype, 'getActiveChallenge').mockImplementation(async (id) => {
+      const challenge = challenges.get(id);
+      return challenge && !challenge.consumed_at ? { ...challenge } : null;
+    });
+    jest.spyOn(TwoFactorChallengeModel.prototype, 'claimAttempt').mockImplementation(async (id, maxAttempts) => {
+      const challenge = challenges.get(id);
+      if (!challenge || challenge.consumed_at || challenge.attempt_count >= maxAttempts) {
+        return null;
+      }
+      challenge.attempt_count++;
+      return { ...challenge };
+    });
+    jest.spyOn(TwoFactorChallengeModel.prototype, 'consumeChallenge').mockImplementation(async (id) => {
+      const challenge = challenges.get(id);
+      if (!challenge || challenge.consumed_at) {
+        return false;
+      }
+      challenge.consumed_at = new Date();
+      return true;
+    });
+
+    jest.spyOn(UserModel.prototype, 'getUserByEmail').mockResolvedValue(user);
+    jest.spyOn(UserModel.prototype, 'getUserById').mockResolvedValue(user);
+    recordStep = jest.spyOn(UserModel.prototype, 'recordTwoFactorStep').mockResolvedValue(true);
+    jest.spyOn(UserModel.prototype, 'consumeRecoveryCode').mockResolvedValue(false);
+    jest.spyOn(SessionModel.prototype, 'createSession').mockResolvedValue({ id: 31 } as UserSession);
+    jest.spyOn(LoginThrottleService.prototype, 'assertLoginAllowed').mockResolvedValue();
+    // Built-in roles keep their defaults; 'compliance_officer' is a custom role that may impersonate users
+    jest.spyOn(PermissionModel.prototype, 'getPermissionsForRole').mockImplementation(async (role) =>
+      role === 'compliance_officer' ? ['listing.read_own', 'user.impersonate'] : null
+    );
+    recordFailedLogin = jest.spyOn(LoginThrottleService.prototype, 'recordFailedLogin').mockResolvedValue({} as never);
+    clearFailedLogins = jest.spyOn(LoginThrottleService.prototype, 'clearFailedLogins').mockResolvedValue(true);
+
+    userService = new UserService();
+  });
+
+  test('should log in with a valid code and revoke the challenge', async () => {
+    const challengeToken = await startLogin();
+
+    const result = await userService.completeTwoFactorLogin(challengeToken, generateTotp(SECRET));
+
+    expect(result.token).toEqual(expect.any(String));
+    expect(recordStep).toHaveBeenCalledWith(user.id, CURRENT_STEP);
+    await expect(userService.completeTwoFactorLogin(challengeToken, generateTotp(SECRET))).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Invalid or expired two-factor challenge.',
+    });
+  });
+
+  test('should count wrong codes as failed logins', async () => {
+    const challengeToken = await startLogin();
+
+    await expect(userService.completeTwoFactorLogin(challengeToken, 'not-a-code')).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Invalid two-factor authentication code.',
+    });
+    expect(recordFailedLogin).toHaveBeenCalledWith(user.email);
+  });
+
+  test('should only clear failed logins once the second step succeeds', async () => {
+    const challengeToken = await startLogin();
+    expect(clearFailedLogins).not.toHaveBeenCalled();
+
+    await userService.completeTwoFactorLogin(challengeToken, generateTotp(SECRET));
+    expect(clearFailedLogins).toHaveBeenCalledWith(user.email);
+  });
+
+  test('should clear failed logins straight away when no second step is needed', async () => {
+    jest.spyOn(UserModel.prototype, 'getUserByEmail').mockResolvedValue({ ...user, two_factor_enabled: false });
+
+    await expect(userService.loginUser(user.email, PASSWORD)).resolves.toHaveProperty('token');
+    expect(clearFailedLogins).toHaveBeenCalledWith(user.email);
+  });
+
+  test('should require enrolment for any role holding a privileged permission', async () => {
+    jest.spyOn(UserModel.prototype, 'getUserByEmail').mockResolvedValue({ ...user, role: 'compliance_officer', two_factor_enabled: false });
+
+    await expect(userService.loginUser(user.email, PASSWORD)).resolves.toMatchObject({ challenge: 'two_factor_setup_required' });
+    expect(clearFailedLogins).not.toHaveBeenCalled();
+  });
+
+  test('should not let a privileged role turn two-factor authentication off', async () => {
+    jest.spyOn(UserModel.prototype, 'getUserById').mockResolvedValue({ ...user, role: 'compliance_officer' });
+
+    await expect(new TwoFactorService().disable(user.id, generateTotp(SECRET))).rejects.toMatchObject({ statusCode: 403 });
+  });
+
+  test('should revoke the challenge after five wrong codes', async () => {
+    const challengeToken = await startLogin();
+
+    for (let i = 0; i < 4; i++) {
+      await expect(userService.completeTwoFactorLogin(challengeToken, 'not-a-code')).rejects.toMatchObject({
+        message: 'Invalid two-factor authentication code.',
+      });
+    }
+    await expect(userService.completeTwoFactorLogin(challengeToken, 'not-a-code')).rejects.toMatchObject({
+      message: 'Too many invalid two-factor authentication codes. Please log in again.',
+    });
+    await expect(userService.completeTwoFactorLogin(challengeToken, generateTotp(SECRET))).rejects.toMatchObject({
+      message: 'Invalid or expired two-factor challenge.',
+    });
+    expect(recordFailedLogin).toHaveBeenCalledTimes(5);
+  });
+
+  test('should not check codes while the account is throttled', async () => {
+    const challengeToken = await startLogin();
+    const verifyCode = jest.spyOn(TwoFactorService.prototype, 'verifyCode');
+    jest.spyOn(LoginThrottleService.prototype, 'assertLoginAllowed').mockRejectedValue(new Error('Too many failed login attempts.'));
+
+    await expect(userService.completeTwoFactorLogin(challengeToken, generateTotp(SECRET))).rejects.toThrow(
+      'Too many failed login attempts.'
+    );
+    expect(verifyCode).not.toHaveBeenCalled();
+  });
+
+  test('should reject a code from a time step that was already used', async () => {
+    const usedStep = CURRENT_STEP + 1;
+    const twoFactorService = new TwoFactorService();
+
+    await expect(twoFactorService.verifyCode({ ...user, two_factor_last_step: usedStep }, generateTotp(SECRET))).resolves.toBe(false);
+    expect(recordStep).not.toHaveBeenCalled();
+  });
+
+  test('should reject a code another request accepted first', async () => {
+    recordStep.mockResolvedValue(false);
+
+    await expect(new TwoFactorService().verifyCode(user, generateTotp(SECRET))).resolves.toBe(false);
+  });
+
+  test('should reject tokens whose challenge is not stored', async () => {
+    const challengeToken = await startLogin();
+    challenges.clear();
+
+    await expect(userService.completeTwoFactorLogin(challengeToken, generateTotp(SECRET))).rejects.toMatchObject({
+      statusCode: 401,
+      message: 'Invalid or expired two-factor challenge.',
+    });
+  });
+});
@@ -0,0 +1,131 @@
+jest.mock('../../config/database', () => ({
+  getPool: jest.fn(() => ({ query: jest.fn() })),
+}));
+
+import jwt from 'jsonwebtoken';
+import { UserService } from '../../services/userService';
+import { SessionModel, UserSession } from '../../models/sessionModel';
+import { UserModel, BackendUser } from '../../models/userModel';
+import { LoginThrottleService } from '../../services/loginThrottleService';
+import { hashToken } from '../../utils/tokens';
+
+const user = { id: 7, role: 'buyer', token_version: 2 } as BackendUser;
+
+const session = (overrides: Partial<UserSession> = {}): UserSession => ({
+  id: 31,
+  user_id: user.id,
+  refresh_token_hash: hashToken('current-token'),
+  previous_refresh_token_hash: hashToken('rotated-token'),
+  user_agent: null,
+  ip_address: null,
+  expires_at: new Date(Date.now() + 60 * 60 * 1000),
+  revoked_at: null,
+  last_used_at: new Date(),
+  created_at: new Date(),
+  ...overrides,
+});
+
+describe('UserService sessions', () => {
+  let userService: UserService;
+  let findSession: jest.SpyInstance;
+  let rotate: jest.SpyInstance;
+  let revoke: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    findSession = jest.spyOn(SessionModel.prototype, 'findByRefreshTokenHash');
+    rotate = jest.spyOn(SessionModel.prototype, 'rotateRefreshToken');
+    revoke = jest.spyOn(SessionModel.prototype, 'revokeSession').mockResolvedValue();
+    jest.spyOn(UserModel.prototype, 'getUserById').mockResolvedValue(user);
+    userService = new UserService();
+  });
+
+  describe('refreshSession', () => {
+    test('should rotate the refresh token and sign an access token for the session', async () => {
+      findSession.mockResolvedValue(session());
+      rotate.mockResolvedValue(session());
+
+      const tokens = await userService.refreshSession('current-token');
+
+      expect(findSession).toHaveBeenCalledWith(hashToken('current-token'));
+      expect(rotate).toHaveBeenCalledWith(31, hashToken('current-token'), hashToken(tokens.refreshToken), expect.any(Date));
+      expect(tokens.refreshToken).not.toBe('current-token');
+      expect(jwt.decode(tokens.token)).toMatchObject({ id: 7, role: 'buyer', tv: 2, sid: 31 });
+      expect(revoke).not.toHaveBeenCalled();
+    });
+
+    test('should revoke the session when an already rotated token is presented', async () => {
+      findSession.mockResolvedValue(session());
+
+      await expect(userService.refreshSession('rotated-token')).rejects.toMatchObject({ statusCode: 401 });
+      expect(revoke).toHaveBeenCalledWith(31);
+      expect(rotate).not.toHaveBeenCalled();
+    });
+
+    test('should revoke the session when a concurrent refresh rotated the token first', async () => {
+      findSession.mockResolvedValue(session());
+      rotate.mockResolvedValue(null);
+
+      await expect(userService.refreshSession('current-token')).rejects.toMatchObject({ statusCode: 401 });
+      expect(revoke).toHaveBeenCalledWith(31);
+    });
+
+    test('should reject revoked, expired and unknown sessions without rotating', async () => {
+      findSession.mockResolvedValueOnce(session({ revoked_at: new Date() }));
+      findSession.mockResolvedValueOnce(session({ expires_at: new Date(Date.now() - 1000) }));
+      findSession.mockResolvedValueOnce(null);
+
+      for (let i = 0; i < 3; i++) {
+        await expect(userService.refreshSession('current-token')).rejects.toMatchObject({ statusCode: 401 });
+      }
+      expect(rotate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('logout', () => {
+    test('should revoke the current session only', async () => {
+      await userService.logout(31);
+
+      expect(revoke).toHaveBeenCalledWith(31);
+    });
+
+    test('should revoke every session of the user when logging out of all devices', async () => {
+      const revokeAll = jest.spyOn(SessionModel.prototype, 'revokeAllSessionsForUser').mockResolvedValue(3);
+
+      await expect(userService.logoutAllDevices(7)).resolves.toBe(3);
+      expect(revokeAll).toHaveBeenCalledWith(7);
+    });
+  });
+
+  describe('resetPassword', () => {
+    let resetPassword: jest.SpyInstance;
+    let revokeAll: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.spyOn(UserModel.prototype, 'findByResetToken').mockResolvedValue(user);
+      resetPassword = jest.spyOn(UserModel.prototype, 'resetPassword');
+      revokeAll = jest.spyOn(SessionModel.prototype, 'revokeAllSessionsForUser').mockResolvedValue(2);
+      jest.spyOn(LoginThrottleService.prototype, 'clearFailedLogins').mockResolvedValue(true);
+    });
+
+    test('should consume the token with the new password and revoke every session', async () => {
+      resetPassword.mockResolvedValue(user);
+
+      await userService.resetPassword('reset-token', 'N3w-password!');
+
+      expect(resetPassword).toHaveBeenCalledWith(user.id, hashToken('reset-token'), expect.any(String));
+      expect(revokeAll).toHaveBeenCalledWith(user.id);
+    });
+
+    test('should reject a token that a concurrent reset used first', async () => {
+      resetPassword.mockResolvedValue(null);
+
+      await expect(userService.resetPassword('reset-token', 'N3w-password!')).rejects.toMatchObject({
+        statusCode: 400,
+        message: 'Invalid or expired password reset token.',
+      });
+      expect(revokeAll).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,79 @@
+import { parseCsv, toCsv, toCsvField } from '../../utils/csv';
+
+describe('CSV utilities', () => {
+  describe('toCsvField', () => {
+    test('should leave plain values unquoted', () => {
+      expect(toCsvField('listing.deleted')).toBe('listing.deleted');
+      expect(toCsvField(42)).toBe('42');
+    });
+
+    test('should write null and undefined as empty fields', () => {
+      expect(toCsvField(null)).toBe('');
+      expect(toCsvField(undefined)).toBe('');
+    });
+
+    test('should quote fields containing commas, quotes or newlines', () => {
+      expect(toCsvField('a,b')).toBe('"a,b"');
+      expect(toCsvField('say "hi"')).toBe('"say ""hi"""');
+      expect(toCsvField('line1\nline2')).toBe('"line1\nline2"');
+    });
+
+    test('should neutralise spreadsheet formulas', () => {
+      expect(toCsvField('=HYPERLINK("http://evil")')).toBe('"\'=HYPERLINK(""http://evil"")"');
+      expect(toCsvField('-1')).toBe("'-1");
+      expect(toCsvField('@SUM(A1)')).toBe("'@SUM(A1)");
+    });
+
+    test('should not alter negative numbers', () => {
+      expect(toCsvField(-1)).toBe('-1');
+    });
+
+    test('should format dates as ISO strings and objects as JSON', () => {
+      expect(toCsvField(new Date('2024-01-02T03:04:05.000Z'))).toBe('2024-01-02T03:04:05.000Z');
+      expect(toCsvField({ status: 'accepted' })).toBe('"{""status"":""accepted""}"');
+    });
+  });
+
+  describe('toCsv', () => {
+    test('should write a header row followed by one line per row', () => {
+      const csv = toCsv(
+        [
+          { header: 'id', value: (row: { id: number; action: string }) => row.id },
+          { header: 'action', value: (row: { id: number; action: string }) => row.action },
+        ],
+        [
+          { id: 1, action: 'user.role_changed' },
+          { id: 2, action: 'offer.status_changed' },
+        ]
+      );
+
+      expect(csv).toBe('id,action\r\n1,user.role_changed\r\n2,offer.status_changed\r\n');
+    });
+  });
+
+  describe('parseCsv', () => {
+    test('should split rows and fields with either line ending', () => {
+      expect(parseCsv('currency,rate\r\nEUR,0.92\nGBP,0.79')).toEqual([
+        ['currency', 'rate'],
+        ['EUR', '0.92'],
+        ['GBP', '0.79'],
+      ]);
+    });
+
+    test('should unquote fields with commas, quotes and newlines', () => {
+      expect(parseCsv('"a,b","say ""hi""","line1\nline2"\r\n')).toEqual([['a,b', 'say "hi"', 'line1\nline2']]);
+    });
+
+    test('should skip blank lines and a byte order mark, and keep empty fields', () => {
+      expect(parseCsv('\uFEFFid,name\r\n\r\n1,\r\n')).toEqual([
+        ['id', 'name'],
+        ['1', ''],
+      ]);
+    });
+
+    test('should read what toCsv writes', () => {
+      const csv = toCsv([{ header: 'note', value: (row: { note: string }) => row.note }], [{ note: 'a "quoted", text' }]);
+      expect(parseCsv(csv)).toEqual([['note'], ['a "quoted", text']]);
+    });
+  });
+});
@@ -0,0 +1,27 @@
+import { convertCurrency } from '../../utils/currency';
+
+const rates = new Map([
+  ['USD', 1],
+  ['EUR', 0.92],
+  ['GBP', 0.79],
+]);
+
+describe('convertCurrency', () => {
+  test('should convert from and to the base currency', () => {
+    expect(convertCurrency(100, 'USD', 'EUR', rates)).toBe(92);
+    expect(convertCurrency(92, 'EUR', 'USD', rates)).toBe(100);
+  });
+
+  test('should convert between two other currencies through the base currency', () => {
+    expect(convertCurrency(92, 'EUR', 'GBP', rates)).toBe(79);
+  });
+
+  test('should leave amounts in the same currency alone, even without a rate', () => {
+    expect(convertCurrency(12.5, 'ZAR', 'ZAR', rates)).toBe(12.5);
+  });
+
+  test('should return null when a currency has no rate', () => {
+    expect(convertCurrency(10, 'ZAR', 'USD', rates)).toBeNull();
+    expect(convertCurrency(10, 'USD', 'ZAR', rates)).toBeNull();
+  });
+});
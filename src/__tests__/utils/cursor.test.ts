@@ -0,0 +1,88 @@
+import { cursorQuery, decodeCursor, encodeCursor, toCursorPage } from '../../utils/cursor';
+
+const row = (id: number) => ({ id, cursor_created_at: `2026-10-19T12:00:00.${String(id).padStart(6, '0')}Z` });
+
+describe('encodeCursor and decodeCursor', () => {
+  test('should round-trip a cursor', () => {
+    const cursor = encodeCursor('listings', row(42), 'next');
+    expect(decodeCursor('listings', cursor)).toEqual({
+      createdAt: '2026-10-19T12:00:00.000042Z',
+      id: 42,
+      direction: 'next',
+    });
+  });
+
+  test('should reject a cursor from another feed', () => {
+    const cursor = encodeCursor('offers.buyer', row(1), 'next');
+    expect(() => decodeCursor('transactions', cursor)).toThrow('Invalid cursor.');
+  });
+
+  test('should reject a tampered cursor', () => {
+    const [, signature] = encodeCursor('listings', row(1), 'next').split('.');
+    const forged = Buffer.from(
+      JSON.stringify({ f: 'listings', t: '2026-10-19T12:00:00.000001Z', i: 999, d: 'next' })
+    ).toString('base64url');
+    expect(() => decodeCursor('listings', `${forged}.${signature}`)).toThrow('Invalid cursor.');
+  });
+
+  test('should reject malformed cursors', () => {
+    expect(() => decodeCursor('listings', 'not-a-cursor')).toThrow('Invalid cursor.');
+    expect(() => decodeCursor('listings', '')).toThrow('Invalid cursor.');
+  });
+});
+
+describe('cursorQuery', () => {
+  test('should read newest first without a condition on the first page', () => {
+    expect(cursorQuery(null, 'l.created_at', 'l.id', 1)).toEqual({
+      condition: null,
+      values: [],
+      orderBy: 'l.created_at DESC, l.id DESC',
+    });
+  });
+
+  test('should read older rows after a next cursor', () => {
+    const query = cursorQuery({ createdAt: 'T', id: 5, direction: 'next' }, 'l.created_at', 'l.id', 3);
+    expect(query.condition).toBe('(l.created_at, l.id) < ($3::timestamptz, $4)');
+    expect(query.values).toEqual(['T', 5]);
+    expect(query.orderBy).toBe('l.created_at DESC, l.id DESC');
+  });
+
+  test('should read newer rows oldest first before a prev cursor', () => {
+    const query = cursorQuery({ createdAt: 'T', id: 5, direction: 'prev' }, 'mo.created_at', 'mo.id', 1);
+    expect(query.condition).toBe('(mo.created_at, mo.id) > ($1::timestamptz, $2)');
+    expect(query.orderBy).toBe('mo.created_at ASC, mo.id ASC');
+  });
+});
+
+describe('toCursorPage', () => {
+  test('should give the first page a next cursor only when more rows exist', () => {
+    const page = toCursorPage('listings', [row(5), row(4), row(3)], 2, null);
+    expect(page.data).toEqual([{ id: 5 }, { id: 4 }]);
+    expect(page.prev).toBeNull();
+    expect(decodeCursor('listings', page.next!)).toMatchObject({ id: 4, direction: 'next' });
+
+    expect(toCursorPage('listings', [row(5), row(4)], 2, null).next).toBeNull();
+  });
+
+  test('should give a later page a prev cursor pointing at its first row', () => {
+    const cursor = decodeCursor('listings', encodeCursor('listings', row(4), 'next'));
+    const page = toCursorPage('listings', [row(3), row(2)], 2, cursor);
+    expect(page.next).toBeNull();
+    expect(decodeCursor('listings', page.prev!)).toMatchObject({ id: 3, direction: 'prev' });
+  });
+
+  test('should put rows fetched backwards back in newest-first order', () => {
+    const cursor = decodeCursor('listings', encodeCursor('listings', row(3), 'prev'));
+    const page = toCursorPage('listings', [row(4), row(5), row(6)], 2, cursor);
+    expect(page.data).toEqual([{ id: 5 }, { id: 4 }]);
+    expect(decodeCursor('listings', page.prev!)).toMatchObject({ id: 5, direction: 'prev' });
+    expect(decodeCursor('listings', page.next!)).toMatchObject({ id: 4, direction: 'next' });
+  });
+
+  test('should stop paging backwards at the newest row', () => {
+    const cursor = decodeCursor('listings', encodeCursor('listings', row(3), 'prev'));
+    const page = toCursorPage('listings', [row(4)], 2, cursor);
+    expect(page.prev).toBeNull();
+    expect(page.next).not.toBeNull();
+  });
+});
@@ -0,0 +1,26 @@
+import { sniffFileType } from '../../utils/fileType';
+
+describe('sniffFileType', () => {
+  test('should detect JPEG, PNG, WebP and PDF files from their contents', () => {
+    expect(sniffFileType(Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00]))).toEqual({ mimeType: 'image/jpeg', extension: 'jpg' });
+    expect(sniffFileType(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00]))).toEqual({
+      mimeType: 'image/png',
+      extension: 'png',
+    });
+    expect(sniffFileType(Buffer.from('RIFF\x24\x00\x00\x00WEBPVP8 ', 'latin1'))).toEqual({
+      mimeType: 'image/webp',
+      extension: 'webp',
+    });
+    expect(sniffFileType(Buffer.from('%PDF-1.7\n'))).toEqual({ mimeType: 'application/pdf', extension: 'pdf' });
+  });
+
+  test('should not recognise other RIFF files as WebP', () => {
+    expect(sniffFileType(Buffer.from('RIFF\x24\x00\x00\x00WAVEfmt ', 'latin1'))).toBeNull();
+  });
+
+  test('should return null for unknown, empty or truncated files', () => {
+    expect(sniffFileType(Buffer.from('<html><script>alert(1)</script>'))).toBeNull();
+    expect(sniffFileType(Buffer.alloc(0))).toBeNull();
+    expect(sniffFileType(Buffer.from([0x89, 0x50, 0x4e]))).toBeNull();
+  });
+});
@@ -0,0 +1,106 @@
+import {
+  base32Encode,
+  base32Decode,
+  generateTotp,
+  generateTotpSecret,
+  findTotpStep,
+  verifyTotp,
+  buildOtpauthUri,
+} from '../../utils/totp';
+
+// RFC 6238 Appendix B test secret ("12345678901234567890") in base32
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('TOTP utilities', () => {
+  describe('base32', () => {
+    test('should round-trip arbitrary bytes', () => {
+      const bytes = Buffer.from('12345678901234567890');
+
+      expect(base32Encode(bytes)).toBe(RFC_SECRET);
+      expect(base32Decode(RFC_SECRET).toString()).toBe('12345678901234567890');
+    });
+
+    test('should ignore case, spaces and padding when decoding', () => {
+      expect(base32Decode('gezd gnbv==').toString('hex')).toBe(base32Decode('GEZDGNBV').toString('hex'));
+    });
+
+    test('should reject invalid characters', () => {
+      expect(() => base32Decode('GEZD1')).toThrow('Invalid base32 character: 1');
+    });
+  });
+
+  describe('generateTotp', () => {
+    test.each([
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ])('should match the RFC 6238 vector at T=%i', (seconds, expected) => {
+      expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(expected);
+    });
+  });
+
+  describe('verifyTotp', () => {
+    const now = 1111111109 * 1000;
+
+    test('should accept the current code', () => {
+      expect(verifyTotp(RFC_SECRET, '081804', 1, now)).toBe(true);
+    });
+
+    test('should accept codes from adjacent time steps within the window', () => {
+      const previous = generateTotp(RFC_SECRET, now - 30 * 1000);
+      const next = generateTotp(RFC_SECRET, now + 30 * 1000);
+
+      expect(verifyTotp(RFC_SECRET, previous, 1, now)).toBe(true);
+      expect(verifyTotp(RFC_SECRET, next, 1, now)).toBe(true);
+    });
+
+    test('should reject codes outside the window', () => {
+      const old = generateTotp(RFC_SECRET, now - 90 * 1000);
+
+      expect(verifyTotp(RFC_SECRET, old, 1, now)).toBe(false);
+    });
+
+    test('should reject malformed codes', () => {
+      expect(verifyTotp(RFC_SECRET, '12345', 1, now)).toBe(false);
+      expect(verifyTotp(RFC_SECRET, 'abcdef', 1, now)).toBe(false);
+    });
+  });
+
+  describe('findTotpStep', () => {
+    const now = 1111111109 * 1000;
+    const currentStep = Math.floor(1111111109 / 30);
+
+    test('should return the time step the code belongs to', () => {
+      expect(findTotpStep(RFC_SECRET, '081804', 1, now)).toBe(currentStep);
+      expect(findTotpStep(RFC_SECRET, generateTotp(RFC_SECRET, now - 30 * 1000), 1, now)).toBe(currentStep - 1);
+    });
+
+    test('should return null for invalid codes', () => {
+      expect(findTotpStep(RFC_SECRET, '000000', 1, now)).toBeNull();
+      expect(findTotpStep(RFC_SECRET, '12345', 1, now)).toBeNull();
+    });
+  });
+
+  describe('generateTotpSecret', () => {
+    test('should generate a 160-bit base32 secret', () => {
+      const secret = generateTotpSecret();
+
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(base32Decode(secret)).toHaveLength(20);
+    });
+  });
+
+  describe('buildOtpauthUri', () => {
+    test('should build a URI authenticator apps can read', () => {
+      const uri = buildOtpauthUri(RFC_SECRET, 'miner@example.com', 'Mining Marketplace');
+
+      expect(uri).toBe(
+        'otpauth://totp/Mining%20Marketplace%3Aminer%40example.com' +
+          `?secret=${RFC_SECRET}&issuer=Mining%20Marketplace&algorithm=SHA1&digits=6&period=30`
+      );
+    });
+  });
+});
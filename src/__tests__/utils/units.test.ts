@@ -0,0 +1,51 @@
+import { convertUnitQuantity, findUnit, toCanonicalUnit, UNITS, UnitOfMeasure } from '../../utils/units';
+
+const unit = (name: string) => findUnit(name) as UnitOfMeasure;
+
+describe('findUnit', () => {
+  test('should find units by symbol or alias in any case and spacing', () => {
+    expect(findUnit('kg')?.symbol).toBe('kg');
+    expect(findUnit(' Tonnes ')?.symbol).toBe('tonne');
+    expect(findUnit('Troy  Ounce')?.symbol).toBe('oz');
+    expect(findUnit('lbs.')?.symbol).toBe('lb');
+  });
+
+  test('should return null for unknown units', () => {
+    expect(findUnit('bags')).toBeNull();
+    expect(findUnit('')).toBeNull();
+  });
+
+  test('should not give two units the same name', () => {
+    const names = UNITS.flatMap((u) => [u.symbol, ...u.aliases]);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
+
+describe('convertUnitQuantity', () => {
+  test('should convert the quantity and the price per unit in opposite directions', () => {
+    expect(convertUnitQuantity({ quantity: 2, price_per_unit: 9000 }, unit('tonne'), unit('kg'))).toEqual({
+      unit: 'kg',
+      quantity: 2000,
+      price_per_unit: 9,
+    });
+  });
+
+  test('should convert troy ounces without floating-point noise', () => {
+    const converted = convertUnitQuantity({ quantity: 1000, price_per_unit: 2000 }, unit('oz'), unit('kg'));
+    expect(converted.quantity).toBe(31.1034768);
+    expect(converted.price_per_unit).toBeCloseTo(64301.49, 2);
+    expect(convertUnitQuantity(converted, unit('kg'), unit('oz'))).toEqual({ unit: 'oz', quantity: 1000, price_per_unit: 2000 });
+  });
+
+  test('should refuse to convert between dimensions', () => {
+    expect(() => convertUnitQuantity({ quantity: 1, price_per_unit: 1 }, unit('kg'), unit('l'))).toThrow();
+  });
+});
+
+describe('toCanonicalUnit', () => {
+  test("should convert to the canonical unit of the unit's dimension", () => {
+    expect(toCanonicalUnit({ quantity: 10, price_per_unit: 80 }, unit('bbl')).unit).toBe('l');
+    expect(toCanonicalUnit({ quantity: 5, price_per_unit: 1 }, unit('lb')).unit).toBe('kg');
+    expect(toCanonicalUnit({ quantity: 12, price_per_unit: 3 }, unit('pcs'))).toEqual({ unit: 'unit', quantity: 12, price_per_unit: 3 });
+  });
+});
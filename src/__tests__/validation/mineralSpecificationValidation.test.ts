@@ -0,0 +1,84 @@
+import { validateMineralSpecification, SpecificationRules } from '../../validation/mineralSpecificationValidation';
+
+// As seeded by migrations/20261019160000_commodity_catalogue
+const ALL_FIELDS: SpecificationRules['specification_fields'] = [
+  'grade',
+  'purity_percent',
+  'moisture_percent',
+  'impurities_ppm',
+  'particle_size_mm',
+];
+const gold: SpecificationRules = {
+  allowed_forms: ['ore', 'concentrate', 'dore', 'bullion', 'other'],
+  grade_unit: 'g/t',
+  specification_fields: ALL_FIELDS,
+};
+const copper: SpecificationRules = {
+  allowed_forms: ['ore', 'concentrate', 'cathode', 'chemical', 'other'],
+  grade_unit: '%',
+  specification_fields: ALL_FIELDS,
+};
+const coal: SpecificationRules = {
+  allowed_forms: ['ore', 'other'],
+  grade_unit: '%',
+  specification_fields: ['moisture_percent', 'impurities_ppm', 'particle_size_mm'],
+};
+
+describe('validateMineralSpecification', () => {
+  test('should accept a full copper concentrate specification and set the grade unit', () => {
+    const { error, value } = validateMineralSpecification(copper, {
+      form: 'concentrate',
+      grade: 28.5,
+      moisture_percent: 8,
+      impurities_ppm: { As: 1200, Pb: 300 },
+      particle_size_mm: { min: 0.01, max: 0.075 },
+    });
+    expect(error).toBeUndefined();
+    expect(value).toMatchObject({ form: 'concentrate', grade: 28.5, grade_unit: '%' });
+  });
+
+  test('should give precious metal grades in grams per tonne', () => {
+    const { error, value } = validateMineralSpecification(gold, { form: 'ore', grade: 4.2, grade_unit: '%' });
+    expect(error).toBeUndefined();
+    expect(value.grade_unit).toBe('g/t');
+  });
+
+  test('should not set a grade unit without a grade', () => {
+    const { value } = validateMineralSpecification(gold, { form: 'dore', purity_percent: 90 });
+    expect(value).toEqual({ form: 'dore', purity_percent: 90 });
+  });
+
+  test('should only accept the forms of the commodity', () => {
+    expect(validateMineralSpecification(gold, { form: 'cathode' }).error?.message).toBe(
+      '"form" must be one of ore, concentrate, dore, bullion, other for this mineral'
+    );
+    expect(validateMineralSpecification(copper, { form: 'cathode' }).error).toBeUndefined();
+    expect(validateMineralSpecification(copper, {}).error?.message).toBe('"form" is required');
+  });
+
+  test('should reject percentages over 100 and unknown fields', () => {
+    expect(validateMineralSpecification(copper, { form: 'cathode', purity_percent: 101 }).error).toBeDefined();
+    expect(validateMineralSpecification(copper, { form: 'ore', grade: 120 }).error).toBeDefined();
+    expect(validateMineralSpecification(copper, { form: 'ore', colour: 'green' }).error).toBeDefined();
+  });
+
+  test('should key impurities by element symbol', () => {
+    expect(validateMineralSpecification(copper, { form: 'concentrate', impurities_ppm: { Cd: 2000 } }).error).toBeUndefined();
+    expect(validateMineralSpecification(copper, { form: 'concentrate', impurities_ppm: { arsenic: 10 } }).error?.message).toBe(
+      '"impurities_ppm" must be keyed by element symbols such as As or Pb'
+    );
+  });
+
+  test('should reject a particle size range that ends before it starts', () => {
+    expect(
+      validateMineralSpecification(coal, { form: 'ore', particle_size_mm: { min: 30, max: 6 } }).error
+    ).toBeDefined();
+  });
+
+  test('should reject fields the commodity does not record', () => {
+    expect(validateMineralSpecification(coal, { form: 'ore', moisture_percent: 12 }).error).toBeUndefined();
+    expect(validateMineralSpecification(coal, { form: 'ore', grade: 60 }).error?.message).toBe(
+      '"grade" is not recorded for this mineral'
+    );
+  });
+});
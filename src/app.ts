@@ -21,9 +21,13 @@ import { router as listingRoutes } from './routes/listingRoutes.js';
 import { router as offerRoutes } from './routes/offerRoutes.js'; // This is the one we need to mount
 import paymentRoutesRouter from './routes/paymentRoutes.js'; // <--- CORRECTED: Default import for paymentRoutes
 import { router as marketplaceRoutes } from './routes/marketplaceRoutes.js';
+import { router as organizationRoutes } from './routes/organizationRoutes.js';
+import { router as adminRoutes } from './routes/adminRoutes.js';
+import { router as invitationRoutes } from './routes/invitationRoutes.js';
 
 
 import { errorHandler } from './middleware/errorHandler.js';
+import { requestId } from './middleware/requestIdMiddleware.js';
 
 dotenv.config();
 
@@ -32,6 +36,8 @@ const app = express();
 // --- NEW: Add this line to trust proxy headers for Render ---
 app.set('trust proxy', 1); // 1 means trust the first proxy
 
+app.use(requestId); // Tag every request with an ID (X-Request-Id) for logs and the audit trail
+
 // --- CORS Configuration ---
 app.use(cors()); // Temporarily allow all origins for debugging - Attempt 2
 app.use(express.json());
@@ -53,6 +59,9 @@ app.use('/api/auth', authRoutes);
 app.use('/api/users', userRoutes);
 app.use('/api/marketplace', marketplaceRoutes); // This mounts marketplaceRoutes at /api/marketplace
 app.use('/api/payments', paymentRoutesRouter);
+app.use('/api/organizations', organizationRoutes);
+app.use('/api/admin', adminRoutes);
+app.use('/api/invitations', invitationRoutes);
 
 // NEW: Mount offerRoutes directly under /api/marketplace/offers
 // This assumes that offerRoutes.ts exports 'router'
@@ -0,0 +1,76 @@
+// src/config/permissions.ts
+// Registry of every permission the API checks. Routes declare the permission they need
+// with requirePermission(); which roles hold which permissions is stored in the database
+// (role_permissions) so new roles such as 'verifier' or 'support' need no code changes.
+
+export const PERMISSIONS = {
+  'listing.create': 'Create listings',
+  'listing.update': 'Update own listings',
+  'listing.delete': 'Delete own listings',
+  'listing.read_own': 'View own listings',
+  'listing.manage_any': "Update or delete any seller's listings",
+  'offer.create': 'Make offers on listings',
+  'offer.read': 'View a single offer',
+  'offer.read_own': 'View offers you have made',
+  'offer.read_received': 'View offers received on own listings',
+  'offer.accept': 'Accept, reject or complete offers on own listings',
+  'payment.checkout': 'Pay for accepted offers',
+  'transaction.read_own': 'View your transaction history',
+  'compliance.review': "Review and set users' compliance status",
+  'user.read': 'List and view all users',
+  'user.manage_roles': "Change users' roles",
+  'user.unlock': 'Lift login lockouts',
+  'user.impersonate': 'View the marketplace as another user (read-only)',
+  'invitation.manage': 'Invite users to register with vetted roles such as miner',
+  'role.manage': 'Create roles and change their permissions',
+  'audit.read': 'Search and export the audit log',
+  'commodity.manage': 'Manage the commodity catalogue and its aliases',
+  'fx_rate.manage': 'Set and import exchange rates',
+} as const;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const ALL_PERMISSIONS = Object.keys(PERMISSIONS) as Permission[];
+
+// Staff permissions over other users' accounts, data or the platform itself. Any role
+// holding one of them must use two-factor authentication, whatever the role is called.
+export const PRIVILEGED_PERMISSIONS: Permission[] = [
+  'listing.manage_any',
+  'compliance.review',
+  'user.read',
+  'user.manage_roles',
+  'user.unlock',
+  'user.impersonate',
+  'invitation.manage',
+  'role.manage',
+  'audit.read',
+  'commodity.manage',
+  'fx_rate.manage',
+];
+
+// Built-in roles. They cannot be deleted, and their permissions fall back to the
+// defaults below until an admin customizes them.
+export const BUILT_IN_ROLES = ['buyer', 'miner', 'admin'] as const;
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<(typeof BUILT_IN_ROLES)[number], Permission[]> = {
+  buyer: ['offer.create', 'offer.read', 'offer.read_own', 'payment.checkout', 'transaction.read_own'],
+  miner: [
+    'listing.create',
+    'listing.update',
+    'listing.delete',
+    'listing.read_own',
+    'offer.read',
+    'offer.read_received',
+    'offer.accept',
+    'transaction.read_own',
+  ],
+  admin: ALL_PERMISSIONS,
+};
+
+/**
+ * Checks whether a string is a registered permission.
+ * @param value - The candidate permission name.
+ * @returns True if the permission exists in the registry.
+ */
+export const isPermission = (value: string): value is Permission =>
+  Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
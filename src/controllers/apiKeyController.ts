@@ -0,0 +1,116 @@
+// src/controllers/apiKeyController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { ApiKeyService, API_KEY_SCOPES } from '../services/apiKeyService.js';
+import { ApiKey } from '../models/apiKeyModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const apiKeyService = new ApiKeyService();
+
+// Joi schema for creating an API key
+const createApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).required(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).required(),
+  expiresAt: Joi.date().iso().optional().allow(null),
+  organizationId: Joi.number().integer().positive().optional(), // Scope the key to an organization (owners only)
+});
+
+// Joi schema for renaming an API key or changing its scopes
+const updateApiKeySchema = Joi.object({
+  name: Joi.string().trim().min(1).max(100).optional(),
+  scopes: Joi.array().items(Joi.string().valid(...API_KEY_SCOPES)).min(1).optional(),
+}).min(1);
+
+// Maps an API key to the response shape; the key hash is never returned
+const toFrontendApiKey = (apiKey: ApiKey) => ({
+  id: apiKey.id,
+  name: apiKey.name,
+  keyPrefix: apiKey.key_prefix,
+  scopes: apiKey.scopes,
+  organizationId: apiKey.organization_id,
+  userId: apiKey.user_id,
+  expiresAt: apiKey.expires_at,
+  lastUsedAt: apiKey.last_used_at,
+  lastUsedIp: apiKey.last_used_ip,
+  revokedAt: apiKey.revoked_at,
+  createdAt: apiKey.created_at,
+});
+
+// Parses the API key ID route parameter or throws a 400
+const parseApiKeyId = (value: string): number => {
+  const id = parseInt(value);
+  if (isNaN(id)) {
+    throw new ApplicationError('Invalid API key ID provided.', 400);
+  }
+  return id;
+};
+
+// Create an API key; the plain key is only ever returned in this response
+export const createApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = createApiKeySchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { apiKey, key } = await apiKeyService.createApiKey(req.user!.id, value);
+    res.status(201).json({
+      message: 'API key created. Copy it now - it will not be shown again.',
+      key,
+      apiKey: toFrontendApiKey(apiKey),
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the authenticated user's API keys, or an organization's with ?organizationId=
+export const getApiKeys = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    let organizationId: number | undefined;
+    if (req.query.organizationId !== undefined) {
+      organizationId = parseInt(req.query.organizationId as string);
+      if (isNaN(organizationId)) {
+        throw new ApplicationError('Invalid organization ID provided.', 400);
+      }
+    }
+    const apiKeys = await apiKeyService.getApiKeys(req.user!.id, organizationId);
+    res.status(200).json(apiKeys.map(toFrontendApiKey));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get a single API key
+export const getApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKey = await apiKeyService.getApiKey(req.user!.id, parseApiKeyId(req.params.id));
+    res.status(200).json(toFrontendApiKey(apiKey));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Rename an API key or change its scopes
+export const updateApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const apiKeyId = parseApiKeyId(req.params.id);
+    const { error, value } = updateApiKeySchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const apiKey = await apiKeyService.updateApiKey(req.user!.id, apiKeyId, value);
+    res.status(200).json({ message: 'API key updated.', apiKey: toFrontendApiKey(apiKey) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke an API key
+export const revokeApiKey = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await apiKeyService.revokeApiKey(req.user!.id, parseApiKeyId(req.params.id));
+    res.status(200).json({ message: 'API key revoked.' });
+  } catch (error) {
+    next(error);
+  }
+};
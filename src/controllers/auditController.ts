@@ -0,0 +1,47 @@
+// src/controllers/auditController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { AuditService } from '../services/auditService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const auditService = new AuditService();
+
+// Joi schema for audit log filters and paging
+const auditQuerySchema = Joi.object({
+  actorId: Joi.number().integer().positive().optional(),
+  action: Joi.string().trim().max(100).optional(), // Exact action, or a prefix ending in '.' (e.g. 'offer.')
+  entityType: Joi.string().trim().max(50).optional(),
+  entityId: Joi.string().trim().max(100).optional(),
+  requestId: Joi.string().trim().max(128).optional(),
+  from: Joi.date().iso().optional(),
+  to: Joi.date().iso().optional(),
+  page: Joi.number().integer().min(1).default(1),
+  pageSize: Joi.number().integer().min(1).max(200).default(50),
+  format: Joi.string().valid('json', 'csv').default('json'),
+});
+
+// Search the audit log (admins), as paginated JSON or as a CSV download with ?format=csv
+export const getAuditEvents = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = auditQuerySchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { page, pageSize, format, ...filter } = value;
+
+    if (format === 'csv') {
+      const { csv, truncated } = await auditService.exportCsv(filter);
+      const fileName = `audit-events-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}"`);
+      res.setHeader('X-Export-Truncated', String(truncated));
+      res.status(200).send(csv);
+      return;
+    }
+
+    const result = await auditService.getEvents(filter, page, pageSize);
+    res.status(200).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
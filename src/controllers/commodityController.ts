@@ -0,0 +1,109 @@
+// src/controllers/commodityController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { CommodityService } from '../services/commodityService.js';
+import { COMMODITY_CATEGORIES, CommodityInput, SPECIFICATION_FIELDS } from '../models/commodityModel.js';
+import { MINERAL_FORMS } from '../models/interfaces/marketplace.js';
+import { unitSchema } from '../validation/unitValidation.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
+
+const commodityService = new CommodityService();
+
+// Joi schema for creating a commodity or replacing its details
+const commoditySchema = Joi.object({
+  code: Joi.string().trim().lowercase().pattern(/^[a-z][a-z0-9_]{1,49}$/).required().messages({
+    'string.pattern.base': 'Commodity codes must be 2-50 lowercase letters, digits or underscores.',
+  }),
+  name: Joi.string().trim().min(2).max(100).required(),
+  category: Joi.string().valid(...COMMODITY_CATEGORIES).required(),
+  hsCode: Joi.string().trim().pattern(/^\d{4}(\.\d{2}){0,2}$/).allow(null).default(null).messages({
+    'string.pattern.base': 'HS codes are 4 digits with up to two further pairs, e.g. 2603.00.',
+  }),
+  defaultUnit: unitSchema.required(), // Also decides whether listings are measured by mass, volume or count
+  gradeUnit: Joi.string().valid('%', 'g/t').required(),
+  allowedForms: Joi.array().items(Joi.string().valid(...MINERAL_FORMS)).min(1).unique().required(),
+  specificationFields: Joi.array().items(Joi.string().valid(...SPECIFICATION_FIELDS)).unique().default([]),
+  active: Joi.boolean().default(true),
+  aliases: Joi.array().items(Joi.string().trim().min(1).max(100)).max(50).default([]),
+});
+
+// Validates a request body and maps it to the model's input
+const parseCommodity = (body: unknown): CommodityInput => {
+  const { error, value } = commoditySchema.validate(body);
+  if (error) {
+    throw new ApplicationError(error.details[0].message, 400);
+  }
+  return {
+    code: value.code,
+    name: value.name,
+    category: value.category,
+    hs_code: value.hsCode,
+    default_unit: value.defaultUnit,
+    grade_unit: value.gradeUnit,
+    allowed_forms: value.allowedForms,
+    specification_fields: value.specificationFields,
+    active: value.active,
+    aliases: value.aliases,
+  };
+};
+
+// Parses the commodity ID route parameter
+const parseCommodityId = (param: string): number => {
+  const id = parseInt(param);
+  if (isNaN(id)) {
+    throw new ApplicationError('Invalid commodity ID provided.', 400);
+  }
+  return id;
+};
+
+// List the commodities that can be listed, for sellers choosing a mineral type
+export const getCommodities = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const commodities = await commodityService.getCommodities();
+    res.status(200).json(commodities);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the whole catalogue, including inactive commodities
+export const getAllCommodities = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const commodities = await commodityService.getCommodities(true);
+    res.status(200).json(commodities);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Add a commodity to the catalogue
+export const createCommodity = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const commodity = await commodityService.createCommodity(getAuditContext(req), parseCommodity(req.body));
+    res.status(201).json({ message: `Commodity '${commodity.name}' created.`, commodity });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace a commodity's details and aliases
+export const updateCommodity = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const id = parseCommodityId(req.params.id);
+    const commodity = await commodityService.updateCommodity(getAuditContext(req), id, parseCommodity(req.body));
+    res.status(200).json({ message: `Commodity '${commodity.name}' saved.`, commodity });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete a commodity that no listing uses
+export const deleteCommodity = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await commodityService.deleteCommodity(getAuditContext(req), parseCommodityId(req.params.id));
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,71 @@
+// src/controllers/fxRateController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { FxRateService } from '../services/fxRateService.js';
+import { BASE_CURRENCY } from '../models/fxRateModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
+
+const fxRateService = new FxRateService();
+
+const currencySchema = Joi.string().trim().uppercase().pattern(/^[A-Z]{3}$/).required().messages({
+  'string.pattern.base': 'Currencies are three-letter ISO 4217 codes such as EUR.',
+});
+
+// Joi schema for setting one rate
+const saveFxRateSchema = Joi.object({
+  rate: Joi.number().positive().required(), // Units of the currency one US dollar buys
+});
+
+// List every exchange rate, against the base currency
+export const getFxRates = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rates = await fxRateService.getRates();
+    res.status(200).json({ base_currency: BASE_CURRENCY, rates });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Set the exchange rate of a currency
+export const saveFxRate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error: currencyError, value: currency } = currencySchema.validate(req.params.currency);
+    if (currencyError) {
+      throw new ApplicationError(currencyError.details[0].message, 400);
+    }
+    const { error, value } = saveFxRateSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const rate = await fxRateService.saveRate(getAuditContext(req), currency, value.rate);
+    res.status(200).json({ message: `Exchange rate for ${currency} saved.`, rate });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Import exchange rates from an uploaded CSV with currency and rate columns
+export const importFxRates = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const rates = await fxRateService.importRates(getAuditContext(req), req.file!.buffer.toString('utf8'));
+    res.status(200).json({ message: `Imported ${rates.length} exchange rates.`, rates });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Remove the exchange rate of a currency
+export const deleteFxRate = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value: currency } = currencySchema.validate(req.params.currency);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    await fxRateService.deleteRate(getAuditContext(req), currency);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
@@ -0,0 +1,39 @@
+// src/controllers/impersonationController.ts
+import { Request, Response, NextFunction } from 'express';
+import { ImpersonationService } from '../services/impersonationService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
+
+const impersonationService = new ImpersonationService();
+
+// Start viewing the API as another user (admins). The token is read-only and short-lived.
+export const startImpersonation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user?.sessionId) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const targetUserId = parseInt(req.params.id);
+    if (isNaN(targetUserId)) {
+      throw new ApplicationError('Invalid user ID provided.', 400);
+    }
+
+    const { token, expiresAt, user } = await impersonationService.startImpersonation(
+      getAuditContext(req),
+      req.user.sessionId,
+      targetUserId
+    );
+    res.status(201).json({
+      token,
+      expiresAt,
+      impersonating: {
+        id: user.id,
+        firstName: user.first_name,
+        lastName: user.last_name,
+        email: user.email,
+        role: user.role,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+};
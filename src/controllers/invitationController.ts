@@ -0,0 +1,103 @@
+// src/controllers/invitationController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { InvitationService } from '../services/invitationService.js';
+import { RegistrationInvitation } from '../models/invitationModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
+
+const invitationService = new InvitationService();
+
+// Joi schema for creating an invitation; without an email, a code is returned to hand out
+const createInvitationSchema = Joi.object({
+  email: Joi.string().email().optional(),
+  role: Joi.string().trim().max(50).default('miner'),
+  organizationId: Joi.number().integer().positive().optional(),
+  companyName: Joi.string().trim().min(1).max(100).optional(),
+  expiresInDays: Joi.number().integer().min(1).max(90).optional(),
+});
+
+// Joi schema for listing invitations
+const invitationQuerySchema = Joi.object({
+  organizationId: Joi.number().integer().positive().optional(),
+  status: Joi.string().valid('sent', 'accepted', 'expired', 'revoked').optional(),
+});
+
+// Strips the code hash from an invitation before it is sent to the client
+const toFrontendInvitation = (invitation: RegistrationInvitation) => ({
+  id: invitation.id,
+  email: invitation.email,
+  role: invitation.role,
+  organization_id: invitation.organization_id,
+  organization_name: invitation.organization_name ?? null,
+  company_name: invitation.company_name,
+  status: invitation.status,
+  invited_by: invitation.invited_by,
+  expires_at: invitation.expires_at,
+  accepted_by: invitation.accepted_by,
+  accepted_at: invitation.accepted_at,
+  revoked_at: invitation.revoked_at,
+  created_at: invitation.created_at,
+});
+
+// Create an invitation to register with a vetted role (admins, or owners for their organization)
+export const createInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = createInvitationSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { invitation, code } = await invitationService.createInvitation(getAuditContext(req), value);
+    res.status(201).json({
+      message: value.email ? `Invitation sent to ${value.email}.` : 'Invitation created. Share the code with the invitee.',
+      invitation: toFrontendInvitation(invitation),
+      code, // Only returned now; it cannot be retrieved later
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List invitations (admins see all; owners pass ?organizationId= for their organization)
+export const getInvitations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = invitationQuerySchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const invitations = await invitationService.getInvitations(req.user!.id, req.user!.role, value);
+    res.status(200).json(invitations.map(toFrontendInvitation));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke an invitation that has not been used yet
+export const revokeInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invitationId = parseInt(req.params.id);
+    if (isNaN(invitationId)) {
+      throw new ApplicationError('Invalid invitation ID provided.', 400);
+    }
+    await invitationService.revokeInvitation(getAuditContext(req), req.user!.role, invitationId);
+    res.status(200).json({ message: 'Invitation revoked.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Show what an invite code grants, so the registration form can be prefilled (public)
+export const getInvitationByCode = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const invitation = await invitationService.getInvitationByCode(req.params.code);
+    res.status(200).json({
+      email: invitation.email,
+      role: invitation.role,
+      organizationName: invitation.organization_name ?? null,
+      companyName: invitation.company_name,
+      expiresAt: invitation.expires_at,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
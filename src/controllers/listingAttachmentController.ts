@@ -0,0 +1,223 @@
+// src/controllers/listingAttachmentController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { ListingAttachmentService, UploadedFile } from '../services/listingAttachmentService.js';
+import { ListingService } from '../services/listingService.js';
+import { ListingAttachment, ListingAttachmentKind, LISTING_DOCUMENT_TYPES } from '../models/listingAttachmentModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const listingAttachmentService = new ListingAttachmentService();
+const listingService = new ListingService();
+
+// Joi schema for the form fields sent with a document upload
+const uploadDocumentSchema = Joi.object({
+  documentType: Joi.string().valid(...LISTING_DOCUMENT_TYPES).required(),
+});
+
+// Joi schema for reordering a listing's photos or documents
+const reorderAttachmentsSchema = Joi.object({
+  ids: Joi.array().items(Joi.number().integer().positive()).min(1).required(),
+});
+
+// Joi schema for the attachment download query string
+const attachmentFileSchema = Joi.object({
+  variant: Joi.string().valid('original', 'thumbnail').default('original'),
+});
+
+// Maps an attachment to the Frontend shape, with the URLs its file can be downloaded from
+export const toFrontendAttachment = (attachment: ListingAttachment) => {
+  const url = `/api/marketplace/listings/${attachment.listing_id}/attachments/${attachment.id}/file`;
+  return {
+    id: attachment.id,
+    listing_id: attachment.listing_id,
+    kind: attachment.kind,
+    document_type: attachment.document_type,
+    original_name: attachment.original_name,
+    mime_type: attachment.mime_type,
+    size_bytes: attachment.size_bytes,
+    width: attachment.width,
+    height: attachment.height,
+    position: attachment.position,
+    url,
+    thumbnail_url: attachment.thumbnail_key ? `${url}?variant=thumbnail` : null,
+    created_at: attachment.created_at instanceof Date ? attachment.created_at.toISOString() : attachment.created_at,
+  };
+};
+
+// Splits attachments into the listing's photos and documents
+export const toFrontendAttachments = (attachments: ListingAttachment[]) => ({
+  photos: attachments.filter((attachment) => attachment.kind === 'photo').map(toFrontendAttachment),
+  documents: attachments.filter((attachment) => attachment.kind === 'document').map(toFrontendAttachment),
+});
+
+const parseId = (value: string, name: string): number => {
+  const id = parseInt(value);
+  if (isNaN(id)) {
+    throw new ApplicationError(`Invalid ${name} ID provided.`, 400);
+  }
+  return id;
+};
+
+// Gets the listing ID from the route, checking the user may manage the listing as they would to update it
+const getManageableListingId = async (req: Request): Promise<number> => {
+  if (!req.user) {
+    throw new ApplicationError('User not authenticated.', 401);
+  }
+  const listingId = parseId(req.params.id, 'listing');
+  const listing = await listingService.getListingById(listingId);
+  if (!listing) {
+    throw new ApplicationError('Listing not found.', 404);
+  }
+  if (!(await listingService.canManageListing(listing, req.user.id, req.user.role))) {
+    throw new ApplicationError('Unauthorized: You can only change your own or your organization\'s listings.', 403);
+  }
+  return listingId;
+};
+
+// The file from uploadSingleFile, with a usable name
+const getUploadedFile = (req: Request): UploadedFile => ({
+  originalName: (req.file!.originalname || 'file').slice(0, 255),
+  data: req.file!.buffer,
+});
+
+/**
+ * Gets a listing's photos and documents, each in their set order.
+ */
+export const getListingAttachments = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const listingId = parseId(req.params.id, 'listing');
+    if (!(await listingService.getListingById(listingId))) {
+      throw new ApplicationError('Listing not found.', 404);
+    }
+
+    const attachments = await listingAttachmentService.getAttachments(listingId);
+    res.status(200).json(toFrontendAttachments(attachments));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Uploads a photo (JPEG, PNG or WebP, in the multipart field 'file') to the end of a listing's photos.
+ * Requires the same access as updating the listing.
+ */
+export const uploadListingPhoto = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const listingId = await getManageableListingId(req);
+    const photo = await listingAttachmentService.addPhoto(listingId, getUploadedFile(req), req.user!.id);
+    res.status(201).json({ message: 'Photo uploaded successfully!', photo: toFrontendAttachment(photo) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Uploads a PDF document (in the multipart field 'file', with a `documentType` field such as
+ * 'assay_report' or 'export_permit') to the end of a listing's documents.
+ * Requires the same access as updating the listing.
+ */
+export const uploadListingDocument = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const listingId = await getManageableListingId(req);
+    const { error, value } = uploadDocumentSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const document = await listingAttachmentService.addDocument(
+      listingId,
+      getUploadedFile(req),
+      value.documentType,
+      req.user!.id
+    );
+    res.status(201).json({ message: 'Document uploaded successfully!', document: toFrontendAttachment(document) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+const reorderAttachments = async (kind: ListingAttachmentKind, req: Request, res: Response, next: NextFunction) => {
+  try {
+    const listingId = await getManageableListingId(req);
+    const { error, value } = reorderAttachmentsSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const attachments = await listingAttachmentService.reorderAttachments(listingId, kind, value.ids);
+    res.status(200).json(attachments.map(toFrontendAttachment));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Sets the order of a listing's photos from `{ ids: [...] }`, which must list every photo;
+ * the first is the listing's cover photo. Requires the same access as updating the listing.
+ */
+export const reorderListingPhotos = (req: Request, res: Response, next: NextFunction) =>
+  reorderAttachments('photo', req, res, next);
+
+/**
+ * Sets the order of a listing's documents from `{ ids: [...] }`, which must list every document.
+ * Requires the same access as updating the listing.
+ */
+export const reorderListingDocuments = (req: Request, res: Response, next: NextFunction) =>
+  reorderAttachments('document', req, res, next);
+
+const deleteAttachment = async (kind: ListingAttachmentKind, req: Request, res: Response, next: NextFunction) => {
+  try {
+    const listingId = await getManageableListingId(req);
+    const attachmentId = parseId(req.params.attachmentId, kind);
+
+    await listingAttachmentService.deleteAttachment(listingId, attachmentId, kind);
+    res.status(204).send(); // No content on successful deletion
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Deletes one of a listing's photos. Requires the same access as updating the listing.
+ */
+export const deleteListingPhoto = (req: Request, res: Response, next: NextFunction) =>
+  deleteAttachment('photo', req, res, next);
+
+/**
+ * Deletes one of a listing's documents. Requires the same access as updating the listing.
+ */
+export const deleteListingDocument = (req: Request, res: Response, next: NextFunction) =>
+  deleteAttachment('document', req, res, next);
+
+/**
+ * Downloads an attachment's file, or a photo's thumbnail with `?variant=thumbnail`.
+ * Photos are shown inline; documents download under their original name.
+ */
+export const getListingAttachmentFile = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const listingId = parseId(req.params.id, 'listing');
+    const attachmentId = parseId(req.params.attachmentId, 'attachment');
+    const { error, value } = attachmentFileSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const { attachment, mimeType, stream } = await listingAttachmentService.getAttachmentFile(
+      listingId,
+      attachmentId,
+      value.variant
+    );
+    if (attachment.kind === 'document') {
+      res.attachment(attachment.original_name);
+    }
+    res.type(mimeType);
+    res.setHeader('Cache-Control', 'public, max-age=86400');
+    // Let the frontend, which runs on another origin, embed photos
+    res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin');
+
+    stream.on('error', (streamError) => (res.headersSent ? res.destroy(streamError) : next(streamError)));
+    stream.pipe(res);
+  } catch (error) {
+    next(error);
+  }
+};
@@ -1,39 +1,261 @@
 // src/controllers/listingController.ts
 import { Request, Response, NextFunction } from 'express';
 import { ListingService } from '../services/listingService.js';
+import { ListingAttachmentService } from '../services/listingAttachmentService.js';
+import { CommodityService } from '../services/commodityService.js';
+import { FxRateService } from '../services/fxRateService.js';
 import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
 import Joi from 'joi';
 // Import BackendListing and input types from the model, which is the source of truth
-import { BackendListing, CreateListingInput, UpdateListingInput } from '../models/listingModel.js';
+import { BackendListing, CreateListingInput, UpdateListingInput, LISTING_SORT_FIELDS } from '../models/listingModel.js';
+import { toFrontendAttachments } from './listingAttachmentController.js';
+import {
+  ELEMENT_SYMBOL_PATTERN,
+  SpecificationRules,
+  validateMineralSpecification,
+} from '../validation/mineralSpecificationValidation.js';
+import { unitSchema } from '../validation/unitValidation.js';
+import { Commodity } from '../models/commodityModel.js';
+import { convertUnitQuantity, findUnit, toCanonicalUnit, UNIT_SYMBOLS, UnitOfMeasure, UnitQuantity } from '../utils/units.js';
+import { MINERAL_FORMS, MineralListingFilter, MineralSpecification } from '../models/interfaces/marketplace.js';
+import { BASE_CURRENCY } from '../models/fxRateModel.js';
+import { convertCurrency } from '../utils/currency.js';
 
 const listingService = new ListingService();
+const listingAttachmentService = new ListingAttachmentService();
+const commodityService = new CommodityService();
+const fxRateService = new FxRateService();
 
 // Joi schema for creating a new listing
 const createListingSchema = Joi.object({
-  mineralType: Joi.string().trim().min(3).max(100).required(),
+  mineralType: Joi.string().trim().min(2).max(100).required(), // A commodity's name, code or alias, e.g. 'Au'
   description: Joi.string().trim().min(10).max(1000).required(),
   quantity: Joi.number().min(0.01).required(),
-  unit: Joi.string().trim().required(),
+  unit: unitSchema.optional(), // Defaults to the commodity's default unit
   pricePerUnit: Joi.number().min(0.01).required(),
   currency: Joi.string().trim().length(3).uppercase().required(),
   location: Joi.string().trim().min(3).max(100).required(),
+  organizationId: Joi.number().integer().positive().optional(), // List on behalf of an organization
+  specifications: Joi.object().optional(), // Checked against the commodity by validateMineralSpecification
 });
 
 // Joi schema for updating an existing listing
 const updateListingSchema = Joi.object({
-  mineralType: Joi.string().trim().min(3).max(100).optional(),
+  mineralType: Joi.string().trim().min(2).max(100).optional(),
   description: Joi.string().trim().min(10).max(1000).optional(),
   quantity: Joi.number().min(0.01).optional(),
-  unit: Joi.string().trim().optional(),
+  unit: unitSchema.optional(),
   pricePerUnit: Joi.number().min(0.01).optional(),
   currency: Joi.string().trim().length(3).uppercase().optional(),
   location: Joi.string().trim().min(3).max(100).optional(),
   status: Joi.string().valid('available', 'pending', 'sold', 'canceled').optional(),
+  specifications: Joi.object().allow(null).optional(), // null removes them
+});
+
+// Grades are in the mineral's own unit (% or g/t), so grade filters need a mineral type
+const gradeFilter = (key: string) =>
+  Joi.number()
+    .min(0)
+    .when('mineral_type', { is: Joi.exist(), otherwise: Joi.forbidden() })
+    .messages({ 'any.unknown': `"${key}" can only be used with "mineral_type"` });
+
+// Joi schema for the public listing search query string
+const listingFilterKeys = {
+  mineral_type: Joi.string().trim().max(100).optional(),
+  location: Joi.string().trim().max(100).optional(), // Partial match
+  status: Joi.string().valid('available', 'pending', 'sold', 'canceled').optional(),
+  seller_compliance_status: Joi.string().valid('pending', 'compliant', 'non_compliant').optional(),
+  currency: Joi.string().trim().length(3).uppercase().optional(),
+  unit: unitSchema.optional(), // Unit of the price and quantity filters, and of `converted` in the results
+  display_currency: Joi.string().trim().length(3).uppercase().optional(), // Currency of the price filters and of `converted`
+  min_price: Joi.number().min(0).optional(),
+  max_price: Joi.number().min(0).when('min_price', { is: Joi.exist(), then: Joi.number().min(Joi.ref('min_price')) }),
+  min_quantity: Joi.number().min(0).optional(),
+  max_quantity: Joi.number().min(0).when('min_quantity', { is: Joi.exist(), then: Joi.number().min(Joi.ref('min_quantity')) }),
+  listed_from: Joi.date().iso().optional(),
+  listed_to: Joi.date().iso().when('listed_from', { is: Joi.exist(), then: Joi.date().min(Joi.ref('listed_from')) }),
+  form: Joi.string().valid(...MINERAL_FORMS).optional(),
+  min_grade: gradeFilter('min_grade'),
+  max_grade: gradeFilter('max_grade'),
+  min_purity: Joi.number().min(0).max(100).optional(),
+  max_moisture: Joi.number().min(0).max(100).optional(),
+  max_impurities: Joi.object().pattern(ELEMENT_SYMBOL_PATTERN, Joi.number().min(0)).max(10).optional(), // ?max_impurities[As]=500
+  limit: Joi.number().integer().min(1).max(100).default(25),
+};
+
+const listingSearchSchema = Joi.object({
+  ...listingFilterKeys,
+  page: Joi.number().integer().min(1).default(1),
+  sort_by: Joi.string().valid(...LISTING_SORT_FIELDS).default('created_at'),
+  sort_direction: Joi.string().valid('asc', 'desc').default('desc'),
+});
+
+// Joi schema for full-text listing search; results are always ordered by relevance
+const listingTextSearchSchema = Joi.object({
+  q: Joi.string()
+    .trim()
+    .min(2)
+    .max(200)
+    .pattern(/[\p{L}\p{N}]/u)
+    .required()
+    .messages({ 'string.pattern.base': '"q" must contain letters or numbers' }),
+  ...listingFilterKeys,
+  page: Joi.number().integer().min(1).default(1),
+});
+
+// Joi schema for the cursor-paginated listing feed; always newest first
+const listingFeedSchema = Joi.object({
+  ...listingFilterKeys,
+  cursor: Joi.string().max(500).optional(), // `next` or `prev` from an earlier page
+});
+
+// Joi schema for a single listing's query string; either adds `converted` to the listing
+const listingConversionSchema = Joi.object({
+  unit: unitSchema.optional(),
+  display_currency: Joi.string().trim().length(3).uppercase().optional(),
+});
+
+// Validates a listing's specifications against its commodity
+const parseSpecifications = (commodity: SpecificationRules, specifications: unknown): MineralSpecification => {
+  const { error, value } = validateMineralSpecification(commodity, specifications);
+  if (error) {
+    throw new ApplicationError(`Invalid specifications: ${error.details[0].message}`, 400);
+  }
+  return value;
+};
+
+// Finds the commodity of an existing listing; listings from before the catalogue may have none
+const getListingCommodity = async (listing: BackendListing): Promise<Commodity> => {
+  const commodity = listing.commodity_id
+    ? await commodityService.getCommodityById(listing.commodity_id)
+    : await commodityService.findCommodity(listing.mineral_type);
+  if (!commodity) {
+    throw new ApplicationError(
+      `'${listing.mineral_type}' is not in the commodity catalogue; change the listing's mineral type to add specifications.`,
+      400
+    );
+  }
+  return commodity;
+};
+
+// Finds a listing's unit, which must measure the commodity the way its default unit does
+const parseUnit = (name: string, commodity: Commodity | null): UnitOfMeasure => {
+  const unit = findUnit(name);
+  if (!unit) {
+    throw new ApplicationError(`Unknown unit '${name}'. Use one of: ${UNIT_SYMBOLS.join(', ')}.`, 400);
+  }
+  const defaultUnit = commodity && findUnit(commodity.default_unit);
+  if (defaultUnit && defaultUnit.dimension !== unit.dimension) {
+    throw new ApplicationError(`${commodity.name} is measured by ${defaultUnit.dimension}, so it cannot be listed in '${unit.symbol}'.`, 400);
+  }
+  return unit;
+};
+
+// A listing's unit with its quantity and price in the canonical unit, stored alongside the originals
+const normalizeAmounts = (quantity: number, pricePerUnit: number, unit: UnitOfMeasure) => {
+  const canonical = toCanonicalUnit({ quantity, price_per_unit: pricePerUnit }, unit);
+  return {
+    unit: unit.symbol,
+    canonical_unit: canonical.unit,
+    normalized_quantity: canonical.quantity,
+    normalized_price_per_unit: canonical.price_per_unit,
+  };
+};
+
+// The unit and currency a client asked to see listings in
+interface ListingConversion {
+  unit: UnitOfMeasure | null;
+  currency: string | null;
+  rates: ReadonlyMap<string, number>;
+}
+
+// The error for a currency with no exchange rate, which listings and price filters cannot be compared in
+const noExchangeRateError = (currency: string) =>
+  new ApplicationError(`There is no exchange rate for ${currency}; see GET /api/marketplace/fx-rates.`, 400);
+
+// Listings are compared in US dollars, so a listing's currency needs an exchange rate
+const assertListingCurrency = async (currency: string): Promise<void> => {
+  if (!(await fxRateService.getRateMap()).has(currency)) {
+    throw noExchangeRateError(currency);
+  }
+};
+
+// Resolves a query's unit and display currency. min_price and max_price are given in the display
+// currency (US dollars by default) and passed on in US dollars, which listings are compared in.
+const parseListingConversion = async <T extends MineralListingFilter>(
+  query: T
+): Promise<{ filter: T; conversion: ListingConversion | null }> => {
+  const unit = query.unit ? findUnit(query.unit) : null;
+  const currency = query.display_currency ?? null;
+  const hasPriceFilter = query.min_price !== undefined || query.max_price !== undefined;
+  const rates = currency || hasPriceFilter ? await fxRateService.getRateMap() : new Map<string, number>();
+  if (currency && !rates.has(currency)) {
+    throw noExchangeRateError(currency);
+  }
+
+  const toBaseCurrency = (amount: number | undefined) =>
+    amount === undefined ? undefined : (convertCurrency(amount, currency ?? BASE_CURRENCY, BASE_CURRENCY, rates) as number);
+  return {
+    filter: { ...query, min_price: toBaseCurrency(query.min_price), max_price: toBaseCurrency(query.max_price) },
+    conversion: unit || currency ? { unit, currency, rates } : null,
+  };
+};
+
+// A listing's quantity and price in the unit and currency a client asked for, or null if it cannot be converted
+const toConvertedPrice = (
+  listing: BackendListing,
+  { unit, currency, rates }: ListingConversion
+): (UnitQuantity & { currency: string }) | null => {
+  let amounts: UnitQuantity = { unit: listing.unit, quantity: Number(listing.quantity), price_per_unit: Number(listing.price_per_unit) };
+  if (unit) {
+    const canonical = listing.canonical_unit ? findUnit(listing.canonical_unit) : null;
+    if (!canonical || canonical.dimension !== unit.dimension) {
+      return null;
+    }
+    amounts = convertUnitQuantity(
+      { quantity: Number(listing.normalized_quantity), price_per_unit: Number(listing.normalized_price_per_unit) },
+      canonical,
+      unit
+    );
+  }
+  const targetCurrency = currency ?? listing.currency;
+  const price = convertCurrency(amounts.price_per_unit, listing.currency, targetCurrency, rates);
+  return price === null ? null : { ...amounts, price_per_unit: price, currency: targetCurrency };
+};
+
+// Maps a BackendListing (with joined seller data) to the Frontend Listing shape
+// and, when a unit or currency is asked for, its quantity and price converted to them
+const toFrontendListing = (listing: BackendListing, conversion?: ListingConversion | null) => ({
+  id: listing.id,
+  seller_id: listing.seller_id,
+  organization_id: listing.organization_id,
+  commodity_id: listing.commodity_id,
+  mineral_type: listing.mineral_type,
+  description: listing.description,
+  quantity: listing.quantity,
+  unit: listing.unit,
+  price_per_unit: listing.price_per_unit,
+  canonical_unit: listing.canonical_unit,
+  normalized_quantity: listing.normalized_quantity,
+  normalized_price_per_unit: listing.normalized_price_per_unit,
+  currency: listing.currency,
+  location: listing.location,
+  status: listing.status,
+  specifications: listing.specifications,
+  listed_date: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
+  last_updated: listing.updated_at instanceof Date ? listing.updated_at.toISOString() : listing.updated_at,
+  created_at: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
+  updated_at: listing.updated_at instanceof Date ? listing.updated_at.toISOString() : listing.updated_at,
+  seller_company_name: listing.seller_company_name, // Include joined data
+  seller_location: listing.seller_location,         // Include joined data
+  seller_compliance_status: listing.seller_compliance_status, // Include joined data
+  ...(conversion && { converted: toConvertedPrice(listing, conversion) }),
 });
 
 /**
  * Creates a new mineral listing.
- * Requires authentication and 'miner' or 'admin' role.
+ * Requires authentication and the 'listing.create' permission.
  */
 export const createListing = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -45,17 +267,26 @@ export const createListing = async (req: Request, res: Response, next: NextFunct
     if (error) {
       throw new ApplicationError(error.details[0].message, 400);
     }
+    await assertListingCurrency(value.currency);
+    // Aliases such as 'Au' or 'Gold doré' are stored under the commodity's canonical name
+    const commodity = await commodityService.resolveCommodity(value.mineralType);
+    const specifications = value.specifications && parseSpecifications(commodity, value.specifications);
+    const unit = parseUnit(value.unit ?? commodity.default_unit, commodity);
 
     const listingData: CreateListingInput = {
       seller_id: req.user.id, // Seller ID from authenticated user
-      mineral_type: value.mineralType,
+      // Organization-scoped API keys list on behalf of their organization by default
+      organization_id: value.organizationId || req.user.apiKey?.organizationId || null,
+      commodity_id: commodity.id,
+      mineral_type: commodity.name,
       description: value.description,
       quantity: value.quantity,
-      unit: value.unit,
       price_per_unit: value.pricePerUnit,
+      ...normalizeAmounts(value.quantity, value.pricePerUnit, unit),
       currency: value.currency,
       location: value.location,
       status: 'available', // Default status for new listings
+      specifications: specifications || null,
     };
 
     const newListing = await listingService.createListing(listingData);
@@ -64,14 +295,20 @@ export const createListing = async (req: Request, res: Response, next: NextFunct
     const frontendListing = {
       id: newListing.id,
       seller_id: newListing.seller_id,
+      organization_id: newListing.organization_id,
+      commodity_id: newListing.commodity_id,
       mineral_type: newListing.mineral_type,
       description: newListing.description,
       quantity: newListing.quantity,
       unit: newListing.unit,
       price_per_unit: newListing.price_per_unit,
+      canonical_unit: newListing.canonical_unit,
+      normalized_quantity: newListing.normalized_quantity,
+      normalized_price_per_unit: newListing.normalized_price_per_unit,
       currency: newListing.currency,
       location: newListing.location,
       status: newListing.status,
+      specifications: newListing.specifications,
       // Ensure created_at/updated_at are Date objects before calling toISOString()
       listed_date: newListing.created_at instanceof Date ? newListing.created_at.toISOString() : newListing.created_at,
       last_updated: newListing.updated_at instanceof Date ? newListing.updated_at.toISOString() : newListing.updated_at,
@@ -87,39 +324,78 @@ export const createListing = async (req: Request, res: Response, next: NextFunct
 };
 
 /**
- * Gets all mineral listings with seller details.
+ * Searches mineral listings with seller details. Filters, sorting and paging come from
+ * the query string (see listingSearchSchema); responds with one page and the total.
  */
 export const getAllListings = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const listings = await listingService.getAllListingsWithSellerDetails(); // Correct method call
-    // Map BackendListing (with joined seller data) to Frontend Listing for response
-    const frontendListings = listings.map((listing: BackendListing) => ({ // Explicitly type 'listing'
-      id: listing.id,
-      seller_id: listing.seller_id,
-      mineral_type: listing.mineral_type,
-      description: listing.description,
-      quantity: listing.quantity,
-      unit: listing.unit,
-      price_per_unit: listing.price_per_unit,
-      currency: listing.currency,
-      location: listing.location,
-      status: listing.status,
-      listed_date: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
-      last_updated: listing.updated_at instanceof Date ? listing.updated_at.toISOString() : listing.updated_at,
-      created_at: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
-      updated_at: listing.updated_at instanceof Date ? listing.updated_at.toISOString() : listing.updated_at,
-      seller_company_name: listing.seller_company_name, // Include joined data
-      seller_location: listing.seller_location,         // Include joined data
-      seller_compliance_status: listing.seller_compliance_status, // Include joined data
-    }));
-    res.status(200).json(frontendListings);
+    const { error, value } = listingSearchSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const { filter, conversion } = await parseListingConversion(value);
+
+    const { listings, total, page, pageSize } = await listingService.searchListings(filter);
+    res.status(200).json({ listings: listings.map((listing) => toFrontendListing(listing, conversion)), total, page, pageSize });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets the newest-first listing feed, one cursor page at a time, for infinite scroll.
+ * Accepts the same filters as getAllListings; pages stay stable while listings are created.
+ */
+export const getListingFeed = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = listingFeedSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { cursor, limit, ...query } = value;
+    const { filter, conversion } = await parseListingConversion(query);
+
+    const page = await listingService.getListingFeed(filter, cursor, limit);
+    res.status(200).json({ ...page, data: page.data.map((listing) => toFrontendListing(listing, conversion)) });
   } catch (error) {
     next(error);
   }
 };
 
 /**
- * Gets a single mineral listing by ID with seller details.
+ * Full-text searches mineral listings across mineral type, description, location and
+ * seller company. Accepts the same filters as getAllListings; results are ordered by
+ * relevance and carry a highlighted snippet.
+ */
+export const searchListings = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = listingTextSearchSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { q, ...query } = value;
+    const { filter, conversion } = await parseListingConversion(query);
+
+    const { listings, total, page, pageSize } = await listingService.searchListingsByText(q, filter);
+    res.status(200).json({
+      listings: listings.map((listing) => ({
+        ...toFrontendListing(listing, conversion),
+        relevance: listing.relevance,
+        snippet: listing.snippet,
+      })),
+      total,
+      page,
+      pageSize,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Gets a single mineral listing by ID with seller details and its photos and documents.
+ * `?unit=` and `?display_currency=` add its quantity and price converted to them.
  */
 export const getListingById = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -127,6 +403,11 @@ export const getListingById = async (req: Request, res: Response, next: NextFunc
     if (isNaN(listingId)) {
       throw new ApplicationError('Invalid listing ID provided.', 400);
     }
+    const { error, value } = listingConversionSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { conversion } = await parseListingConversion(value);
 
     const listing = await listingService.getListingByIdWithSellerDetails(listingId); // Correct method call
     if (!listing) {
@@ -137,14 +418,20 @@ export const getListingById = async (req: Request, res: Response, next: NextFunc
     const frontendListing = {
       id: listing.id,
       seller_id: listing.seller_id,
+      organization_id: listing.organization_id,
+      commodity_id: listing.commodity_id,
       mineral_type: listing.mineral_type,
       description: listing.description,
       quantity: listing.quantity,
       unit: listing.unit,
       price_per_unit: listing.price_per_unit,
+      canonical_unit: listing.canonical_unit,
+      normalized_quantity: listing.normalized_quantity,
+      normalized_price_per_unit: listing.normalized_price_per_unit,
       currency: listing.currency,
       location: listing.location,
       status: listing.status,
+      specifications: listing.specifications,
       listed_date: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
       last_updated: listing.updated_at instanceof Date ? listing.updated_at.toISOString() : listing.updated_at,
       created_at: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
@@ -152,6 +439,8 @@ export const getListingById = async (req: Request, res: Response, next: NextFunc
       seller_company_name: listing.seller_company_name, // Include joined data
       seller_location: listing.seller_location,         // Include joined data
       seller_compliance_status: listing.seller_compliance_status, // Include joined data
+      ...(conversion && { converted: toConvertedPrice(listing, conversion) }),
+      ...toFrontendAttachments(await listingAttachmentService.getAttachments(listingId)),
     };
 
     res.status(200).json(frontendListing);
@@ -161,7 +450,8 @@ export const getListingById = async (req: Request, res: Response, next: NextFunc
 };
 
 /**
- * Gets all mineral listings for a specific seller.
+ * Gets all mineral listings for a specific seller, or for one of the seller's
+ * organizations when `?organizationId=` is given.
  * Requires authentication.
  */
 export const getListingsBySeller = async (req: Request, res: Response, next: NextFunction) => {
@@ -171,19 +461,34 @@ export const getListingsBySeller = async (req: Request, res: Response, next: Nex
     }
     const sellerId = req.user.id; // Get listings for the authenticated user
 
-    const listings = await listingService.getListingsBySellerId(sellerId); // Correct method call
+    let listings: BackendListing[];
+    if (req.query.organizationId !== undefined) {
+      const organizationId = parseInt(req.query.organizationId as string);
+      if (isNaN(organizationId)) {
+        throw new ApplicationError('Invalid organization ID provided.', 400);
+      }
+      listings = await listingService.getListingsByOrganization(organizationId, sellerId);
+    } else {
+      listings = await listingService.getListingsBySellerId(sellerId); // Correct method call
+    }
 
     const frontendListings = listings.map((listing: BackendListing) => ({ // Explicitly type 'listing'
       id: listing.id,
       seller_id: listing.seller_id,
+      organization_id: listing.organization_id,
+      commodity_id: listing.commodity_id,
       mineral_type: listing.mineral_type,
       description: listing.description,
       quantity: listing.quantity,
       unit: listing.unit,
       price_per_unit: listing.price_per_unit,
+      canonical_unit: listing.canonical_unit,
+      normalized_quantity: listing.normalized_quantity,
+      normalized_price_per_unit: listing.normalized_price_per_unit,
       currency: listing.currency,
       location: listing.location,
       status: listing.status,
+      specifications: listing.specifications,
       listed_date: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
       last_updated: listing.updated_at instanceof Date ? listing.updated_at.toISOString() : listing.updated_at,
       created_at: listing.created_at instanceof Date ? listing.created_at.toISOString() : listing.created_at,
@@ -201,7 +506,7 @@ export const getListingsBySeller = async (req: Request, res: Response, next: Nex
 
 /**
  * Updates an existing mineral listing.
- * Requires authentication and ownership or 'admin' role.
+ * Requires authentication and ownership (or the 'listing.manage_any' permission).
  */
 export const updateListing = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -218,30 +523,69 @@ export const updateListing = async (req: Request, res: Response, next: NextFunct
     if (error) {
       throw new ApplicationError(error.details[0].message, 400);
     }
+    if (value.currency !== undefined) {
+      await assertListingCurrency(value.currency);
+    }
 
     // Ensure only the owner or an admin can update
     const existingListing = await listingService.getListingById(listingId); // Get without seller details for auth check
     if (!existingListing) {
       throw new ApplicationError('Listing not found.', 404);
     }
-    if (existingListing.seller_id !== req.user.id && req.user.role !== 'admin') {
-      throw new ApplicationError('Unauthorized: You can only update your own listings.', 403);
+    if (!(await listingService.canManageListing(existingListing, req.user.id, req.user.role))) {
+      throw new ApplicationError('Unauthorized: You can only update your own or your organization\'s listings.', 403);
+    }
+
+    // A listing's specifications only fit its commodity, so changing the commodity needs new ones
+    const { mineralType, pricePerUnit, specifications, unit: unitName, ...fields } = value;
+    const commodity = mineralType !== undefined ? await commodityService.resolveCommodity(mineralType) : null;
+    const commodityChanged = commodity !== null && commodity.id !== existingListing.commodity_id;
+    if (commodityChanged && specifications === undefined && existingListing.specifications) {
+      throw new ApplicationError('Send new specifications (or null) when changing the mineral type of a listing that has them.', 400);
+    }
+    const parsedSpecifications =
+      specifications && parseSpecifications(commodity ?? (await getListingCommodity(existingListing)), specifications);
+
+    // The normalised quantity and price follow the quantity, price and unit, and the unit must suit the commodity
+    let amounts = {};
+    if (commodity || unitName !== undefined || fields.quantity !== undefined || pricePerUnit !== undefined) {
+      const listingCommodity =
+        commodity ??
+        (existingListing.commodity_id ? await commodityService.getCommodityById(existingListing.commodity_id) : null);
+      amounts = normalizeAmounts(
+        fields.quantity ?? Number(existingListing.quantity),
+        pricePerUnit ?? Number(existingListing.price_per_unit),
+        parseUnit(unitName ?? existingListing.unit, listingCommodity)
+      );
     }
+    const updates: UpdateListingInput = {
+      ...fields,
+      ...(commodity && { commodity_id: commodity.id, mineral_type: commodity.name }),
+      ...(pricePerUnit !== undefined && { price_per_unit: pricePerUnit }),
+      ...(specifications !== undefined && { specifications: parsedSpecifications }),
+      ...amounts,
+    };
 
-    const updatedListing = await listingService.updateListing(listingId, value);
+    const updatedListing = await listingService.updateListing(listingId, updates);
 
     // Map BackendListing to Frontend Listing for response (seller details not needed here)
     const frontendListing = {
       id: updatedListing.id,
       seller_id: updatedListing.seller_id,
+      organization_id: updatedListing.organization_id,
+      commodity_id: updatedListing.commodity_id,
       mineral_type: updatedListing.mineral_type,
       description: updatedListing.description,
       quantity: updatedListing.quantity,
       unit: updatedListing.unit,
       price_per_unit: updatedListing.price_per_unit,
+      canonical_unit: updatedListing.canonical_unit,
+      normalized_quantity: updatedListing.normalized_quantity,
+      normalized_price_per_unit: updatedListing.normalized_price_per_unit,
       currency: updatedListing.currency,
       location: updatedListing.location,
       status: updatedListing.status,
+      specifications: updatedListing.specifications,
       listed_date: updatedListing.created_at instanceof Date ? updatedListing.created_at.toISOString() : updatedListing.created_at,
       last_updated: updatedListing.updated_at instanceof Date ? updatedListing.updated_at.toISOString() : updatedListing.updated_at,
       created_at: updatedListing.created_at instanceof Date ? updatedListing.created_at.toISOString() : updatedListing.created_at,
@@ -256,7 +600,7 @@ export const updateListing = async (req: Request, res: Response, next: NextFunct
 
 /**
  * Deletes a mineral listing.
- * Requires authentication and ownership or 'admin' role.
+ * Requires authentication and ownership (or the 'listing.manage_any' permission).
  */
 export const deleteListing = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -274,11 +618,11 @@ export const deleteListing = async (req: Request, res: Response, next: NextFunct
     if (!existingListing) {
       throw new ApplicationError('Listing not found.', 404);
     }
-    if (existingListing.seller_id !== req.user.id && req.user.role !== 'admin') {
-      throw new ApplicationError('Unauthorized: You can only delete your own listings.', 403);
+    if (!(await listingService.canManageListing(existingListing, req.user.id, req.user.role))) {
+      throw new ApplicationError('Unauthorized: You can only delete your own or your organization\'s listings.', 403);
     }
 
-    await listingService.deleteListing(listingId);
+    await listingService.deleteListing(listingId, getAuditContext(req));
     res.status(204).send(); // No content on successful deletion
   } catch (error) {
     next(error);
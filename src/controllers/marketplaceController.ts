@@ -10,7 +10,7 @@ import {
   getListingsBySeller,
 } from '../controllers/listingController.js'; // Ensure this path and filename casing is correct!
 import { authenticate } from '../middleware/authMiddleware.js';
-import { authorizeRoles } from '../middleware/authorizeMiddleware.js'; // This path must be correct!
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
 
 const router = Router();
 
@@ -21,13 +21,13 @@ router.get('/:id', getListingById);
 // Authenticated routes
 router.use(authenticate); // All routes below this will require authentication
 
-// Seller-specific routes (only 'miner' and 'admin' roles can manage listings)
-router.post('/', authorizeRoles(['miner', 'admin']), createListing);
-router.put('/:id', authorizeRoles(['miner', 'admin']), updateListing);
-router.delete('/:id', authorizeRoles(['miner', 'admin']), deleteListing);
+// Seller-specific routes (roles with the listing.* permissions, e.g. miners and admins)
+router.post('/', requirePermission('listing.create'), createListing);
+router.put('/:id', requirePermission('listing.update'), updateListing);
+router.delete('/:id', requirePermission('listing.delete'), deleteListing);
 
-// Get listings by the authenticated seller (miner/admin)
-router.get('/my-listings/seller', authorizeRoles(['miner', 'admin']), getListingsBySeller);
+// Get listings by the authenticated seller
+router.get('/my-listings/seller', requirePermission('listing.read_own'), getListingsBySeller);
 
 // Export as a named export for app.ts
 export const marketplaceRoutes = router; // Force new commit hash
@@ -2,6 +2,7 @@
 import { Request, Response, NextFunction } from 'express';
 import { OfferService } from '../services/offerService.js'; // Ensure .js extension
 import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
 import Joi from 'joi';
 
 const offerService = new OfferService();
@@ -13,6 +14,14 @@ const createOfferSchema = Joi.object({
   offer_quantity: Joi.number().positive().precision(4).required(),
   message: Joi.string().trim().max(500).optional().allow(''),
   currency: Joi.string().length(3).uppercase().required(), // Ensure currency is included
+  organization_id: Joi.number().integer().positive().optional(), // Make the offer on behalf of an organization
+});
+
+// Joi schema for cursor-paginated offer lists
+const offerPageSchema = Joi.object({
+  cursor: Joi.string().max(500).optional(), // `next` or `prev` from an earlier page
+  limit: Joi.number().integer().min(1).max(100).default(25),
+  organizationId: Joi.number().integer().positive().optional(), // Only used by my-offers
 });
 
 // Joi schema for offer status update validation
@@ -29,35 +38,46 @@ export const createOffer = async (req: Request, res: Response, next: NextFunctio
     }
 
     const buyerId = req.user!.id; // Get buyer ID from authenticated user
-    const offer = await offerService.createOffer({ ...value, buyer_id: buyerId });
+    // Organization-scoped API keys make offers on behalf of their organization by default
+    const organizationId = value.organization_id || req.user!.apiKey?.organizationId || undefined;
+    const offer = await offerService.createOffer({ ...value, organization_id: organizationId, buyer_id: buyerId });
     res.status(201).json(offer);
   } catch (error) {
     next(error);
   }
 };
 
-// Get offers for a specific listing (for sellers)
+// Get offers for a specific listing (for sellers), one cursor page at a time
 export const getOffersByListing = async (req: Request, res: Response, next: NextFunction) => {
   try {
     const listingId = parseInt(req.params.listingId);
     if (isNaN(listingId)) {
       throw new ApplicationError('Invalid listing ID.', 400);
     }
+    const { error, value } = offerPageSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
 
     const sellerId = req.user!.id; // Get seller ID from authenticated user
-    const offers = await offerService.getOffersByListing(listingId, sellerId);
-    res.status(200).json(offers);
+    const page = await offerService.getOffersByListing(listingId, sellerId, value.cursor, value.limit);
+    res.status(200).json(page);
   } catch (error) {
     next(error);
   }
 };
 
-// Get offers made by a specific buyer
+// Get offers made by a specific buyer (or by one of their organizations with ?organizationId=), one cursor page at a time
 export const getOffersByBuyer = async (req: Request, res: Response, next: NextFunction) => {
   try {
+    const { error, value } = offerPageSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
     const buyerId = req.user!.id; // Get buyer ID from authenticated user
-    const offers = await offerService.getOffersByBuyer(buyerId);
-    res.status(200).json(offers);
+    const page = await offerService.getOffersByBuyer(buyerId, value.organizationId, value.cursor, value.limit);
+    res.status(200).json(page);
   } catch (error) {
     next(error);
   }
@@ -77,7 +97,7 @@ export const updateOfferStatus = async (req: Request, res: Response, next: NextF
     }
 
     const sellerId = req.user!.id; // Get seller ID from authenticated user
-    const updatedOffer = await offerService.updateOfferStatus(offerId, sellerId, value.status);
+    const updatedOffer = await offerService.updateOfferStatus(offerId, sellerId, value.status, getAuditContext(req));
     res.status(200).json(updatedOffer);
   } catch (error) {
     next(error);
@@ -0,0 +1,181 @@
+// src/controllers/organizationController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { OrganizationService } from '../services/organizationService.js';
+import { OrganizationInvitation } from '../models/organizationModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const organizationService = new OrganizationService();
+
+// Joi schema for creating or renaming an organization
+const organizationSchema = Joi.object({
+  name: Joi.string().trim().min(2).max(100).required(),
+});
+
+// Joi schema for inviting a member
+const invitationSchema = Joi.object({
+  email: Joi.string().email().required(),
+  role: Joi.string().valid('owner', 'trader', 'viewer').default('trader'),
+});
+
+// Joi schema for accepting an invitation
+const acceptInvitationSchema = Joi.object({
+  token: Joi.string().trim().required(),
+});
+
+// Joi schema for changing a member's role
+const memberRoleSchema = Joi.object({
+  role: Joi.string().valid('owner', 'trader', 'viewer').required(),
+});
+
+// Strips the token hash from an invitation before it is sent to the client
+const toFrontendInvitation = (invitation: OrganizationInvitation) => ({
+  id: invitation.id,
+  organization_id: invitation.organization_id,
+  email: invitation.email,
+  role: invitation.role,
+  status: invitation.status,
+  invited_by: invitation.invited_by,
+  expires_at: invitation.expires_at,
+  accepted_at: invitation.accepted_at,
+  created_at: invitation.created_at,
+});
+
+// Parses a numeric route parameter or throws a 400
+const parseIdParam = (value: string, label: string): number => {
+  const id = parseInt(value);
+  if (isNaN(id)) {
+    throw new ApplicationError(`Invalid ${label} ID provided.`, 400);
+  }
+  return id;
+};
+
+// Create an organization owned by the authenticated user
+export const createOrganization = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = organizationSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const organization = await organizationService.createOrganization(req.user!.id, value.name);
+    res.status(201).json({ message: 'Organization created successfully!', organization });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List the organizations the authenticated user belongs to
+export const getMyOrganizations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizations = await organizationService.getOrganizationsForUser(req.user!.id);
+    res.status(200).json(organizations);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Get an organization with its members
+export const getOrganization = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const { organization, members } = await organizationService.getOrganization(organizationId, req.user!.id);
+    res.status(200).json({ ...organization, members });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Rename an organization (owners only)
+export const updateOrganization = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const { error, value } = organizationSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const organization = await organizationService.updateOrganization(organizationId, req.user!.id, value.name);
+    res.status(200).json({ message: 'Organization updated successfully.', organization });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Invite someone to join an organization (owners only)
+export const inviteMember = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const { error, value } = invitationSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const invitation = await organizationService.inviteMember(organizationId, req.user!.id, value.email, value.role);
+    res.status(201).json({ message: `Invitation sent to ${value.email}.`, invitation: toFrontendInvitation(invitation) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List an organization's invitations (owners only)
+export const getInvitations = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const invitations = await organizationService.getInvitations(organizationId, req.user!.id);
+    res.status(200).json(invitations.map(toFrontendInvitation));
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Revoke a pending invitation (owners only)
+export const revokeInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const invitationId = parseIdParam(req.params.invitationId, 'invitation');
+    await organizationService.revokeInvitation(organizationId, req.user!.id, invitationId);
+    res.status(200).json({ message: 'Invitation revoked.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Accept an invitation sent to the authenticated user's email
+export const acceptInvitation = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = acceptInvitationSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const membership = await organizationService.acceptInvitation(req.user!.id, value.token);
+    res.status(200).json({ message: 'Invitation accepted.', ...membership });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Change a member's role (owners only)
+export const updateMemberRole = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const memberId = parseIdParam(req.params.userId, 'user');
+    const { error, value } = memberRoleSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const member = await organizationService.updateMemberRole(organizationId, req.user!.id, memberId, value.role);
+    res.status(200).json({ message: 'Member role updated.', member });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Remove a member (owners), or leave the organization (any member)
+export const removeMember = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const organizationId = parseIdParam(req.params.id, 'organization');
+    const memberId = parseIdParam(req.params.userId, 'user');
+    await organizationService.removeMember(organizationId, req.user!.id, memberId);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
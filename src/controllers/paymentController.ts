@@ -4,8 +4,38 @@ import Stripe from 'stripe';
 import { config } from '../config/config.js';
 import { ApplicationError } from '../utils/applicationError.js';
 import { pgPool as pool } from '../config/database.js';
+import { AuditModel } from '../models/auditModel.js';
+import { getAuditContext } from '../utils/auditContext.js';
+import { PaymentService } from '../services/paymentService.js';
+import { FxRateService } from '../services/fxRateService.js';
+import { FxRateSnapshot } from '../models/fxRateModel.js';
+import Joi from 'joi';
 
 const stripe = new Stripe(config.stripeSecretKey as string);
+const auditModel = new AuditModel();
+const paymentService = new PaymentService();
+const fxRateService = new FxRateService();
+
+// Stripe's smallest charge is 50 US cents, or about the same in other currencies
+const MINIMUM_CHARGE_USD = 0.5;
+
+// Joi schema for starting a checkout
+const checkoutSessionSchema = Joi.object({
+  listing_id: Joi.number().integer().positive().required(),
+  offer_id: Joi.number().integer().positive().allow(null).optional(),
+  seller_id: Joi.number().integer().positive().required(),
+  mineralType: Joi.string().trim().max(100).required(), // Shown on the Stripe checkout page
+  final_price: Joi.number().positive().required(), // Total amount to charge
+  final_quantity: Joi.number().positive().required(),
+  currency: Joi.string().trim().length(3).uppercase().required(),
+});
+
+// Joi schema for the cursor-paginated transaction history
+const transactionHistorySchema = Joi.object({
+  cursor: Joi.string().max(500).optional(), // `next` or `prev` from an earlier page
+  limit: Joi.number().integer().min(1).max(100).default(25),
+  organizationId: Joi.number().integer().positive().optional(), // An organization's transactions instead of your own
+});
 
 // Interface for Transaction (matches database schema)
 interface Transaction {
@@ -13,6 +43,7 @@ interface Transaction {
   listing_id: number;
   buyer_id: number;
   seller_id: number;
+  organization_id?: number | null; // Buying organization, carried over from the offer
   offer_id?: number | null;
   final_price: number;
   final_quantity: number;
@@ -20,6 +51,7 @@ interface Transaction {
   transaction_date?: string;
   status?: 'pending' | 'completed' | 'failed' | 'refunded';
   payment_gateway_id?: string | null;
+  fx_snapshot?: FxRateSnapshot | null; // Exchange rate used at checkout
   created_at?: string;
   updated_at?: string;
 }
@@ -27,13 +59,16 @@ interface Transaction {
 // Create a Stripe Checkout Session
 export const createCheckoutSession = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const { listing_id, offer_id, seller_id, mineralType, final_price, final_quantity, currency } = req.body;
+    const { error, value } = checkoutSessionSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { listing_id, offer_id, seller_id, mineralType, final_price, final_quantity, currency } = value;
     const buyer_id = req.user!.id; // Get buyer ID from authenticated user
 
-    // Define minimum amounts with explicit type
-    const minimumAmounts: { [key: string]: number } = { 'USD': 50, 'GBP': 30, 'EUR': 30 };
-    // Access minimum amount safely, defaulting to 50 cents if currency is not found
-    const minimumAmount = minimumAmounts[currency.toUpperCase()] || 50;
+    // The rate is recorded on the transaction, so its value in US dollars stays known as rates change
+    const fxSnapshot = await fxRateService.getCheckoutSnapshot(currency, final_price);
+    const minimumAmount = Math.ceil(MINIMUM_CHARGE_USD * fxSnapshot.rate * 100);
     const amountInCents = Math.round(final_price * 100); // Convert to cents
 
     if (amountInCents < minimumAmount) {
@@ -65,11 +100,12 @@ export const createCheckoutSession = async (req: Request, res: Response, next: N
     // --- END NEW LOGIC ---
 
     // Create a pending transaction record in your database
+    // The buying organization (if any) is carried over from the offer so colleagues can see the deal
     const transactionResult = await pool.query(
-      `INSERT INTO transactions (listing_id, buyer_id, seller_id, offer_id, final_price, final_quantity, currency, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, 'pending')
+      `INSERT INTO transactions (listing_id, buyer_id, seller_id, offer_id, organization_id, final_price, final_quantity, currency, status, fx_snapshot)
+       VALUES ($1, $2, $3, $4, (SELECT organization_id FROM mineral_offers WHERE id = $4), $5, $6, $7, 'pending', $8)
        RETURNING id`,
-      [listing_id, buyer_id, seller_id, offer_id, final_price, final_quantity, currency]
+      [listing_id, buyer_id, seller_id, offer_id, final_price, final_quantity, currency, JSON.stringify(fxSnapshot)]
     );
     const transactionId = transactionResult.rows[0].id;
 
@@ -78,7 +114,7 @@ export const createCheckoutSession = async (req: Request, res: Response, next: N
       line_items: [
         {
           price_data: {
-            currency: currency,
+            currency: currency.toLowerCase(), // Stripe takes lowercase ISO codes
             product_data: {
               name: `${mineralType} (Listing ID: ${listing_id})`,
               description: `Quantity: ${final_quantity}`,
@@ -129,10 +165,20 @@ export const handleWebhook = async (req: Request, res: Response, next: NextFunct
 
       if (transactionId && paymentStatus === 'paid') {
         try {
+          const previous = await pool.query('SELECT status FROM transactions WHERE id = $1', [parseInt(transactionId)]);
           await pool.query(
             `UPDATE transactions SET status = 'completed', payment_gateway_id = $1, transaction_date = CURRENT_TIMESTAMP WHERE id = $2`,
             [paymentGatewayId, parseInt(transactionId)]
           );
+          // Webhooks have no user; the Stripe event ID ties the audit entry to the payment
+          await auditModel.recordEvent({
+            ...getAuditContext(req),
+            action: 'transaction.payment_completed',
+            entityType: 'transaction',
+            entityId: transactionId,
+            before: { status: previous.rows[0]?.status },
+            after: { status: 'completed', payment_gateway_id: paymentGatewayId, stripe_event_id: event.id },
+          });
           console.log(`Transaction ${transactionId} marked as completed.`);
           // You might want to update listing status, notify seller, etc. here
         } catch (dbError) {
@@ -148,10 +194,19 @@ export const handleWebhook = async (req: Request, res: Response, next: NextFunct
       const expiredTransactionId = expiredSession.metadata?.transactionId;
       if (expiredTransactionId) {
         try {
+          const previous = await pool.query('SELECT status FROM transactions WHERE id = $1', [parseInt(expiredTransactionId)]);
           await pool.query(
             `UPDATE transactions SET status = 'failed', transaction_date = CURRENT_TIMESTAMP WHERE id = $1`,
             [parseInt(expiredTransactionId)]
           );
+          await auditModel.recordEvent({
+            ...getAuditContext(req),
+            action: 'transaction.payment_expired',
+            entityType: 'transaction',
+            entityId: expiredTransactionId,
+            before: { status: previous.rows[0]?.status },
+            after: { status: 'failed', stripe_event_id: event.id },
+          });
           console.log(`Transaction ${expiredTransactionId} marked as failed (expired).`);
         } catch (dbError) {
           console.error(`Database update error for expired transaction ${expiredTransactionId}:`, dbError);
@@ -167,6 +222,20 @@ export const handleWebhook = async (req: Request, res: Response, next: NextFunct
   res.status(200).json({ received: true });
 };
 
+// Get the authenticated user's transactions, as buyer or seller (or one of their organizations' with ?organizationId=), one cursor page at a time
+export const getTransactionHistory = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = transactionHistorySchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const page = await paymentService.getTransactionHistory(req.user!.id, value.organizationId, value.cursor, value.limit);
+    res.status(200).json(page);
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Get transaction details by ID
 export const getTransactionDetails = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -0,0 +1,69 @@
+// src/controllers/roleController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { PermissionService } from '../services/permissionService.js';
+import { PERMISSIONS } from '../config/permissions.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
+
+const permissionService = new PermissionService();
+
+// Role names are stored in users.role, so keep them short and URL-safe
+const roleNameSchema = Joi.string().pattern(/^[a-z][a-z0-9_-]{1,49}$/).required().messages({
+  'string.pattern.base': 'Role names must be 2-50 lowercase letters, digits, hyphens or underscores.',
+});
+
+// Joi schema for creating a role or replacing its permissions
+const saveRoleSchema = Joi.object({
+  description: Joi.string().trim().max(255).optional().allow(null, ''),
+  permissions: Joi.array().items(Joi.string()).required(),
+});
+
+// List every permission in the registry
+export const getPermissions = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const permissions = Object.entries(PERMISSIONS).map(([name, description]) => ({ name, description }));
+    res.status(200).json(permissions);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// List roles with their permissions
+export const getRoles = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const roles = await permissionService.getRoles();
+    res.status(200).json(roles);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Create a role or replace its permissions
+export const saveRole = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error: nameError, value: name } = roleNameSchema.validate(req.params.name);
+    if (nameError) {
+      throw new ApplicationError(nameError.details[0].message, 400);
+    }
+    const { error, value } = saveRoleSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const role = await permissionService.saveRole(getAuditContext(req), name, value.permissions, value.description || null);
+    res.status(200).json({ message: `Role '${name}' saved.`, role: { ...role, permissions: value.permissions } });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Delete a custom role that is no longer assigned to anyone
+export const deleteRole = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    await permissionService.deleteRole(getAuditContext(req), req.params.name);
+    res.status(204).send();
+  } catch (error) {
+    next(error);
+  }
+};
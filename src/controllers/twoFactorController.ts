@@ -0,0 +1,76 @@
+// src/controllers/twoFactorController.ts
+import { Request, Response, NextFunction } from 'express';
+import Joi from 'joi';
+import { TwoFactorService } from '../services/twoFactorService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const twoFactorService = new TwoFactorService();
+
+// Joi schema for endpoints that require a current TOTP (or recovery) code
+const codeSchema = Joi.object({
+  code: Joi.string().trim().required(),
+});
+
+// Start TOTP enrolment for the authenticated user
+export const setupTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const { secret, otpauthUri } = await twoFactorService.beginSetup(req.user.id);
+    res.status(200).json({ message: 'Scan the QR code with your authenticator app, then confirm with a code.', secret, otpauthUri });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm TOTP enrolment with a code from the authenticator app
+export const confirmTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const { error, value } = codeSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const recoveryCodes = await twoFactorService.confirmSetup(req.user.id, value.code);
+    res.status(200).json({ message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.', recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Turn off two-factor authentication (not allowed for roles with administrative permissions)
+export const disableTwoFactor = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const { error, value } = codeSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    await twoFactorService.disable(req.user.id, value.code);
+    res.status(200).json({ message: 'Two-factor authentication disabled.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Replace all recovery codes with a new set
+export const regenerateRecoveryCodes = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const { error, value } = codeSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const recoveryCodes = await twoFactorService.regenerateRecoveryCodes(req.user.id, value.code);
+    res.status(200).json({ message: 'New recovery codes generated. Previous codes no longer work.', recoveryCodes });
+  } catch (error) {
+    next(error);
+  }
+};
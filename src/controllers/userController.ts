@@ -1,12 +1,15 @@
 // src/controllers/userController.ts
 import { Request, Response, NextFunction } from 'express';
 import { UserService } from '../services/userService.js'; // Assuming UserService exists and uses UserModel
+import { AccountService } from '../services/accountService.js';
 import { ApplicationError } from '../utils/applicationError.js';
+import { getAuditContext } from '../utils/auditContext.js';
 import Joi from 'joi';
 // Corrected import: Ensure BackendUser and UserInput are imported ONLY from userModel.js
-import { BackendUser, UserInput } from '../models/userModel.js'; // Correct path and source for types
+import { BackendUser, UserInput, UserDirectoryEntry, USER_SORT_FIELDS } from '../models/userModel.js'; // Correct path and source for types
 
 const userService = new UserService();
+const accountService = new AccountService();
 
 // Joi schema for user registration validation
 const registerSchema = Joi.object({
@@ -14,10 +17,11 @@ const registerSchema = Joi.object({
   lastName: Joi.string().trim().min(2).max(50).required(),
   email: Joi.string().email().required(),
   password: Joi.string().min(8).required(),
-  role: Joi.string().valid('buyer', 'miner', 'admin').default('buyer'),
+  role: Joi.string().valid('buyer', 'miner').default('buyer'), // Admins are created via the CLI or promoted by an admin
   companyName: Joi.string().trim().min(1).max(100).required(), // Made mandatory
   phoneNumber: Joi.string().trim().optional().allow(''), // Optional
   location: Joi.string().trim().min(1).max(100).required(), // Made mandatory
+  invitationCode: Joi.string().trim().max(64).optional(), // Required for any role but buyer; decides the role
 });
 
 // Joi schema for user login validation
@@ -26,6 +30,38 @@ const loginSchema = Joi.object({
   password: Joi.string().required(),
 });
 
+// Joi schema for the second step of a two-factor login (or mandatory enrolment)
+const twoFactorChallengeSchema = Joi.object({
+  challengeToken: Joi.string().trim().required(),
+  code: Joi.string().trim().required(),
+});
+
+// Joi schema for starting the mandatory 2FA enrolment during login
+const twoFactorSetupStartSchema = Joi.object({
+  challengeToken: Joi.string().trim().required(),
+});
+
+// Joi schema for refreshing an access token
+const refreshTokenSchema = Joi.object({
+  refreshToken: Joi.string().trim().required(),
+});
+
+// Joi schema for resending the email verification link
+const resendVerificationSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+// Joi schema for requesting a password reset email
+const forgotPasswordSchema = Joi.object({
+  email: Joi.string().email().required(),
+});
+
+// Joi schema for setting a new password with a reset token
+const resetPasswordSchema = Joi.object({
+  token: Joi.string().trim().required(),
+  password: Joi.string().min(8).required(),
+});
+
 // Joi schema for user profile update validation
 const profileUpdateSchema = Joi.object({
   firstName: Joi.string().trim().min(2).max(50).optional(),
@@ -40,11 +76,81 @@ const profileUpdateSchema = Joi.object({
   requiredRegulations: Joi.array().items(Joi.string().trim()).optional(),
 });
 
+// Joi schema for role changes (Admin-only)
+const roleUpdateSchema = Joi.object({
+  role: Joi.string().trim().max(50).required(), // Must be a built-in role or one created under /api/admin/roles
+});
+
 // Joi schema for compliance status update (Admin-only)
 const complianceStatusUpdateSchema = Joi.object({
   status: Joi.string().valid('pending', 'compliant', 'non_compliant').required(),
 });
 
+// Joi schema for the personal data export format
+const exportFormatSchema = Joi.object({
+  format: Joi.string().valid('json', 'zip').default('json'),
+});
+
+// Joi schema for account deletion: the password (and 2FA code, if enabled) must be re-entered
+const deleteAccountSchema = Joi.object({
+  password: Joi.string().required(),
+  code: Joi.string().trim().optional(),
+});
+
+// Map BackendUser to the camelCase user shape the frontend expects (never exposes password_hash or secrets)
+const toFrontendUser = (user: BackendUser) => ({
+  id: user.id,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  email: user.email,
+  role: user.role,
+  emailVerified: user.email_verified,
+  twoFactorEnabled: user.two_factor_enabled ?? false,
+  memberSince: user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A',
+  companyName: user.company_name,
+  phoneNumber: user.phone_number,
+  location: user.location,
+  complianceStatus: user.compliance_status,
+  preferredMineralTypes: user.preferred_mineral_types || [],
+  minimumPurchaseQuantity: user.minimum_purchase_quantity,
+  requiredRegulations: user.required_regulations || [],
+});
+
+// Joi schema for admin user directory filters, sorting and paging
+const userSearchSchema = Joi.object({
+  search: Joi.string().trim().max(100).optional(), // Matches name, email or company
+  role: Joi.string().trim().max(50).optional(),
+  complianceStatus: Joi.string().valid('pending', 'compliant', 'non_compliant').optional(),
+  signedUpFrom: Joi.date().iso().optional(),
+  signedUpTo: Joi.date().iso().optional(),
+  includeDeleted: Joi.boolean().default(false),
+  sort: Joi.string().valid(...USER_SORT_FIELDS).default('createdAt'),
+  order: Joi.string().valid('asc', 'desc').default('desc'),
+  page: Joi.number().integer().min(1).default(1),
+  pageSize: Joi.number().integer().min(1).max(100).default(25),
+});
+
+// Maps a user directory row to the admin-facing shape
+const toDirectoryUser = (user: UserDirectoryEntry) => ({
+  id: user.id,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  email: user.email,
+  role: user.role,
+  companyName: user.company_name,
+  location: user.location,
+  complianceStatus: user.compliance_status,
+  emailVerified: user.email_verified,
+  twoFactorEnabled: user.two_factor_enabled,
+  createdAt: user.created_at,
+  deletedAt: user.deleted_at,
+  activity: {
+    listingCount: user.listing_count,
+    offerCount: user.offer_count,
+    gmvByCurrency: user.gmv,
+  },
+});
+
 // Register a new user
 export const registerUser = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -53,25 +159,12 @@ export const registerUser = async (req: Request, res: Response, next: NextFuncti
       throw new ApplicationError(error.details[0].message, 400);
     }
     // Pass all validated fields to the service layer
-    const { user, token } = await userService.registerUser(value);
-    // Map BackendUser to Frontend User for response
-    const frontendUser = {
-      id: user.id,
-      firstName: user.first_name,
-      lastName: user.last_name,
-      email: user.email,
-      role: user.role,
-      emailVerified: user.email_verified,
-      memberSince: user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A',
-      companyName: user.company_name,
-      phoneNumber: user.phone_number,
-      location: user.location,
-      complianceStatus: user.compliance_status,
-      preferredMineralTypes: user.preferred_mineral_types || [],
-      minimumPurchaseQuantity: user.minimum_purchase_quantity,
-      requiredRegulations: user.required_regulations || [],
-    };
-    res.status(201).json({ message: 'User registered successfully!', user: frontendUser, token });
+    const { user, token, refreshToken } = await userService.registerUser(value, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+    const frontendUser = toFrontendUser(user);
+    res.status(201).json({ message: 'User registered successfully!', user: frontendUser, token, refreshToken });
   } catch (error) {
     next(error);
   }
@@ -85,25 +178,180 @@ export const loginUser = async (req: Request, res: Response, next: NextFunction)
       throw new ApplicationError(error.details[0].message, 400);
     }
     const { email, password } = value;
-    const { user, token } = await userService.loginUser(email, password);
-    // Map BackendUser to Frontend User for response
-    const frontendUser = {
-      id: user.id,
-      firstName: user.first_name,
-      lastName: user.last_name,
-      email: user.email,
-      role: user.role,
-      emailVerified: user.email_verified,
-      memberSince: user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A',
-      companyName: user.company_name,
-      phoneNumber: user.phone_number,
-      location: user.location,
-      complianceStatus: user.compliance_status,
-      preferredMineralTypes: user.preferred_mineral_types || [],
-      minimumPurchaseQuantity: user.minimum_purchase_quantity,
-      requiredRegulations: user.required_regulations || [],
-    };
-    res.status(200).json({ message: 'Logged in successfully!', user: frontendUser, token });
+    const result = await userService.loginUser(email, password, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+    if ('challengeToken' in result) {
+      // Password was correct, but tokens are only issued after the second step
+      res.status(200).json({
+        message: result.challenge === 'two_factor_required'
+          ? 'Two-factor authentication code required.'
+          : 'Two-factor authentication must be set up before you can log in.',
+        challenge: result.challenge,
+        challengeToken: result.challengeToken,
+      });
+      return;
+    }
+    const { user, token, refreshToken } = result;
+    const frontendUser = toFrontendUser(user);
+    res.status(200).json({ message: 'Logged in successfully!', user: frontendUser, token, refreshToken });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Complete a two-step login with a TOTP or recovery code
+export const verifyTwoFactorLogin = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = twoFactorChallengeSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { user, token, refreshToken } = await userService.completeTwoFactorLogin(value.challengeToken, value.code, {
+      userAgent: req.get('user-agent'),
+      ipAddress: req.ip,
+    });
+    res.status(200).json({ message: 'Logged in successfully!', user: toFrontendUser(user), token, refreshToken });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Start the mandatory 2FA enrolment during login (admins without 2FA)
+export const beginRequiredTwoFactorSetup = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = twoFactorSetupStartSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { secret, otpauthUri } = await userService.beginRequiredTwoFactorSetup(value.challengeToken);
+    res.status(200).json({ message: 'Scan the QR code with your authenticator app, then confirm with a code.', secret, otpauthUri });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Confirm the mandatory 2FA enrolment and log in
+export const confirmRequiredTwoFactorSetup = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = twoFactorChallengeSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { user, recoveryCodes, token, refreshToken } = await userService.completeRequiredTwoFactorSetup(
+      value.challengeToken,
+      value.code,
+      { userAgent: req.get('user-agent'), ipAddress: req.ip }
+    );
+    res.status(200).json({
+      message: 'Two-factor authentication enabled. Store your recovery codes somewhere safe.',
+      user: toFrontendUser(user),
+      recoveryCodes,
+      token,
+      refreshToken,
+    });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Exchange a refresh token for a new access token (the refresh token is rotated)
+export const refreshToken = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = refreshTokenSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const tokens = await userService.refreshSession(value.refreshToken);
+    res.status(200).json({ message: 'Token refreshed successfully.', ...tokens });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Log out of the current session
+export const logout = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user || !req.user.sessionId) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    await userService.logout(req.user.sessionId);
+    res.status(200).json({ message: 'Logged out successfully.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Log out of every session the user has, on all devices
+export const logoutAllDevices = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const revokedSessions = await userService.logoutAllDevices(req.user.id);
+    res.status(200).json({ message: 'Logged out of all devices.', revokedSessions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Verify a user's email address from the emailed link
+export const verifyEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { token } = req.params;
+    if (!token) {
+      throw new ApplicationError('Verification token is required.', 400);
+    }
+    const verified = await userService.verifyEmail(token);
+    if (!verified) {
+      throw new ApplicationError('Invalid or expired verification token.', 400);
+    }
+    res.status(200).json({ message: 'Email verified successfully.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Resend the email verification link
+export const resendVerificationEmail = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = resendVerificationSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    await userService.resendVerificationEmail(value.email);
+    // Same response whether or not the account exists, to avoid leaking registered emails
+    res.status(200).json({ message: 'If an unverified account exists for this email, a new verification link has been sent.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Request a password reset email
+export const forgotPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = forgotPasswordSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    await userService.requestPasswordReset(value.email);
+    // Same response whether or not the account exists, to avoid leaking registered emails
+    res.status(200).json({ message: 'If an account exists for this email, a password reset link has been sent.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Set a new password using a reset token
+export const resetPassword = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = resetPasswordSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    await userService.resetPassword(value.token, value.password);
+    res.status(200).json({ message: 'Password has been reset successfully. Please log in with your new password.' });
   } catch (error) {
     next(error);
   }
@@ -119,29 +367,58 @@ export const getProfile = async (req: Request, res: Response, next: NextFunction
     if (!user) {
       throw new ApplicationError('User not found.', 404);
     }
-    // Map BackendUser to Frontend User for response, including all new fields
-    const frontendUser = {
-      id: user.id,
-      firstName: user.first_name,
-      lastName: user.last_name,
-      email: user.email,
-      role: user.role,
-      emailVerified: user.email_verified,
-      memberSince: user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A',
-      companyName: user.company_name,
-      phoneNumber: user.phone_number,
-      location: user.location,
-      complianceStatus: user.compliance_status,
-      preferredMineralTypes: user.preferred_mineral_types || [],
-      minimumPurchaseQuantity: user.minimum_purchase_quantity,
-      requiredRegulations: user.required_regulations || [],
-    };
+    const frontendUser = toFrontendUser(user);
     res.status(200).json(frontendUser);
   } catch (error) {
     next(error);
   }
 };
 
+// Download all personal data held about the authenticated user (?format=zip for a ZIP archive)
+export const exportMyData = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const { error, value } = exportFormatSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const data = await accountService.exportPersonalData(req.user.id);
+    const fileName = `mining-marketplace-export-${req.user.id}-${data.exportedAt.slice(0, 10)}`;
+    if (value.format === 'zip') {
+      const archive = await accountService.buildExportArchive(data);
+      res.setHeader('Content-Type', 'application/zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.zip"`);
+      res.status(200).send(archive);
+      return;
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="${fileName}.json"`);
+    res.status(200).json(data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Close the authenticated user's account, anonymizing their personal data
+export const deleteMyAccount = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const { error, value } = deleteAccountSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    await accountService.deleteAccount(req.user.id, value.password, value.code, getAuditContext(req));
+    res.status(200).json({ message: 'Your account has been deleted and your personal data anonymized.' });
+  } catch (error) {
+    next(error);
+  }
+};
+
 // Update user profile
 export const updateProfile = async (req: Request, res: Response, next: NextFunction) => {
   try {
@@ -179,23 +456,7 @@ export const updateProfile = async (req: Request, res: Response, next: NextFunct
 
     const updatedUser = await userService.updateUserProfile(req.user.id, updates);
 
-    // Map BackendUser to Frontend User for response
-    const frontendUser = {
-      id: updatedUser.id,
-      firstName: updatedUser.first_name,
-      lastName: updatedUser.last_name,
-      email: updatedUser.email,
-      role: updatedUser.role,
-      emailVerified: updatedUser.email_verified,
-      memberSince: updatedUser.created_at ? new Date(updatedUser.created_at).toLocaleDateString() : 'N/A',
-      companyName: updatedUser.company_name,
-      phoneNumber: updatedUser.phone_number,
-      location: updatedUser.location,
-      complianceStatus: updatedUser.compliance_status,
-      preferredMineralTypes: updatedUser.preferred_mineral_types || [],
-      minimumPurchaseQuantity: updatedUser.minimum_purchase_quantity,
-      requiredRegulations: updatedUser.required_regulations || [],
-    };
+    const frontendUser = toFrontendUser(updatedUser);
 
     res.status(200).json({ message: 'Profile updated successfully.', user: frontendUser });
   } catch (error) {
@@ -217,25 +478,9 @@ export const setUserComplianceStatus = async (req: Request, res: Response, next:
     }
 
     const { status } = value;
-    const updatedUser = await userService.updateUserComplianceStatus(userIdToUpdate, status);
-
-    // Map BackendUser to Frontend User for response
-    const frontendUser = {
-      id: updatedUser.id,
-      firstName: updatedUser.first_name,
-      lastName: updatedUser.last_name,
-      email: updatedUser.email,
-      role: updatedUser.role,
-      emailVerified: updatedUser.email_verified,
-      memberSince: updatedUser.created_at ? new Date(updatedUser.created_at).toLocaleDateString() : 'N/A',
-      companyName: updatedUser.company_name,
-      phoneNumber: updatedUser.phone_number,
-      location: updatedUser.location,
-      complianceStatus: updatedUser.compliance_status, // Include compliance status
-      preferredMineralTypes: updatedUser.preferred_mineral_types || [],
-      minimumPurchaseQuantity: updatedUser.minimum_purchase_quantity,
-      requiredRegulations: updatedUser.required_regulations || [],
-    };
+    const updatedUser = await userService.updateUserComplianceStatus(userIdToUpdate, status, getAuditContext(req));
+
+    const frontendUser = toFrontendUser(updatedUser);
 
     res.status(200).json({ message: `User ${userIdToUpdate} compliance status updated to ${status}.`, user: frontendUser });
   } catch (error) {
@@ -243,28 +488,58 @@ export const setUserComplianceStatus = async (req: Request, res: Response, next:
   }
 };
 
-// NEW: Admin-only endpoint to get all users
-export const getAllUsers = async (req: Request, res: Response, next: NextFunction) => {
+// Admin-only endpoint to change a user's role
+export const setUserRole = async (req: Request, res: Response, next: NextFunction) => {
   try {
-    const users = await userService.getAllUsers();
-    // You might want to filter sensitive information like password_hash before sending
-    const safeUsers = users.map(user => ({
-      id: user.id,
-      firstName: user.first_name, // Map to camelCase for frontend
-      lastName: user.last_name,   // Map to camelCase for frontend
-      email: user.email,
-      role: user.role,
-      emailVerified: user.email_verified,
-      memberSince: user.created_at ? new Date(user.created_at).toLocaleDateString() : 'N/A',
-      companyName: user.company_name, // NEW
-      phoneNumber: user.phone_number, // NEW
-      location: user.location, // NEW
-      complianceStatus: user.compliance_status, // Include compliance status
-      preferredMineralTypes: user.preferred_mineral_types || [], // NEW
-      minimumPurchaseQuantity: user.minimum_purchase_quantity, // NEW
-      requiredRegulations: user.required_regulations || [], // NEW
-    }));
-    res.status(200).json(safeUsers);
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const userIdToUpdate = parseInt(req.params.id);
+    if (isNaN(userIdToUpdate)) {
+      throw new ApplicationError('Invalid user ID provided.', 400);
+    }
+
+    const { error, value } = roleUpdateSchema.validate(req.body);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+
+    const updatedUser = await userService.updateUserRole(getAuditContext(req), userIdToUpdate, value.role);
+    res.status(200).json({ message: `User ${userIdToUpdate} role updated to ${updatedUser.role}.`, user: toFrontendUser(updatedUser) });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Admin-only endpoint to lift a login lockout
+export const unlockUser = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    if (!req.user) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    const userIdToUnlock = parseInt(req.params.id);
+    if (isNaN(userIdToUnlock)) {
+      throw new ApplicationError('Invalid user ID provided.', 400);
+    }
+
+    await userService.unlockUser(getAuditContext(req), userIdToUnlock);
+    res.status(200).json({ message: `User ${userIdToUnlock} can log in again.` });
+  } catch (error) {
+    next(error);
+  }
+};
+
+// Admin user directory: search, filter and sort users one page at a time
+export const searchUsers = async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { error, value } = userSearchSchema.validate(req.query);
+    if (error) {
+      throw new ApplicationError(error.details[0].message, 400);
+    }
+    const { sort, order, page, pageSize, ...filter } = value;
+
+    const result = await userService.searchUsers(filter, { field: sort, direction: order }, page, pageSize);
+    res.status(200).json({ ...result, users: result.users.map(toDirectoryUser) });
   } catch (error) {
     next(error);
   }
@@ -2,6 +2,12 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { ApplicationError } from '../utils/applicationError.js'; // Assuming this utility exists
+import { UserModel } from '../models/userModel.js';
+import { SessionModel } from '../models/sessionModel.js';
+import { ApiKeyService, ApiKeyScope, API_KEY_PREFIX } from '../services/apiKeyService.js';
+import { ImpersonationService, ImpersonationTokenPayload } from '../services/impersonationService.js';
+import { PermissionService } from '../services/permissionService.js';
+import { getAuditContext } from '../utils/auditContext.js';
 
 // Extend the Request type to include a user property
 declare global {
@@ -9,19 +15,116 @@ declare global {
     interface Request {
       user?: {
         id: number;
-        role: 'buyer' | 'miner' | 'admin';
+        role: string;
+        sessionId?: number;
+        // Set when the request was authenticated with an API key instead of a login session
+        apiKey?: {
+          id: number;
+          scopes: string[];
+          organizationId: number | null;
+        };
+        // Set while an admin views the API as this user; `id` and `role` are the
+        // impersonated user's, this is the admin actually making the request
+        impersonator?: {
+          id: number;
+          role: string;
+          sessionId: number;
+        };
       };
     }
   }
 }
 
 const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret_key'; // Use environment variable for secret
+const userModel = new UserModel();
+const sessionModel = new SessionModel();
+const apiKeyService = new ApiKeyService();
+const impersonationService = new ImpersonationService();
+const permissionService = new PermissionService();
+
+// Impersonation is for looking, not acting: only these methods are allowed
+const IMPERSONATION_SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Authenticates a request made with an API key and attaches the key's user and scopes.
+ */
+const authenticateApiKey = async (req: Request, key: string, next: NextFunction) => {
+  try {
+    const { apiKey, user } = await apiKeyService.authenticateApiKey(key, req.ip);
+
+    // API keys must not become a way around mandatory two-factor authentication
+    if (!user.two_factor_enabled && (await permissionService.requiresTwoFactor(user.role))) {
+      return next(new ApplicationError('Two-factor authentication must be enabled for accounts with administrative permissions.', 403));
+    }
+
+    req.user = {
+      id: user.id,
+      role: user.role,
+      apiKey: {
+        id: apiKey.id,
+        scopes: apiKey.scopes,
+        organizationId: apiKey.organization_id,
+      },
+    };
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
 
 /**
- * Middleware to authenticate requests using JWT.
+ * Authenticates a request made with an impersonation token. The request acts as the
+ * impersonated user, is read-only, and is recorded in the audit log once it completes.
  */
-export const authenticate = (req: Request, res: Response, next: NextFunction) => {
+const authenticateImpersonation = async (req: Request, res: Response, payload: ImpersonationTokenPayload, next: NextFunction) => {
+  try {
+    const { user, impersonator, sessionId } = await impersonationService.resolveImpersonation(payload);
+
+    req.user = {
+      id: user.id,
+      role: user.role,
+      impersonator: { id: impersonator.id, role: impersonator.role, sessionId },
+    };
+    // Lets clients show that they are looking at someone else's account
+    res.setHeader('X-Impersonated-By', String(impersonator.id));
+
+    const context = getAuditContext(req);
+    res.on('finish', () => {
+      impersonationService
+        .recordImpersonatedRequest(context, user.id, {
+          method: req.method,
+          path: req.originalUrl,
+          statusCode: res.statusCode,
+        })
+        .catch((error) => console.error('Failed to record impersonated request:', error));
+    });
+
+    if (!IMPERSONATION_SAFE_METHODS.includes(req.method)) {
+      return next(new ApplicationError('Changes cannot be made while impersonating a user.', 403));
+    }
+    next();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Middleware to authenticate requests using JWT or an API key.
+ * API keys are accepted in an `X-API-Key` header or as a Bearer token starting with `mmk_`.
+ * Tokens whose session has been revoked (logout, log out all devices) or that were issued
+ * before the user's token version was bumped (e.g. by a password reset) are rejected.
+ */
+export const authenticate = async (req: Request, res: Response, next: NextFunction) => {
   const authHeader = req.headers.authorization;
+  const apiKeyHeader = req.headers['x-api-key'];
+
+  if (typeof apiKeyHeader === 'string' && apiKeyHeader) {
+    return authenticateApiKey(req, apiKeyHeader, next);
+  }
+  if (authHeader && authHeader.startsWith(`Bearer ${API_KEY_PREFIX}`)) {
+    return authenticateApiKey(req, authHeader.split(' ')[1], next);
+  }
+
   console.log('🔍 Auth middleware called - checking JWT token...');
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
@@ -32,18 +135,19 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
   const token = authHeader.split(' ')[1];
   console.log('🔍 Extracted token:', token.substring(0, 5) + '...'); // Log first few chars
 
+  let decoded: {
+    id: number;
+    role: string;
+    tv?: number;
+    sid?: number;
+    imp?: ImpersonationTokenPayload['imp'];
+    iat: number;
+    exp: number;
+  };
   try {
     // Verify the token using the secret
-    const decoded = jwt.verify(token, JWT_SECRET) as { id: number; role: 'buyer' | 'miner' | 'admin'; iat: number; exp: number };
+    decoded = jwt.verify(token, JWT_SECRET) as typeof decoded;
     console.log('✅ JWT token verified successfully:', decoded);
-
-    // Attach user information to the request object
-    // IMPORTANT: Use 'role' (singular) as per your JWT payload
-    req.user = {
-      id: decoded.id,
-      role: decoded.role,
-    };
-    next(); // Proceed to the next middleware/route handler
   } catch (error: any) {
     console.log('❌ JWT token verification failed:', error.message);
     if (error.name === 'TokenExpiredError') {
@@ -53,27 +157,76 @@ export const authenticate = (req: Request, res: Response, next: NextFunction) =>
     console.log('❌ Global Error Handler Caught: ApplicationError: Invalid authentication token.');
     return next(new ApplicationError('Invalid authentication token.', 401));
   }
+
+  if (decoded.imp) {
+    return authenticateImpersonation(req, res, { id: decoded.id, tv: decoded.tv ?? 0, imp: decoded.imp }, next);
+  }
+
+  try {
+    // Every access token must belong to a live server-side session
+    const session = decoded.sid ? await sessionModel.getSessionById(decoded.sid) : null;
+    if (!session || session.user_id !== decoded.id || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      console.log('❌ JWT session missing, revoked or expired.');
+      return next(new ApplicationError('Authentication token has been revoked.', 401));
+    }
+
+    // Reject tokens that were revoked by bumping the user's token version
+    const user = await userModel.getUserById(decoded.id);
+    if (!user || (user.token_version ?? 0) !== (decoded.tv ?? 0)) {
+      console.log('❌ JWT token has been revoked.');
+      return next(new ApplicationError('Authentication token has been revoked.', 401));
+    }
+
+    // Accounts with administrative permissions are unusable until they have enrolled in two-factor authentication
+    if (!user.two_factor_enabled && (await permissionService.requiresTwoFactor(user.role))) {
+      return next(new ApplicationError('Two-factor authentication must be enabled for accounts with administrative permissions.', 403));
+    }
+
+    // Attach user information to the request object
+    // The role is read from the database rather than the JWT so role changes apply immediately
+    req.user = {
+      id: decoded.id,
+      role: user.role,
+      sessionId: session.id,
+    };
+    next(); // Proceed to the next middleware/route handler
+  } catch (error) {
+    next(error);
+  }
 };
 
 /**
- * Middleware to authorize requests based on user roles.
- * @param allowedRoles - An array of roles that are allowed to access the route.
+ * Middleware that lets API-key requests through only if the key was granted the scope.
+ * Requests authenticated with a login session are not limited by scopes.
+ * @param scope - The scope the route requires.
  */
-export const authorizeRoles = (allowedRoles: Array<'buyer' | 'miner' | 'admin'>) => {
+export const requireScope = (scope: ApiKeyScope) => {
   return (req: Request, res: Response, next: NextFunction) => {
-    // Check if user is authenticated and has a role
-    if (!req.user || !req.user.role) {
-      console.log('❌ Access denied: User not authenticated or role missing.');
-      return next(new ApplicationError('Access denied: Authentication required.', 403));
+    if (req.user?.apiKey && !req.user.apiKey.scopes.includes(scope)) {
+      return next(new ApplicationError(`This API key is missing the '${scope}' scope.`, 403));
     }
+    next();
+  };
+};
 
-    // Check if the user's single role is included in the allowedRoles array
-    // This is the line that was likely causing the error if it was trying to access roles[0]
-    if (!allowedRoles.includes(req.user.role)) {
-      console.log(`❌ Access denied: User role '${req.user.role}' not in allowed roles [${allowedRoles.join(', ')}].`);
-      return next(new ApplicationError('Access denied: Insufficient permissions.', 403));
-    }
+/**
+ * Middleware that rejects API-key requests. Used for account, security and organization
+ * management, which must only be reachable from an interactive login.
+ */
+export const requireSession = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.apiKey) {
+    return next(new ApplicationError('This endpoint cannot be used with an API key.', 403));
+  }
+  next();
+};
 
-    next(); // User has the required role, proceed
-  };
+/**
+ * Middleware that rejects impersonated requests. Used for reads that hand over a user's
+ * data wholesale (such as the personal data export) rather than showing what they see.
+ */
+export const forbidImpersonation = (req: Request, res: Response, next: NextFunction) => {
+  if (req.user?.impersonator) {
+    return next(new ApplicationError('This endpoint is not available while impersonating a user.', 403));
+  }
+  next();
 };
@@ -0,0 +1,25 @@
+// src/middleware/requestIdMiddleware.ts
+import { Request, Response, NextFunction } from 'express';
+import { randomUUID } from 'crypto';
+
+declare global {
+  namespace Express {
+    interface Request {
+      requestId?: string;
+    }
+  }
+}
+
+// Accept IDs from an upstream proxy only if they look like IDs, so they are safe to log
+const VALID_REQUEST_ID = /^[A-Za-z0-9._-]{1,128}$/;
+
+/**
+ * Middleware that gives every request an ID, reusing a valid incoming `X-Request-Id`
+ * header if present. The ID is echoed in the response and recorded with audit events.
+ */
+export const requestId = (req: Request, res: Response, next: NextFunction) => {
+  const incoming = req.get('x-request-id');
+  req.requestId = incoming && VALID_REQUEST_ID.test(incoming) ? incoming : randomUUID();
+  res.setHeader('X-Request-Id', req.requestId);
+  next();
+};
@@ -0,0 +1,36 @@
+// src/middleware/uploadMiddleware.ts
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import { ApplicationError } from '../utils/applicationError.js';
+
+/**
+ * Middleware to accept a single file from a multipart/form-data request. The file is kept
+ * in memory (req.file.buffer) and the other form fields are parsed into req.body.
+ * Must run after `authenticate`, so anonymous clients cannot upload.
+ * @param field - Name of the form field holding the file.
+ * @param maxSizeMb - Largest accepted file, in megabytes.
+ */
+export const uploadSingleFile = (field: string, maxSizeMb: number) => {
+  const upload = multer({
+    storage: multer.memoryStorage(),
+    limits: { fileSize: maxSizeMb * 1024 * 1024, files: 1, fields: 10 },
+  }).single(field);
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    upload(req, res, (error: unknown) => {
+      if (error instanceof multer.MulterError) {
+        if (error.code === 'LIMIT_FILE_SIZE') {
+          return next(new ApplicationError(`File is too large; the limit is ${maxSizeMb} MB.`, 413, error));
+        }
+        return next(new ApplicationError(`Invalid upload: ${error.message}.`, 400, error));
+      }
+      if (error) {
+        return next(error);
+      }
+      if (!req.file) {
+        return next(new ApplicationError(`No file uploaded; send it in the '${field}' form field.`, 400));
+      }
+      next();
+    });
+  };
+};
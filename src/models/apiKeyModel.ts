@@ -0,0 +1,142 @@
+// src/models/apiKeyModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// A long-lived credential for programmatic access (e.g. an ERP pushing inventory).
+// Only a SHA-256 hash of the key is stored; the plain key is shown once at creation.
+export interface ApiKey {
+  id: number;
+  user_id: number; // The user the key acts as
+  organization_id: number | null; // Set for organization-scoped keys
+  name: string;
+  key_prefix: string; // First characters of the key, so users can tell keys apart
+  key_hash: string; // SHA-256 of the full key
+  scopes: string[];
+  expires_at: Date | null; // Null means the key never expires
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+export class ApiKeyModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Stores a new API key.
+   * @param apiKeyData - The owner, optional organization, name, key prefix and hash, scopes and expiry.
+   * @returns The newly created API key.
+   */
+  async createApiKey(apiKeyData: {
+    userId: number;
+    organizationId?: number | null;
+    name: string;
+    keyPrefix: string;
+    keyHash: string;
+    scopes: string[];
+    expiresAt?: Date | null;
+  }): Promise<ApiKey> {
+    const { userId, organizationId, name, keyPrefix, keyHash, scopes, expiresAt } = apiKeyData;
+    const result = await this.pool.query(
+      `INSERT INTO api_keys (
+        user_id, organization_id, name, key_prefix, key_hash, scopes, expires_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+      RETURNING *`,
+      [userId, organizationId || null, name, keyPrefix, keyHash, scopes, expiresAt || null]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Finds an unrevoked, unexpired API key by its hash.
+   * @param keyHash - SHA-256 hash of the key.
+   * @returns The API key if valid, otherwise null.
+   */
+  async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM api_keys
+       WHERE key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+      [keyHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Fetches an API key by ID.
+   * @param id - The API key ID.
+   * @returns The API key if found, otherwise null.
+   */
+  async getApiKeyById(id: number): Promise<ApiKey | null> {
+    const result = await this.pool.query('SELECT * FROM api_keys WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lists the API keys a user created.
+   * @param userId - The user's ID.
+   * @returns The API keys, newest first.
+   */
+  async getApiKeysByUserId(userId: number): Promise<ApiKey[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM api_keys WHERE user_id = $1 ORDER BY created_at DESC',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Lists the API keys scoped to an organization.
+   * @param organizationId - The organization ID.
+   * @returns The API keys, newest first.
+   */
+  async getApiKeysByOrganizationId(organizationId: number): Promise<ApiKey[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM api_keys WHERE organization_id = $1 ORDER BY created_at DESC',
+      [organizationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Renames an API key or changes its scopes.
+   * @param id - The API key ID.
+   * @param updates - The new name and/or scopes.
+   * @returns The updated API key.
+   */
+  async updateApiKey(id: number, updates: { name?: string; scopes?: string[] }): Promise<ApiKey> {
+    const result = await this.pool.query(
+      `UPDATE api_keys SET name = COALESCE($1, name), scopes = COALESCE($2, scopes)
+       WHERE id = $3
+       RETURNING *`,
+      [updates.name ?? null, updates.scopes ?? null, id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Revokes an API key.
+   * @param id - The API key ID.
+   */
+  async revokeApiKey(id: number): Promise<void> {
+    await this.pool.query(
+      'UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+      [id]
+    );
+  }
+
+  /**
+   * Records that an API key was used.
+   * @param id - The API key ID.
+   * @param ipAddress - The client IP address, if known.
+   */
+  async touchLastUsed(id: number, ipAddress?: string | null): Promise<void> {
+    await this.pool.query(
+      'UPDATE api_keys SET last_used_at = NOW(), last_used_ip = $1 WHERE id = $2',
+      [ipAddress || null, id]
+    );
+  }
+}
@@ -0,0 +1,134 @@
+// src/models/auditModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// One append-only record of a privileged action
+export interface AuditEvent {
+  id: number;
+  actor_id: number | null; // Null for actions taken by the system, a webhook or the CLI
+  action: string; // e.g. 'user.role_changed'
+  entity_type: string; // e.g. 'user', 'listing', 'offer'
+  entity_id: string | null;
+  changes: { before?: Record<string, unknown>; after?: Record<string, unknown> } | null;
+  ip_address: string | null;
+  request_id: string | null;
+  created_at: Date;
+  // Joined actor email, for display
+  actor_email?: string | null;
+}
+
+// Who performed an action and from which request; passed from controllers to services
+export interface AuditContext {
+  actorId: number | null;
+  ipAddress?: string | null;
+  requestId?: string | null;
+}
+
+// Input for recording a new audit event
+export interface AuditEventInput extends AuditContext {
+  action: string;
+  entityType: string;
+  entityId?: string | number | null;
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+}
+
+// Filters for searching the audit log
+export interface AuditEventFilter {
+  actorId?: number;
+  action?: string; // Exact action, or a prefix ending in '.' such as 'offer.'
+  entityType?: string;
+  entityId?: string;
+  requestId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export class AuditModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Appends an audit event. Audit events are never updated or deleted.
+   * @param event - The event to record.
+   * @returns The recorded event.
+   */
+  async recordEvent(event: AuditEventInput): Promise<AuditEvent> {
+    const { actorId, action, entityType, entityId, before, after, ipAddress, requestId } = event;
+    const changes = before || after ? JSON.stringify({ before, after }) : null;
+    const result = await this.pool.query(
+      `INSERT INTO audit_events (
+        actor_id, action, entity_type, entity_id, changes, ip_address, request_id, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+      RETURNING *`,
+      [
+        actorId,
+        action,
+        entityType,
+        entityId != null ? String(entityId) : null,
+        changes,
+        ipAddress || null,
+        requestId || null,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Searches the audit log, newest first.
+   * @param filter - Optional filters.
+   * @param limit - Maximum number of events to return.
+   * @param offset - Number of events to skip.
+   * @returns The matching events and the total number of matches.
+   */
+  async findEvents(filter: AuditEventFilter, limit: number, offset: number): Promise<{ events: AuditEvent[]; total: number }> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const addCondition = (sql: string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql.replace('?', `$${values.length}`));
+    };
+
+    if (filter.actorId !== undefined) {
+      addCondition('ae.actor_id = ?', filter.actorId);
+    }
+    if (filter.action) {
+      if (filter.action.endsWith('.')) {
+        addCondition('starts_with(ae.action, ?)', filter.action);
+      } else {
+        addCondition('ae.action = ?', filter.action);
+      }
+    }
+    if (filter.entityType) {
+      addCondition('ae.entity_type = ?', filter.entityType);
+    }
+    if (filter.entityId) {
+      addCondition('ae.entity_id = ?', filter.entityId);
+    }
+    if (filter.requestId) {
+      addCondition('ae.request_id = ?', filter.requestId);
+    }
+    if (filter.from) {
+      addCondition('ae.created_at >= ?', filter.from);
+    }
+    if (filter.to) {
+      addCondition('ae.created_at <= ?', filter.to);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const countResult = await this.pool.query(`SELECT COUNT(*)::int AS total FROM audit_events ae ${where}`, values);
+    const result = await this.pool.query(
+      `SELECT ae.*, u.email AS actor_email
+       FROM audit_events ae
+       LEFT JOIN users u ON u.id = ae.actor_id
+       ${where}
+       ORDER BY ae.created_at DESC, ae.id DESC
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+    return { events: result.rows, total: countResult.rows[0].total };
+  }
+}
@@ -0,0 +1,232 @@
+// src/models/commodityModel.ts
+import { Pool, PoolClient } from 'pg';
+import { getPool } from '../config/database.js';
+import { MineralForm, MineralGradeUnit } from './interfaces/marketplace.js';
+import { refreshListingSearchSql } from './listingModel.js';
+
+// Groups commodities for browsing and reporting
+export const COMMODITY_CATEGORIES = [
+  'precious_metals',
+  'base_metals',
+  'battery_minerals',
+  'bulk_commodities',
+  'industrial_minerals',
+  'other',
+] as const;
+export type CommodityCategory = (typeof COMMODITY_CATEGORIES)[number];
+
+// Specification fields a commodity can allow besides form, which every specification has
+export const SPECIFICATION_FIELDS = [
+  'grade',
+  'purity_percent',
+  'moisture_percent',
+  'impurities_ppm',
+  'particle_size_mm',
+] as const;
+export type SpecificationField = (typeof SPECIFICATION_FIELDS)[number];
+
+// A commodity in the managed catalogue (migrations/20261019160000_commodity_catalogue)
+export interface Commodity {
+  id: number;
+  code: string; // Stable identifier, e.g. 'iron_ore'
+  name: string; // Canonical name, stored on listings as mineral_type
+  category: CommodityCategory;
+  hs_code: string | null;
+  default_unit: string;
+  grade_unit: MineralGradeUnit;
+  allowed_forms: MineralForm[];
+  specification_fields: SpecificationField[];
+  active: boolean;
+  aliases: string[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type CommodityInput = Omit<Commodity, 'id' | 'created_at' | 'updated_at'>;
+
+// Selects commodities with their aliases, alphabetically
+const COMMODITY_SELECT = `
+  SELECT c.*,
+    COALESCE(
+      (SELECT array_agg(a.alias ORDER BY lower(a.alias)) FROM commodity_aliases a WHERE a.commodity_id = c.id),
+      '{}'
+    ) AS aliases
+  FROM commodities c`;
+
+export class CommodityModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Fetches the catalogue.
+   * @param includeInactive - Whether to include commodities that can no longer be listed.
+   * @returns The commodities with their aliases, by name.
+   */
+  async getCommodities(includeInactive: boolean): Promise<Commodity[]> {
+    const result = await this.pool.query(
+      `${COMMODITY_SELECT} WHERE $1 OR c.active ORDER BY lower(c.name)`,
+      [includeInactive]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches a commodity by ID.
+   * @param id - The commodity ID.
+   * @returns The commodity if found, otherwise null.
+   */
+  async getCommodityById(id: number): Promise<Commodity | null> {
+    const result = await this.pool.query(`${COMMODITY_SELECT} WHERE c.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Finds the commodity a name refers to: its name, code or one of its aliases, in any case.
+   * @param name - The name, e.g. 'gold', 'Au' or 'Gold doré'.
+   * @returns The commodity if found, otherwise null.
+   */
+  async findCommodityByName(name: string): Promise<Commodity | null> {
+    const result = await this.pool.query(`${COMMODITY_SELECT} WHERE c.id = commodity_id_for($1)`, [name]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Finds which of some names are already taken as another commodity's code, name or alias.
+   * @param names - The names to check.
+   * @param excludeId - A commodity whose own names do not count, when updating it.
+   * @returns The taken names, as given.
+   */
+  async findTakenNames(names: string[], excludeId: number | null): Promise<string[]> {
+    const result = await this.pool.query(
+      `SELECT n.name FROM unnest($1::text[]) AS n(name)
+       WHERE commodity_id_for(n.name) IS DISTINCT FROM $2 AND commodity_id_for(n.name) IS NOT NULL`,
+      [names, excludeId]
+    );
+    return result.rows.map((row) => row.name);
+  }
+
+  /**
+   * Creates a commodity with its aliases.
+   * @param data - The commodity.
+   * @returns The created commodity.
+   */
+  async createCommodity(data: CommodityInput): Promise<Commodity> {
+    const client = await this.pool.connect();
+    let id: number;
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `INSERT INTO commodities (
+          code, name, category, hs_code, default_unit, grade_unit, allowed_forms, specification_fields, active
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+        RETURNING id`,
+        [
+          data.code,
+          data.name,
+          data.category,
+          data.hs_code,
+          data.default_unit,
+          data.grade_unit,
+          data.allowed_forms,
+          data.specification_fields,
+          data.active,
+        ]
+      );
+      id = result.rows[0].id;
+      await this.replaceAliases(client, id, data.aliases);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    return (await this.getCommodityById(id)) as Commodity;
+  }
+
+  /**
+   * Replaces a commodity's details and aliases. When the name changes, the commodity's
+   * listings take the new name as their mineral_type.
+   * @param id - The commodity ID.
+   * @param data - The commodity's new details and complete list of aliases.
+   * @returns The updated commodity, or null if not found.
+   */
+  async updateCommodity(id: number, data: CommodityInput): Promise<Commodity | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `UPDATE commodities SET
+          code = $2, name = $3, category = $4, hs_code = $5, default_unit = $6, grade_unit = $7,
+          allowed_forms = $8, specification_fields = $9, active = $10, updated_at = NOW()
+        WHERE id = $1`,
+        [
+          id,
+          data.code,
+          data.name,
+          data.category,
+          data.hs_code,
+          data.default_unit,
+          data.grade_unit,
+          data.allowed_forms,
+          data.specification_fields,
+          data.active,
+        ]
+      );
+      if (result.rowCount === 0) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      await this.replaceAliases(client, id, data.aliases);
+
+      const renamed = await client.query(
+        'UPDATE listings SET mineral_type = $2 WHERE commodity_id = $1 AND mineral_type <> $2',
+        [id, data.name]
+      );
+      if ((renamed.rowCount ?? 0) > 0) {
+        await client.query(refreshListingSearchSql('l.commodity_id = $1'), [id]);
+      }
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    return this.getCommodityById(id);
+  }
+
+  /**
+   * Deletes a commodity and its aliases.
+   * @param id - The commodity ID.
+   * @returns True if the commodity was deleted.
+   */
+  async deleteCommodity(id: number): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM commodities WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Counts the listings of a commodity.
+   * @param id - The commodity ID.
+   * @returns The number of listings.
+   */
+  async countListings(id: number): Promise<number> {
+    const result = await this.pool.query('SELECT COUNT(*)::int AS count FROM listings WHERE commodity_id = $1', [id]);
+    return result.rows[0].count;
+  }
+
+  // Replaces a commodity's aliases within a transaction
+  private async replaceAliases(client: PoolClient, id: number, aliases: string[]): Promise<void> {
+    await client.query('DELETE FROM commodity_aliases WHERE commodity_id = $1', [id]);
+    if (aliases.length > 0) {
+      await client.query(
+        'INSERT INTO commodity_aliases (commodity_id, alias) SELECT $1, unnest($2::text[])',
+        [id, aliases]
+      );
+    }
+  }
+}
@@ -0,0 +1,82 @@
+// src/models/fxRateModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// Rates are stored against this currency, whose own rate is always 1
+export const BASE_CURRENCY = 'USD';
+
+export type FxRateSource = 'seed' | 'manual' | 'csv';
+
+// An exchange rate (migrations/20261019180000_fx_rates)
+export interface FxRate {
+  currency: string;
+  rate: number; // Units of the currency one unit of BASE_CURRENCY buys
+  source: FxRateSource;
+  updated_by: number | null;
+  updated_at: Date;
+}
+
+// The rate a checkout used, recorded on the transaction (transactions.fx_snapshot)
+export interface FxRateSnapshot {
+  base_currency: string;
+  currency: string;
+  rate: number;
+  rate_updated_at: Date;
+  base_amount: number; // The transaction's final price in the base currency
+}
+
+export class FxRateModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Fetches every exchange rate.
+   * @returns The rates, by currency.
+   */
+  async getRates(): Promise<FxRate[]> {
+    const result = await this.pool.query('SELECT * FROM fx_rates ORDER BY currency');
+    return result.rows.map((row) => ({ ...row, rate: Number(row.rate) }));
+  }
+
+  /**
+   * Fetches the exchange rate of a currency.
+   * @param currency - The ISO 4217 currency code.
+   * @returns The rate if there is one, otherwise null.
+   */
+  async getRate(currency: string): Promise<FxRate | null> {
+    const result = await this.pool.query('SELECT * FROM fx_rates WHERE currency = $1', [currency]);
+    return result.rows[0] ? { ...result.rows[0], rate: Number(result.rows[0].rate) } : null;
+  }
+
+  /**
+   * Adds or replaces exchange rates, all or none.
+   * @param rates - The currencies and their rates.
+   * @param source - Where the rates came from.
+   * @param updatedBy - The admin setting them.
+   * @returns The saved rates.
+   */
+  async saveRates(rates: { currency: string; rate: number }[], source: FxRateSource, updatedBy: number | null): Promise<FxRate[]> {
+    const result = await this.pool.query(
+      `INSERT INTO fx_rates (currency, rate, source, updated_by, updated_at)
+       SELECT r.currency, r.rate, $3, $4, NOW() FROM unnest($1::text[], $2::numeric[]) AS r(currency, rate)
+       ON CONFLICT (currency) DO UPDATE SET
+         rate = EXCLUDED.rate, source = EXCLUDED.source, updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at
+       RETURNING *`,
+      [rates.map((r) => r.currency), rates.map((r) => r.rate), source, updatedBy]
+    );
+    return result.rows.map((row) => ({ ...row, rate: Number(row.rate) }));
+  }
+
+  /**
+   * Deletes the exchange rate of a currency.
+   * @param currency - The ISO 4217 currency code.
+   * @returns True if there was a rate to delete.
+   */
+  async deleteRate(currency: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM fx_rates WHERE currency = $1', [currency]);
+    return (result.rowCount ?? 0) > 0;
+  }
+}
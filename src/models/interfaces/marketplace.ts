@@ -20,6 +20,25 @@ export interface MineralListingData {
   updated_at?: string;
 }
 
+// Physical form a mineral is sold in
+export const MINERAL_FORMS = ['ore', 'concentrate', 'dore', 'bullion', 'cathode', 'chemical', 'other'] as const;
+export type MineralForm = (typeof MINERAL_FORMS)[number];
+
+// Unit a listing's grade is given in: metal content in percent, or grams per tonne for precious metals
+export type MineralGradeUnit = '%' | 'g/t';
+
+// Structured specification of the material in a listing, validated per mineral category
+// (see src/validation/mineralSpecificationValidation.ts). Stored as JSONB in listings.specifications.
+export interface MineralSpecification {
+  form: MineralForm;
+  grade?: number; // Metal content, in grade_unit, e.g. 28 (% Cu) for copper concentrate
+  grade_unit?: MineralGradeUnit; // Set from the mineral's category whenever grade is given
+  purity_percent?: number; // For refined material; gold fineness is purity_percent × 10
+  moisture_percent?: number;
+  impurities_ppm?: Record<string, number>; // By element symbol, e.g. { As: 1200, Pb: 300 }
+  particle_size_mm?: { min?: number; max: number };
+}
+
 export interface ComplianceData {
   // Define compliance data fields here if needed
   // e.g., certificate_id: string;
@@ -28,10 +47,25 @@ export interface ComplianceData {
 
 export interface MineralListingFilter {
   mineral_type?: string;
-  location?: string;
+  location?: string; // Partial match
   status?: 'available' | 'pending' | 'sold' | 'canceled';
-  min_price?: number;
+  seller_compliance_status?: 'pending' | 'compliant' | 'non_compliant';
+  currency?: string;
+  unit?: string; // Unit prices and quantities are given in; otherwise the canonical unit (see src/utils/units.ts)
+  display_currency?: string; // Currency prices are shown in; the controller converts min_price and max_price from it
+  min_price?: number; // Per unit, in US dollars whatever the listing's currency
   max_price?: number;
+  min_quantity?: number;
+  max_quantity?: number;
+  listed_from?: Date;
+  listed_to?: Date;
+  // Specification filters; listings without the value are excluded
+  form?: MineralForm;
+  min_grade?: number; // In the mineral's grade unit, so only together with mineral_type
+  max_grade?: number;
+  min_purity?: number; // Percent
+  max_moisture?: number; // Percent
+  max_impurities?: Record<string, number>; // Largest accepted ppm by element symbol
   sort_by?: 'created_at' | 'price_per_unit' | 'quantity';
   sort_direction?: 'asc' | 'desc';
   limit?: number;
@@ -42,6 +76,7 @@ export interface MineralOffer {
   id?: number; // Optional as it's generated by DB
   listing_id: number;
   buyer_id: number;
+  organization_id?: number | null; // Buying organization, if made on behalf of one
   offer_price: number;
   currency: string;
   offer_quantity: number;
@@ -68,6 +103,7 @@ export interface Transaction {
   listing_id: number;
   buyer_id: number;
   seller_id: number;
+  organization_id?: number | null; // Buying organization, carried over from the offer
   offer_id?: number | null; // Can be null if direct purchase
   final_price: number;
   final_quantity: number;
@@ -75,6 +111,7 @@ export interface Transaction {
   transaction_date?: string; // ISO date string, typically auto-generated
   status: TransactionStatus; // Use the new TransactionStatus type
   payment_gateway_id?: string | null;
+  fx_snapshot?: { base_currency: string; currency: string; rate: number; rate_updated_at: string; base_amount: number } | null; // Exchange rate used at checkout
   created_at?: string;
   updated_at?: string;
 }
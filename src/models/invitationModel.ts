@@ -0,0 +1,179 @@
+// src/models/invitationModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// sent: usable; accepted: used to register; expired: not used in time; revoked: withdrawn
+export type RegistrationInvitationStatus = 'sent' | 'accepted' | 'expired' | 'revoked';
+
+// An invitation to register with a vetted role (e.g. 'miner'). It is either emailed to
+// one address or handed out as a code that anyone holding it can use once.
+export interface RegistrationInvitation {
+  id: number;
+  code_hash: string; // SHA-256 of the invite code
+  email: string | null; // Set for emailed invitations; registration must use this address
+  role: string;
+  organization_id: number | null; // The invitee joins this organization on registration
+  company_name: string | null; // The invitee's company; fixed at registration if set
+  invited_by: number;
+  status: RegistrationInvitationStatus;
+  expires_at: Date;
+  accepted_by: number | null;
+  accepted_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+  // Joined organization name, for display
+  organization_name?: string | null;
+}
+
+// Filters for listing invitations
+export interface RegistrationInvitationFilter {
+  organizationId?: number;
+  status?: RegistrationInvitationStatus;
+}
+
+export class InvitationModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Creates an invitation.
+   * @param invitationData - The invitation details.
+   * @returns The new invitation.
+   */
+  async createInvitation(invitationData: {
+    codeHash: string;
+    email: string | null;
+    role: string;
+    organizationId: number | null;
+    companyName: string | null;
+    invitedBy: number;
+    expiresAt: Date;
+  }): Promise<RegistrationInvitation> {
+    const { codeHash, email, role, organizationId, companyName, invitedBy, expiresAt } = invitationData;
+    const result = await this.pool.query(
+      `INSERT INTO registration_invitations (
+        code_hash, email, role, organization_id, company_name, invited_by, status, expires_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, 'sent', $7, NOW())
+      RETURNING *`,
+      [codeHash, email, role, organizationId, companyName, invitedBy, expiresAt]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Gets an invitation by ID.
+   * @param id - The invitation ID.
+   * @returns The invitation or null if not found.
+   */
+  async getInvitationById(id: number): Promise<RegistrationInvitation | null> {
+    const result = await this.pool.query('SELECT * FROM registration_invitations WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Finds a usable (sent and unexpired) invitation by its code hash.
+   * @param codeHash - SHA-256 hash of the invite code.
+   * @returns The invitation if valid, otherwise null.
+   */
+  async findUsableInvitationByCodeHash(codeHash: string): Promise<RegistrationInvitation | null> {
+    const result = await this.pool.query(
+      `SELECT ri.*, o.name AS organization_name
+       FROM registration_invitations ri
+       LEFT JOIN organizations o ON o.id = ri.organization_id
+       WHERE ri.code_hash = $1 AND ri.status = 'sent' AND ri.expires_at > NOW()`,
+      [codeHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lists invitations, newest first, marking overdue ones as expired.
+   * @param filter - Optional filters.
+   * @returns The invitations.
+   */
+  async getInvitations(filter: RegistrationInvitationFilter): Promise<RegistrationInvitation[]> {
+    await this.pool.query(
+      `UPDATE registration_invitations SET status = 'expired'
+       WHERE status = 'sent' AND expires_at <= NOW()`
+    );
+
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    if (filter.organizationId !== undefined) {
+      values.push(filter.organizationId);
+      conditions.push(`ri.organization_id = $${values.length}`);
+    }
+    if (filter.status) {
+      values.push(filter.status);
+      conditions.push(`ri.status = $${values.length}`);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.pool.query(
+      `SELECT ri.*, o.name AS organization_name
+       FROM registration_invitations ri
+       LEFT JOIN organizations o ON o.id = ri.organization_id
+       ${where}
+       ORDER BY ri.created_at DESC, ri.id DESC`,
+      values
+    );
+    return result.rows;
+  }
+
+  /**
+   * Claims a usable invitation for a registration. The status check and update happen
+   * in one statement, so an invite code can only ever be claimed once.
+   * @param codeHash - SHA-256 hash of the invite code.
+   * @param email - The registering email address.
+   * @returns The claimed invitation, or null if the code is not usable for this email.
+   */
+  async claimInvitation(codeHash: string, email: string): Promise<RegistrationInvitation | null> {
+    const result = await this.pool.query(
+      `UPDATE registration_invitations SET status = 'accepted', accepted_at = NOW()
+       WHERE code_hash = $1 AND status = 'sent' AND expires_at > NOW()
+         AND (email IS NULL OR lower(email) = lower($2))
+       RETURNING *`,
+      [codeHash, email]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Records which user an accepted invitation created.
+   * @param id - The invitation ID.
+   * @param userId - The new user's ID.
+   */
+  async setAcceptedBy(id: number, userId: number): Promise<void> {
+    await this.pool.query('UPDATE registration_invitations SET accepted_by = $2 WHERE id = $1', [id, userId]);
+  }
+
+  /**
+   * Makes a claimed invitation usable again after the registration it was claimed for failed.
+   * @param id - The invitation ID.
+   */
+  async releaseInvitation(id: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE registration_invitations SET status = 'sent', accepted_at = NULL
+       WHERE id = $1 AND status = 'accepted' AND accepted_by IS NULL`,
+      [id]
+    );
+  }
+
+  /**
+   * Revokes an invitation that has not been used yet.
+   * @param id - The invitation ID.
+   * @returns The revoked invitation, or null if there was no usable invitation with this ID.
+   */
+  async revokeInvitation(id: number): Promise<RegistrationInvitation | null> {
+    const result = await this.pool.query(
+      `UPDATE registration_invitations SET status = 'revoked', revoked_at = NOW()
+       WHERE id = $1 AND status = 'sent'
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+}
@@ -0,0 +1,139 @@
+// src/models/listingAttachmentModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+export type ListingAttachmentKind = 'photo' | 'document';
+
+// What a listing document shows buyers
+export const LISTING_DOCUMENT_TYPES = ['assay_report', 'export_permit', 'other'] as const;
+export type ListingDocumentType = (typeof LISTING_DOCUMENT_TYPES)[number];
+
+// A photo or document attached to a listing (migrations/20261019140000_listing_attachments).
+// The file itself is in file storage under storage_key.
+export interface ListingAttachment {
+  id: number;
+  listing_id: number;
+  kind: ListingAttachmentKind;
+  document_type: ListingDocumentType | null; // Documents only
+  original_name: string; // File name as uploaded
+  mime_type: string; // Detected from the file contents
+  size_bytes: number;
+  storage_key: string;
+  thumbnail_key: string | null; // Photos only
+  width: number | null; // Photos only, in pixels
+  height: number | null;
+  position: number; // Order among the listing's attachments of the same kind, lowest first
+  uploaded_by: number | null;
+  created_at: Date;
+}
+
+export type CreateListingAttachmentInput = Omit<ListingAttachment, 'id' | 'position' | 'created_at'>;
+
+export class ListingAttachmentModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Records a stored attachment, placing it after the listing's other attachments of the same kind.
+   * @param data - The attachment.
+   * @returns The created attachment.
+   */
+  async createAttachment(data: CreateListingAttachmentInput): Promise<ListingAttachment> {
+    const result = await this.pool.query(
+      `INSERT INTO listing_attachments (
+        listing_id, kind, document_type, original_name, mime_type, size_bytes,
+        storage_key, thumbnail_key, width, height, uploaded_by, position
+      ) VALUES (
+        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11,
+        (SELECT COALESCE(MAX(position) + 1, 0) FROM listing_attachments WHERE listing_id = $1 AND kind = $2)
+      )
+      RETURNING *`,
+      [
+        data.listing_id,
+        data.kind,
+        data.document_type,
+        data.original_name,
+        data.mime_type,
+        data.size_bytes,
+        data.storage_key,
+        data.thumbnail_key,
+        data.width,
+        data.height,
+        data.uploaded_by,
+      ]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Fetches a listing's attachments, in order.
+   * @param listingId - The listing ID.
+   * @param kind - Only attachments of this kind, if given.
+   * @returns The attachments: photos first, then documents.
+   */
+  async getAttachmentsByListingId(listingId: number, kind?: ListingAttachmentKind): Promise<ListingAttachment[]> {
+    const result = await this.pool.query(
+      `SELECT * FROM listing_attachments
+       WHERE listing_id = $1 AND ($2::text IS NULL OR kind = $2)
+       ORDER BY kind = 'document', position, id`,
+      [listingId, kind ?? null]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches one of a listing's attachments.
+   * @param listingId - The listing ID.
+   * @param id - The attachment ID.
+   * @returns The attachment if found, otherwise null.
+   */
+  async getAttachmentById(listingId: number, id: number): Promise<ListingAttachment | null> {
+    const result = await this.pool.query('SELECT * FROM listing_attachments WHERE id = $1 AND listing_id = $2', [
+      id,
+      listingId,
+    ]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Counts a listing's attachments of one kind.
+   * @param listingId - The listing ID.
+   * @param kind - The kind of attachment.
+   * @returns The number of attachments.
+   */
+  async countAttachments(listingId: number, kind: ListingAttachmentKind): Promise<number> {
+    const result = await this.pool.query(
+      'SELECT COUNT(*)::int AS count FROM listing_attachments WHERE listing_id = $1 AND kind = $2',
+      [listingId, kind]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * Sets the order of a listing's attachments of one kind.
+   * @param listingId - The listing ID.
+   * @param kind - The kind of attachment.
+   * @param ids - All of the listing's attachment IDs of that kind, in their new order.
+   */
+  async reorderAttachments(listingId: number, kind: ListingAttachmentKind, ids: number[]): Promise<void> {
+    await this.pool.query(
+      `UPDATE listing_attachments a SET position = o.ordinality - 1
+       FROM unnest($3::int[]) WITH ORDINALITY AS o(id, ordinality)
+       WHERE a.id = o.id AND a.listing_id = $1 AND a.kind = $2`,
+      [listingId, kind, ids]
+    );
+  }
+
+  /**
+   * Deletes an attachment record. The stored files are removed separately.
+   * @param id - The attachment ID.
+   * @returns The deleted attachment if found, otherwise null.
+   */
+  async deleteAttachment(id: number): Promise<ListingAttachment | null> {
+    const result = await this.pool.query('DELETE FROM listing_attachments WHERE id = $1 RETURNING *', [id]);
+    return result.rows[0] || null;
+  }
+}
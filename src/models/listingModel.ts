@@ -1,53 +1,134 @@
 // src/models/listingModel.ts
 import { Pool } from 'pg';
 import { getPool } from '../config/database.js'; // Ensure .js is here
+import { MineralListingFilter, MineralSpecification } from './interfaces/marketplace.js';
+import { CANONICAL_UNITS, findUnit } from '../utils/units.js';
+import { Cursor, CursorRow, cursorCreatedAtSql, cursorQuery } from '../utils/cursor.js';
+import { ListingAttachment } from './listingAttachmentModel.js';
 
 // Define the BackendListing interface here as the source of truth
-// It includes columns from 'listings' table and joined columns from 'users' table
+// It includes columns from 'listings' table and joined columns from 'users' table.
+// 'listings' is the only listings table; the old mineral_listings table was merged
+// into it (migrations/20261019120000_unify_listings).
 export interface BackendListing {
   id: number;
   seller_id: number;
-  mineral_type: string;
+  organization_id: number | null; // Owning organization, if listed on behalf of one
+  commodity_id: number | null; // Catalogue commodity; null only for old listings no commodity matched
+  mineral_type: string; // The commodity's name
   description: string;
   quantity: number;
-  unit: string;
+  unit: string; // A symbol from src/utils/units.ts, e.g. 'oz'
   price_per_unit: number;
+  // Quantity and price per unit in the canonical unit of the unit's dimension, e.g. kg for 'oz';
+  // null only for old listings whose unit is not known
+  canonical_unit: string | null;
+  normalized_quantity: number | null;
+  normalized_price_per_unit: number | null;
   currency: string;
   location: string;
   status: 'available' | 'pending' | 'sold' | 'canceled';
+  specifications: MineralSpecification | null; // Structured grade, purity, impurities etc., if given
   created_at: Date; // Ensure this is a Date object from DB
   updated_at: Date; // Ensure this is a Date object from DB
+  legacy_mineral_listing_id?: number | null; // ID in the merged mineral_listings table, if it came from there
+  // Full-text search columns, maintained by this model (migrations/20261019130000_listing_search)
+  search_vector?: string | null;
+  search_document?: string | null;
   // Joined seller details (from users table)
   seller_company_name?: string;
   seller_location?: string;
   seller_compliance_status?: 'pending' | 'compliant' | 'non_compliant';
 }
 
+// A full-text search hit: the listing with its relevance and a highlighted snippet
+export interface ListingSearchResult extends BackendListing {
+  relevance: number;
+  snippet: string; // HTML-escaped text with matches wrapped in <mark>...</mark>
+}
+
 // Interface for creating a new listing (input data)
 export interface CreateListingInput {
   seller_id: number;
+  organization_id?: number | null;
+  commodity_id: number;
   mineral_type: string;
   description: string;
   quantity: number;
   unit: string;
   price_per_unit: number;
+  canonical_unit: string;
+  normalized_quantity: number;
+  normalized_price_per_unit: number;
   currency: string;
   location: string;
   status?: 'available' | 'pending' | 'sold' | 'canceled';
+  specifications?: MineralSpecification | null;
 }
 
 // Interface for updating an existing listing (partial input data)
 export interface UpdateListingInput {
+  commodity_id?: number;
   mineral_type?: string;
   description?: string;
   quantity?: number;
   unit?: string;
   price_per_unit?: number;
+  canonical_unit?: string;
+  normalized_quantity?: number;
+  normalized_price_per_unit?: number;
   currency?: string;
   location?: string;
   status?: 'available' | 'pending' | 'sold' | 'canceled';
+  specifications?: MineralSpecification | null;
 }
 
+// A listing's price per canonical unit in US dollars (migrations/20261019180000_fx_rates), or
+// null when its currency has no exchange rate
+const BASE_PRICE_SQL =
+  '(l.normalized_price_per_unit / (SELECT fx.rate FROM fx_rates fx WHERE fx.currency = l.currency))';
+
+// Sort keys accepted by the public listing search, and the columns they sort on; prices and
+// quantities sort in canonical units (and prices in US dollars) so listings compare fairly
+const LISTING_SORT_COLUMNS: Record<NonNullable<MineralListingFilter['sort_by']>, string> = {
+  created_at: 'l.created_at',
+  price_per_unit: BASE_PRICE_SQL,
+  quantity: 'l.normalized_quantity',
+};
+
+export const LISTING_SORT_FIELDS = Object.keys(LISTING_SORT_COLUMNS) as NonNullable<MineralListingFilter['sort_by']>[];
+
+/**
+ * Builds the statement that recomputes listings' search columns from the listing and
+ * its seller's company name. Mirrors the backfill in migrations/20261019130000_listing_search.
+ * @param condition - SQL condition on `listings l` choosing the listings to refresh.
+ * @returns The UPDATE statement.
+ */
+export const refreshListingSearchSql = (condition: string): string => `
+  UPDATE listings l SET
+    search_vector =
+      setweight(to_tsvector('english', l.mineral_type), 'A') ||
+      setweight(to_tsvector('english', coalesce(u.company_name, '')), 'B') ||
+      setweight(to_tsvector('english', l.location), 'B') ||
+      setweight(to_tsvector('english', coalesce(l.description, '')), 'C'),
+    search_document = concat_ws(' ', l.mineral_type, l.description, l.location, u.company_name)
+  FROM users u
+  WHERE u.id = l.seller_id AND ${condition}`;
+
+/**
+ * Turns free text into a prefix-matching tsquery: every word matches words starting with it,
+ * and listings matching more of the words rank higher. Punctuation is dropped, so user
+ * input can never produce invalid tsquery syntax.
+ * @param text - The search text.
+ * @returns The tsquery source, or null if the text has no words.
+ */
+export const toPrefixTsQuery = (text: string): string | null => {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu);
+  return words ? words.map((word) => `${word}:*`).join(' | ') : null;
+};
+
+// Options for ts_headline: short fragments around the matches, marked up for display
+const SNIPPET_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
 
 export class ListingModel {
   private pool: Pool;
@@ -62,14 +143,22 @@ export class ListingModel {
    * @returns The newly created listing.
    */
   async createListing(listingData: CreateListingInput): Promise<BackendListing> {
-    const { seller_id, mineral_type, description, quantity, unit, price_per_unit, currency, location, status } = listingData;
+    const {
+      seller_id, organization_id, commodity_id, mineral_type, description, quantity, unit, price_per_unit,
+      canonical_unit, normalized_quantity, normalized_price_per_unit, currency, location, status, specifications,
+    } = listingData;
     const result = await this.pool.query(
       `INSERT INTO listings (
-        seller_id, mineral_type, description, quantity, unit, price_per_unit, currency, location, status, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW(), NOW())
+        seller_id, organization_id, commodity_id, mineral_type, description, quantity, unit, price_per_unit,
+        canonical_unit, normalized_quantity, normalized_price_per_unit, currency, location, status, specifications, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, NOW(), NOW())
       RETURNING *`,
-      [seller_id, mineral_type, description, quantity, unit, price_per_unit, currency, location, status || 'available']
+      [
+        seller_id, organization_id || null, commodity_id, mineral_type, description, quantity, unit, price_per_unit,
+        canonical_unit, normalized_quantity, normalized_price_per_unit, currency, location, status || 'available', specifications || null,
+      ]
     );
+    await this.refreshSearchIndex(result.rows[0].id);
     return result.rows[0];
   }
 
@@ -85,23 +174,246 @@ export class ListingModel {
   }
 
   /**
-   * Fetches all listings with joined seller details.
-   * @returns An array of listings with seller information.
+   * Searches listings with joined seller details, one page at a time.
+   * @param filter - Optional filters and the sort order; paging fields are ignored.
+   * @param limit - Maximum number of listings to return.
+   * @param offset - Number of matching listings to skip.
+   * @returns The page of listings and the total number of matches.
    */
-  async getAllListingsWithSellerDetails(): Promise<BackendListing[]> {
-    const result = await this.pool.query(`
-      SELECT
+  async searchListingsWithSellerDetails(
+    filter: MineralListingFilter,
+    limit: number,
+    offset: number
+  ): Promise<{ listings: BackendListing[]; total: number }> {
+    const { conditions, values } = this.buildFilterConditions(filter);
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const direction = filter.sort_direction === 'asc' ? 'ASC' : 'DESC';
+    const sortColumn = LISTING_SORT_COLUMNS[filter.sort_by ?? 'created_at'];
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*)::int AS total FROM listings l JOIN users u ON l.seller_id = u.id ${where}`,
+      values
+    );
+    const result = await this.pool.query(
+      `SELECT
         l.*,
         u.company_name AS seller_company_name,
         u.location AS seller_location,
         u.compliance_status AS seller_compliance_status
       FROM listings l
       JOIN users u ON l.seller_id = u.id
-      ORDER BY l.created_at DESC
-    `);
+      ${where}
+      ORDER BY ${sortColumn} ${direction} NULLS LAST, l.id ${direction}
+      LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+    return { listings: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Fetches one page of the newest-first listing feed with joined seller details.
+   * @param filter - Optional filters; sorting and paging fields are ignored.
+   * @param cursor - Where the page starts, or null for the newest listings.
+   * @param limit - Maximum number of listings to return; one more is fetched to tell whether more exist.
+   * @returns The listings, in the order the cursor pages in.
+   */
+  async getListingFeed(
+    filter: MineralListingFilter,
+    cursor: Cursor | null,
+    limit: number
+  ): Promise<(BackendListing & CursorRow)[]> {
+    const { conditions, values } = this.buildFilterConditions(filter);
+    const keyset = cursorQuery(cursor, 'l.created_at', 'l.id', values.length + 1);
+    if (keyset.condition) {
+      conditions.push(keyset.condition);
+      values.push(...keyset.values);
+    }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const result = await this.pool.query(
+      `SELECT
+        l.*,
+        u.company_name AS seller_company_name,
+        u.location AS seller_location,
+        u.compliance_status AS seller_compliance_status,
+        ${cursorCreatedAtSql('l.created_at')}
+      FROM listings l
+      JOIN users u ON l.seller_id = u.id
+      ${where}
+      ORDER BY ${keyset.orderBy}
+      LIMIT $${values.length + 1}`,
+      [...values, limit + 1]
+    );
     return result.rows;
   }
 
+  /**
+   * Full-text searches listings across mineral type, description, location and seller
+   * company, most relevant first. Words match as prefixes, and trigram similarity
+   * catches misspellings the full-text match misses.
+   * @param text - The search text.
+   * @param filter - Optional filters; sorting and paging fields are ignored.
+   * @param limit - Maximum number of listings to return.
+   * @param offset - Number of matching listings to skip.
+   * @returns The page of listings with relevance and snippets, and the total number of matches.
+   */
+  async searchListingsByText(
+    text: string,
+    filter: MineralListingFilter,
+    limit: number,
+    offset: number
+  ): Promise<{ listings: ListingSearchResult[]; total: number }> {
+    const tsQuery = toPrefixTsQuery(text);
+    if (!tsQuery) {
+      return { listings: [], total: 0 };
+    }
+
+    const { conditions, values } = this.buildFilterConditions(filter);
+    values.push(tsQuery, text);
+    const tsQueryParam = `to_tsquery('english', $${values.length - 1})`;
+    const textParam = `$${values.length}`;
+    conditions.push(`(l.search_vector @@ ${tsQueryParam} OR ${textParam} <% l.search_document)`);
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    const countResult = await this.pool.query(
+      `SELECT COUNT(*)::int AS total FROM listings l JOIN users u ON l.seller_id = u.id ${where}`,
+      values
+    );
+    // Snippets are only built for the page being returned; ts_headline is expensive
+    const result = await this.pool.query(
+      `SELECT
+        page.*,
+        ts_headline(
+          'english',
+          replace(replace(replace(
+            concat_ws(' · ', page.mineral_type, page.description, page.location, page.seller_company_name),
+            '&', '&amp;'), '<', '&lt;'), '>', '&gt;'),
+          ${tsQueryParam},
+          '${SNIPPET_OPTIONS}'
+        ) AS snippet
+      FROM (
+        SELECT
+          l.*,
+          u.company_name AS seller_company_name,
+          u.location AS seller_location,
+          u.compliance_status AS seller_compliance_status,
+          (ts_rank_cd(l.search_vector, ${tsQueryParam}, 32) + word_similarity(${textParam}, l.search_document))::float
+            AS relevance
+        FROM listings l
+        JOIN users u ON l.seller_id = u.id
+        ${where}
+        ORDER BY relevance DESC, l.id DESC
+        LIMIT $${values.length + 1} OFFSET $${values.length + 2}
+      ) page
+      ORDER BY page.relevance DESC, page.id DESC`,
+      [...values, limit, offset]
+    );
+    return { listings: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Recomputes the search columns of every listing by a seller, e.g. after their company name changed.
+   * @param sellerId - The seller's ID.
+   */
+  async refreshSearchIndexForSeller(sellerId: number): Promise<void> {
+    await this.pool.query(refreshListingSearchSql('l.seller_id = $1'), [sellerId]);
+  }
+
+  /**
+   * Recomputes a listing's search columns.
+   * @param id - The listing ID.
+   */
+  private async refreshSearchIndex(id: number): Promise<void> {
+    await this.pool.query(refreshListingSearchSql('l.id = $1'), [id]);
+  }
+
+  /**
+   * Turns listing filters into SQL conditions on `listings l` joined with the seller as `users u`.
+   * @param filter - The filters.
+   * @returns The conditions and their parameter values, numbered from $1.
+   */
+  private buildFilterConditions(filter: MineralListingFilter): { conditions: string[]; values: unknown[] } {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const addCondition = (sql: string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql.replace(/\?/g, `$${values.length}`));
+    };
+
+    if (filter.mineral_type) {
+      // Matches the commodity by name, code or alias, and old listings no commodity matched by name
+      addCondition('(l.commodity_id = commodity_id_for(?) OR lower(l.mineral_type) = lower(?))', filter.mineral_type);
+    }
+    if (filter.location) {
+      // Escape LIKE wildcards so the location is matched literally
+      addCondition('l.location ILIKE ?', `%${filter.location.replace(/[\\%_]/g, '\\$&')}%`);
+    }
+    if (filter.status) {
+      addCondition('l.status = ?', filter.status);
+    }
+    if (filter.seller_compliance_status) {
+      addCondition('u.compliance_status = ?', filter.seller_compliance_status);
+    }
+    if (filter.currency) {
+      addCondition('l.currency = ?', filter.currency);
+    }
+    // Prices and quantities are compared in canonical units, and prices in US dollars. With `unit`
+    // they are given in that unit instead, and only listings measured in the same dimension match.
+    const unit = filter.unit ? findUnit(filter.unit) : null;
+    const toCanonical = unit?.toCanonical ?? 1;
+    const hasAmountFilter = [filter.min_price, filter.max_price, filter.min_quantity, filter.max_quantity].some(
+      (value) => value !== undefined
+    );
+    if (unit && hasAmountFilter) {
+      addCondition('l.canonical_unit = ?', CANONICAL_UNITS[unit.dimension]);
+    }
+    if (filter.min_price !== undefined) {
+      addCondition(`${BASE_PRICE_SQL} >= ?`, filter.min_price / toCanonical);
+    }
+    if (filter.max_price !== undefined) {
+      addCondition(`${BASE_PRICE_SQL} <= ?`, filter.max_price / toCanonical);
+    }
+    if (filter.min_quantity !== undefined) {
+      addCondition('l.normalized_quantity >= ?', filter.min_quantity * toCanonical);
+    }
+    if (filter.max_quantity !== undefined) {
+      addCondition('l.normalized_quantity <= ?', filter.max_quantity * toCanonical);
+    }
+    if (filter.listed_from) {
+      addCondition('l.created_at >= ?', filter.listed_from);
+    }
+    if (filter.listed_to) {
+      addCondition('l.created_at <= ?', filter.listed_to);
+    }
+    if (filter.form) {
+      addCondition(`l.specifications @> jsonb_build_object('form', ?::text)`, filter.form);
+    }
+    if (filter.min_grade !== undefined) {
+      addCondition(`(l.specifications->>'grade')::numeric >= ?`, filter.min_grade);
+    }
+    if (filter.max_grade !== undefined) {
+      addCondition(`(l.specifications->>'grade')::numeric <= ?`, filter.max_grade);
+    }
+    if (filter.min_purity !== undefined) {
+      addCondition(`(l.specifications->>'purity_percent')::numeric >= ?`, filter.min_purity);
+    }
+    if (filter.max_moisture !== undefined) {
+      addCondition(`(l.specifications->>'moisture_percent')::numeric <= ?`, filter.max_moisture);
+    }
+    if (filter.max_impurities && Object.keys(filter.max_impurities).length > 0) {
+      // Every given element must be reported and at most its limit
+      addCondition(
+        `NOT EXISTS (
+          SELECT 1 FROM jsonb_each_text(?::jsonb) AS m(element, max_ppm)
+          WHERE NOT COALESCE((l.specifications->'impurities_ppm'->>m.element)::numeric <= m.max_ppm::numeric, false)
+        )`,
+        JSON.stringify(filter.max_impurities)
+      );
+    }
+    return { conditions, values };
+  }
+
   /**
    * Fetches a single listing by ID with joined seller details.
    * @param id - The listing ID.
@@ -141,6 +453,26 @@ export class ListingModel {
     return result.rows;
   }
 
+  /**
+   * Fetches all listings owned by an organization with seller details.
+   * @param organizationId - The ID of the organization.
+   * @returns An array of the organization's listings.
+   */
+  async getListingsByOrganizationId(organizationId: number): Promise<BackendListing[]> {
+    const result = await this.pool.query(`
+      SELECT
+        l.*,
+        u.company_name AS seller_company_name,
+        u.location AS seller_location,
+        u.compliance_status AS seller_compliance_status
+      FROM listings l
+      JOIN users u ON l.seller_id = u.id
+      WHERE l.organization_id = $1
+      ORDER BY l.created_at DESC
+    `, [organizationId]);
+    return result.rows;
+  }
+
   /**
    * Updates an existing listing in the database.
    * @param id - The ID of the listing to update.
@@ -163,14 +495,42 @@ export class ListingModel {
       `UPDATE listings SET ${fields}, updated_at = NOW() WHERE id = $${values.length + 1} RETURNING *`,
       [...values, id]
     );
+    if (result.rows[0]) {
+      await this.refreshSearchIndex(id);
+    }
     return result.rows[0];
   }
 
   /**
-   * Deletes a listing from the database.
+   * Deletes a listing and its attachment records, unless offers or transactions refer to it.
+   * The listing row is locked first, so no offer can be made between the check and the delete.
    * @param id - The ID of the listing to delete.
+   * @returns The deleted attachments, whose stored files are no longer referenced, or null if
+   * the listing has offers or transactions and was kept.
    */
-  async deleteListing(id: number): Promise<void> {
-    await this.pool.query('DELETE FROM listings WHERE id = $1', [id]);
+  async deleteListing(id: number): Promise<ListingAttachment[] | null> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      await client.query('SELECT id FROM listings WHERE id = $1 FOR UPDATE', [id]);
+      const trades = await client.query(
+        `SELECT EXISTS (SELECT 1 FROM mineral_offers WHERE listing_id = $1)
+             OR EXISTS (SELECT 1 FROM transactions WHERE listing_id = $1) AS has_trades`,
+        [id]
+      );
+      if (trades.rows[0].has_trades) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      const attachments = await client.query('DELETE FROM listing_attachments WHERE listing_id = $1 RETURNING *', [id]);
+      await client.query('DELETE FROM listings WHERE id = $1', [id]);
+      await client.query('COMMIT');
+      return attachments.rows;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
   }
 }
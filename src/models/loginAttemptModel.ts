@@ -0,0 +1,72 @@
+// src/models/loginAttemptModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// Failed login tracking, keyed by the lower-cased email address that was tried.
+// Keyed by email rather than user ID so unknown addresses are throttled exactly
+// like real accounts and responses don't reveal which emails are registered.
+export interface LoginAttempt {
+  email: string;
+  failed_count: number;
+  last_failed_at: Date;
+  locked_until: Date | null;
+}
+
+export class LoginAttemptModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Fetches the failed login record for an email address.
+   * @param email - The lower-cased email address.
+   * @returns The record if there have been failures, otherwise null.
+   */
+  async getByEmail(email: string): Promise<LoginAttempt | null> {
+    const result = await this.pool.query('SELECT * FROM login_attempts WHERE email = $1', [email]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Records a failed login. The count restarts if the previous failure is older than the window.
+   * @param email - The lower-cased email address.
+   * @param windowMinutes - How long a failure counts towards the lockout.
+   * @returns The updated record.
+   */
+  async recordFailure(email: string, windowMinutes: number): Promise<LoginAttempt> {
+    const result = await this.pool.query(
+      `INSERT INTO login_attempts (email, failed_count, last_failed_at)
+       VALUES ($1, 1, NOW())
+       ON CONFLICT (email) DO UPDATE SET
+         failed_count = CASE
+           WHEN login_attempts.last_failed_at < NOW() - make_interval(mins => $2) THEN 1
+           ELSE login_attempts.failed_count + 1
+         END,
+         last_failed_at = NOW()
+       RETURNING *`,
+      [email, windowMinutes]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Locks an email address until the given time.
+   * @param email - The lower-cased email address.
+   * @param lockedUntil - When the lockout ends.
+   */
+  async lock(email: string, lockedUntil: Date): Promise<void> {
+    await this.pool.query('UPDATE login_attempts SET locked_until = $1 WHERE email = $2', [lockedUntil, email]);
+  }
+
+  /**
+   * Forgets all failed logins for an email address, lifting any lockout.
+   * @param email - The lower-cased email address.
+   * @returns True if there was anything to clear.
+   */
+  async clear(email: string): Promise<boolean> {
+    const result = await this.pool.query('DELETE FROM login_attempts WHERE email = $1', [email]);
+    return result.rowCount > 0;
+  }
+}
@@ -0,0 +1,295 @@
+// src/models/organizationModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// owner: manages members and deals; trader: creates and acts on deals; viewer: read-only
+export type OrganizationRole = 'owner' | 'trader' | 'viewer';
+
+export type InvitationStatus = 'pending' | 'accepted' | 'revoked' | 'expired';
+
+export interface Organization {
+  id: number;
+  name: string;
+  created_by: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface OrganizationMember {
+  organization_id: number;
+  user_id: number;
+  role: OrganizationRole;
+  joined_at: Date;
+  // Joined user details (from users table)
+  first_name?: string;
+  last_name?: string;
+  email?: string;
+}
+
+export interface OrganizationInvitation {
+  id: number;
+  organization_id: number;
+  email: string;
+  role: OrganizationRole;
+  token_hash: string; // SHA-256 of the emailed invitation token
+  invited_by: number;
+  status: InvitationStatus;
+  expires_at: Date;
+  accepted_at: Date | null;
+  created_at: Date;
+  // Joined organization name, for display
+  organization_name?: string;
+}
+
+export class OrganizationModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Creates an organization and makes its creator the owner.
+   * @param name - The organization name.
+   * @param ownerId - The ID of the creating user.
+   * @returns The newly created organization.
+   */
+  async createOrganization(name: string, ownerId: number): Promise<Organization> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `INSERT INTO organizations (name, created_by, created_at, updated_at)
+         VALUES ($1, $2, NOW(), NOW())
+         RETURNING *`,
+        [name, ownerId]
+      );
+      const organization = result.rows[0];
+      await client.query(
+        `INSERT INTO organization_members (organization_id, user_id, role, joined_at)
+         VALUES ($1, $2, 'owner', NOW())`,
+        [organization.id, ownerId]
+      );
+      await client.query('COMMIT');
+      return organization;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Fetches an organization by ID.
+   * @param id - The organization ID.
+   * @returns The organization if found, otherwise null.
+   */
+  async getOrganizationById(id: number): Promise<Organization | null> {
+    const result = await this.pool.query('SELECT * FROM organizations WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Fetches every organization a user belongs to, with their role in each.
+   * @param userId - The user's ID.
+   * @returns The organizations with the user's role.
+   */
+  async getOrganizationsForUser(userId: number): Promise<Array<Organization & { role: OrganizationRole }>> {
+    const result = await this.pool.query(
+      `SELECT o.*, om.role
+       FROM organizations o
+       JOIN organization_members om ON om.organization_id = o.id
+       WHERE om.user_id = $1
+       ORDER BY o.name`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Renames an organization.
+   * @param id - The organization ID.
+   * @param name - The new name.
+   * @returns The updated organization.
+   */
+  async updateOrganization(id: number, name: string): Promise<Organization> {
+    const result = await this.pool.query(
+      'UPDATE organizations SET name = $1, updated_at = NOW() WHERE id = $2 RETURNING *',
+      [name, id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Fetches a user's membership of an organization.
+   * @param organizationId - The organization ID.
+   * @param userId - The user's ID.
+   * @returns The membership if the user is a member, otherwise null.
+   */
+  async getMembership(organizationId: number, userId: number): Promise<OrganizationMember | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM organization_members WHERE organization_id = $1 AND user_id = $2',
+      [organizationId, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Fetches all members of an organization with their user details.
+   * @param organizationId - The organization ID.
+   * @returns The members.
+   */
+  async getMembers(organizationId: number): Promise<OrganizationMember[]> {
+    const result = await this.pool.query(
+      `SELECT om.*, u.first_name, u.last_name, u.email
+       FROM organization_members om
+       JOIN users u ON u.id = om.user_id
+       WHERE om.organization_id = $1
+       ORDER BY om.joined_at`,
+      [organizationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Counts the owners of an organization.
+   * @param organizationId - The organization ID.
+   * @returns The number of owners.
+   */
+  async countOwners(organizationId: number): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int AS count FROM organization_members WHERE organization_id = $1 AND role = 'owner'`,
+      [organizationId]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * Adds a user to an organization. Does nothing if they are already a member.
+   * @param organizationId - The organization ID.
+   * @param userId - The user's ID.
+   * @param role - The member's role.
+   */
+  async addMember(organizationId: number, userId: number, role: OrganizationRole): Promise<void> {
+    await this.pool.query(
+      `INSERT INTO organization_members (organization_id, user_id, role, joined_at)
+       VALUES ($1, $2, $3, NOW())
+       ON CONFLICT (organization_id, user_id) DO NOTHING`,
+      [organizationId, userId, role]
+    );
+  }
+
+  /**
+   * Changes a member's role.
+   * @param organizationId - The organization ID.
+   * @param userId - The member's user ID.
+   * @param role - The new role.
+   * @returns The updated membership, or null if the user is not a member.
+   */
+  async updateMemberRole(organizationId: number, userId: number, role: OrganizationRole): Promise<OrganizationMember | null> {
+    const result = await this.pool.query(
+      `UPDATE organization_members SET role = $1
+       WHERE organization_id = $2 AND user_id = $3
+       RETURNING *`,
+      [role, organizationId, userId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Removes a member from an organization.
+   * @param organizationId - The organization ID.
+   * @param userId - The member's user ID.
+   */
+  async removeMember(organizationId: number, userId: number): Promise<void> {
+    await this.pool.query(
+      'DELETE FROM organization_members WHERE organization_id = $1 AND user_id = $2',
+      [organizationId, userId]
+    );
+  }
+
+  /**
+   * Creates a pending invitation.
+   * @param invitationData - The organization, invitee email, role, token hash, inviter and expiry.
+   * @returns The new invitation.
+   */
+  async createInvitation(invitationData: {
+    organizationId: number;
+    email: string;
+    role: OrganizationRole;
+    tokenHash: string;
+    invitedBy: number;
+    expiresAt: Date;
+  }): Promise<OrganizationInvitation> {
+    const { organizationId, email, role, tokenHash, invitedBy, expiresAt } = invitationData;
+    const result = await this.pool.query(
+      `INSERT INTO organization_invitations (
+        organization_id, email, role, token_hash, invited_by, status, expires_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, 'pending', $6, NOW())
+      RETURNING *`,
+      [organizationId, email, role, tokenHash, invitedBy, expiresAt]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Finds a pending, unexpired invitation by its token hash.
+   * @param tokenHash - SHA-256 hash of the invitation token.
+   * @returns The invitation if valid, otherwise null.
+   */
+  async findPendingInvitationByTokenHash(tokenHash: string): Promise<OrganizationInvitation | null> {
+    const result = await this.pool.query(
+      `SELECT oi.*, o.name AS organization_name
+       FROM organization_invitations oi
+       JOIN organizations o ON o.id = oi.organization_id
+       WHERE oi.token_hash = $1 AND oi.status = 'pending' AND oi.expires_at > NOW()`,
+      [tokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Lists an organization's invitations, marking overdue pending ones as expired.
+   * @param organizationId - The organization ID.
+   * @returns The invitations, newest first.
+   */
+  async getInvitations(organizationId: number): Promise<OrganizationInvitation[]> {
+    await this.pool.query(
+      `UPDATE organization_invitations SET status = 'expired'
+       WHERE organization_id = $1 AND status = 'pending' AND expires_at <= NOW()`,
+      [organizationId]
+    );
+    const result = await this.pool.query(
+      `SELECT * FROM organization_invitations WHERE organization_id = $1 ORDER BY created_at DESC`,
+      [organizationId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Marks an invitation as accepted.
+   * @param id - The invitation ID.
+   */
+  async markInvitationAccepted(id: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE organization_invitations SET status = 'accepted', accepted_at = NOW() WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Revokes a pending invitation.
+   * @param organizationId - The organization ID.
+   * @param id - The invitation ID.
+   * @returns True if a pending invitation was revoked.
+   */
+  async revokeInvitation(organizationId: number, id: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE organization_invitations SET status = 'revoked'
+       WHERE id = $1 AND organization_id = $2 AND status = 'pending'`,
+      [id, organizationId]
+    );
+    return result.rowCount > 0;
+  }
+}
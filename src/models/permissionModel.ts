@@ -0,0 +1,107 @@
+// src/models/permissionModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// A platform role (users.role refers to roles.name)
+export interface Role {
+  name: string;
+  description: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export class PermissionModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Fetches all roles stored in the database with their permissions.
+   * @returns The roles, alphabetically.
+   */
+  async getRoles(): Promise<Array<Role & { permissions: string[] }>> {
+    const result = await this.pool.query(
+      `SELECT r.*, COALESCE(array_agg(rp.permission ORDER BY rp.permission)
+                             FILTER (WHERE rp.permission IS NOT NULL), '{}') AS permissions
+       FROM roles r
+       LEFT JOIN role_permissions rp ON rp.role = r.name
+       GROUP BY r.name
+       ORDER BY r.name`
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches a role by name.
+   * @param name - The role name.
+   * @returns The role if it is stored in the database, otherwise null.
+   */
+  async getRole(name: string): Promise<Role | null> {
+    const result = await this.pool.query('SELECT * FROM roles WHERE name = $1', [name]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Fetches the permissions granted to a role.
+   * @param role - The role name.
+   * @returns The permission names, or null if the role is not stored in the database.
+   */
+  async getPermissionsForRole(role: string): Promise<string[] | null> {
+    const result = await this.pool.query(
+      `SELECT r.name, rp.permission
+       FROM roles r
+       LEFT JOIN role_permissions rp ON rp.role = r.name
+       WHERE r.name = $1`,
+      [role]
+    );
+    if (result.rows.length === 0) {
+      return null;
+    }
+    return result.rows.filter((row: { permission: string | null }) => row.permission).map((row: { permission: string }) => row.permission);
+  }
+
+  /**
+   * Creates a role, or replaces the permissions of an existing one.
+   * @param name - The role name.
+   * @param description - A human-readable description.
+   * @param permissions - The complete set of permissions for the role.
+   * @returns The role.
+   */
+  async saveRole(name: string, description: string | null, permissions: string[]): Promise<Role> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await client.query(
+        `INSERT INTO roles (name, description, created_at, updated_at)
+         VALUES ($1, $2, NOW(), NOW())
+         ON CONFLICT (name) DO UPDATE SET description = COALESCE($2, roles.description), updated_at = NOW()
+         RETURNING *`,
+        [name, description]
+      );
+      await client.query('DELETE FROM role_permissions WHERE role = $1', [name]);
+      for (const permission of permissions) {
+        await client.query('INSERT INTO role_permissions (role, permission) VALUES ($1, $2)', [name, permission]);
+      }
+      await client.query('COMMIT');
+      return result.rows[0];
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Deletes a role and its permissions.
+   * @param name - The role name.
+   * @returns True if the role existed.
+   */
+  async deleteRole(name: string): Promise<boolean> {
+    await this.pool.query('DELETE FROM role_permissions WHERE role = $1', [name]);
+    const result = await this.pool.query('DELETE FROM roles WHERE name = $1', [name]);
+    return result.rowCount > 0;
+  }
+}
@@ -0,0 +1,199 @@
+// src/models/personalDataModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+import { refreshListingSearchSql } from './listingModel.js';
+
+// Queries for data-subject requests: exporting everything held about a user and
+// anonymizing an account. When a new table stores personal data, add it here.
+export class PersonalDataModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Fetches the listings a user created.
+   * @param userId - The user's ID.
+   * @returns The user's listings.
+   */
+  async getListings(userId: number): Promise<unknown[]> {
+    const result = await this.pool.query(
+      `SELECT id, seller_id, organization_id, mineral_type, description, quantity, unit, price_per_unit, currency,
+              location, status, specifications, commodity_id, created_at, updated_at
+       FROM listings WHERE seller_id = $1 ORDER BY created_at`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches the offers a user made and the offers received on their listings.
+   * @param userId - The user's ID.
+   * @returns Offers made and offers received.
+   */
+  async getOffers(userId: number): Promise<{ made: unknown[]; received: unknown[] }> {
+    const made = await this.pool.query('SELECT * FROM mineral_offers WHERE buyer_id = $1 ORDER BY created_at', [userId]);
+    const received = await this.pool.query(
+      `SELECT mo.id, mo.listing_id, mo.offer_price, mo.offer_quantity, mo.currency, mo.status, mo.created_at, mo.updated_at
+       FROM mineral_offers mo
+       JOIN listings l ON l.id = mo.listing_id
+       WHERE l.seller_id = $1
+       ORDER BY mo.created_at`,
+      [userId]
+    );
+    return { made: made.rows, received: received.rows };
+  }
+
+  /**
+   * Fetches the transactions a user took part in as buyer or seller.
+   * @param userId - The user's ID.
+   * @returns The transactions.
+   */
+  async getTransactions(userId: number): Promise<unknown[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM transactions WHERE buyer_id = $1 OR seller_id = $1 ORDER BY created_at',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches a user's login sessions (devices).
+   * @param userId - The user's ID.
+   * @returns The sessions, without refresh token hashes.
+   */
+  async getSessions(userId: number): Promise<unknown[]> {
+    const result = await this.pool.query(
+      `SELECT id, user_agent, ip_address, created_at, last_used_at, expires_at, revoked_at
+       FROM user_sessions WHERE user_id = $1 ORDER BY created_at`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches the audit events a user performed.
+   * @param userId - The user's ID.
+   * @returns The audit events.
+   */
+  async getAuditEvents(userId: number): Promise<unknown[]> {
+    const result = await this.pool.query(
+      'SELECT * FROM audit_events WHERE actor_id = $1 ORDER BY created_at',
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Counts a user's transactions that are still waiting for payment.
+   * @param userId - The user's ID.
+   * @returns The number of pending transactions.
+   */
+  async countPendingTransactions(userId: number): Promise<number> {
+    const result = await this.pool.query(
+      `SELECT COUNT(*)::int AS count FROM transactions
+       WHERE (buyer_id = $1 OR seller_id = $1) AND status = 'pending'`,
+      [userId]
+    );
+    return result.rows[0].count;
+  }
+
+  /**
+   * Lists organizations in which the user is the only owner but not the only member.
+   * Such accounts must hand over ownership before they can be deleted.
+   * @param userId - The user's ID.
+   * @returns The affected organizations' IDs and names.
+   */
+  async getOrganizationsSolelyOwnedWithOtherMembers(userId: number): Promise<Array<{ id: number; name: string }>> {
+    const result = await this.pool.query(
+      `SELECT o.id, o.name
+       FROM organizations o
+       JOIN organization_members me ON me.organization_id = o.id AND me.user_id = $1 AND me.role = 'owner'
+       WHERE NOT EXISTS (
+         SELECT 1 FROM organization_members om
+         WHERE om.organization_id = o.id AND om.role = 'owner' AND om.user_id <> $1
+       )
+       AND EXISTS (
+         SELECT 1 FROM organization_members om
+         WHERE om.organization_id = o.id AND om.user_id <> $1
+       )`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Anonymizes an account in one transaction. Personal data is overwritten, credentials,
+   * sessions, API keys, memberships and outstanding invitations are revoked, open listings are withdrawn and pending
+   * offers expire. Transactions keep referencing the user row so financial records stay intact.
+   * @param userId - The user's ID.
+   * @param unusablePasswordHash - A hash of a random password nobody knows.
+   */
+  async anonymizeUser(userId: number, unusablePasswordHash: string): Promise<void> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const existing = await client.query('SELECT email FROM users WHERE id = $1 FOR UPDATE', [userId]);
+      const originalEmail: string | undefined = existing.rows[0]?.email;
+
+      await client.query(
+        `UPDATE users SET
+           first_name = 'Deleted', last_name = 'User',
+           email = 'deleted-user-' || id || '@deleted.invalid',
+           password_hash = $2, company_name = 'Deleted user', phone_number = NULL, location = '',
+           preferred_mineral_types = NULL, minimum_purchase_quantity = NULL, required_regulations = NULL,
+           email_verified = FALSE,
+           email_verification_token_hash = NULL, email_verification_expires_at = NULL,
+           reset_password_token_hash = NULL, reset_password_expires_at = NULL,
+           two_factor_enabled = FALSE, two_factor_secret = NULL, two_factor_pending_secret = NULL,
+           two_factor_recovery_codes = NULL,
+           token_version = token_version + 1,
+           deleted_at = NOW(), updated_at = NOW()
+         WHERE id = $1`,
+        [userId, unusablePasswordHash]
+      );
+      await client.query(
+        `UPDATE user_sessions SET revoked_at = COALESCE(revoked_at, NOW()), user_agent = NULL, ip_address = NULL
+         WHERE user_id = $1`,
+        [userId]
+      );
+      await client.query(
+        'UPDATE api_keys SET revoked_at = COALESCE(revoked_at, NOW()), last_used_ip = NULL WHERE user_id = $1',
+        [userId]
+      );
+      await client.query('DELETE FROM organization_members WHERE user_id = $1', [userId]);
+      await client.query(
+        `UPDATE listings SET status = 'canceled', updated_at = NOW()
+         WHERE seller_id = $1 AND status IN ('available', 'pending')`,
+        [userId]
+      );
+      // Drop the old company name from the listings' search text
+      await client.query(refreshListingSearchSql('l.seller_id = $1'), [userId]);
+      await client.query(
+        `UPDATE mineral_offers SET status = 'expired', updated_at = NOW()
+         WHERE buyer_id = $1 AND status = 'pending'`,
+        [userId]
+      );
+      if (originalEmail) {
+        await client.query(
+          `UPDATE organization_invitations SET status = 'revoked'
+           WHERE lower(email) = lower($1) AND status = 'pending'`,
+          [originalEmail]
+        );
+        await client.query('DELETE FROM login_attempts WHERE email = lower($1)', [originalEmail]);
+      }
+      await client.query(
+        `UPDATE registration_invitations SET status = 'revoked', revoked_at = NOW()
+         WHERE invited_by = $1 AND status = 'sent'`,
+        [userId]
+      );
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
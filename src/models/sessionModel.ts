@@ -0,0 +1,124 @@
+// src/models/sessionModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+// A login session for one device. Access tokens carry the session ID so they
+// can be revoked server-side; the refresh token is rotated on every use.
+export interface UserSession {
+  id: number;
+  user_id: number;
+  refresh_token_hash: string; // SHA-256 of the current refresh token
+  previous_refresh_token_hash: string | null; // Kept to detect reuse of a rotated token
+  user_agent: string | null;
+  ip_address: string | null;
+  expires_at: Date;
+  revoked_at: Date | null;
+  last_used_at: Date;
+  created_at: Date;
+}
+
+export class SessionModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Creates a new session for a user.
+   * @param sessionData - The user, hashed refresh token, expiry and client details.
+   * @returns The newly created session.
+   */
+  async createSession(sessionData: {
+    userId: number;
+    refreshTokenHash: string;
+    expiresAt: Date;
+    userAgent?: string | null;
+    ipAddress?: string | null;
+  }): Promise<UserSession> {
+    const { userId, refreshTokenHash, expiresAt, userAgent, ipAddress } = sessionData;
+    const result = await this.pool.query(
+      `INSERT INTO user_sessions (
+        user_id, refresh_token_hash, user_agent, ip_address, expires_at, last_used_at, created_at
+      ) VALUES ($1, $2, $3, $4, $5, NOW(), NOW())
+      RETURNING *`,
+      [userId, refreshTokenHash, userAgent || null, ipAddress || null, expiresAt]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Finds a session by ID.
+   * @param id - The session ID.
+   * @returns The session if found, otherwise null.
+   */
+  async getSessionById(id: number): Promise<UserSession | null> {
+    const result = await this.pool.query('SELECT * FROM user_sessions WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Finds a session by its current or previous refresh token hash.
+   * @param tokenHash - SHA-256 hash of the refresh token.
+   * @returns The session if found, otherwise null.
+   */
+  async findByRefreshTokenHash(tokenHash: string): Promise<UserSession | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM user_sessions
+       WHERE refresh_token_hash = $1 OR previous_refresh_token_hash = $1`,
+      [tokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Replaces a session's refresh token, remembering the old one for reuse detection.
+   * Only succeeds while the session still holds the token being exchanged, so of two
+   * concurrent refreshes with the same token only one wins.
+   * @param id - The session ID.
+   * @param currentRefreshTokenHash - SHA-256 hash of the refresh token being exchanged.
+   * @param refreshTokenHash - SHA-256 hash of the new refresh token.
+   * @param expiresAt - The new expiry of the session.
+   * @returns The updated session, or null if the token had already been rotated or the session revoked.
+   */
+  async rotateRefreshToken(
+    id: number,
+    currentRefreshTokenHash: string,
+    refreshTokenHash: string,
+    expiresAt: Date
+  ): Promise<UserSession | null> {
+    const result = await this.pool.query(
+      `UPDATE user_sessions
+       SET previous_refresh_token_hash = refresh_token_hash, refresh_token_hash = $1,
+           expires_at = $2, last_used_at = NOW()
+       WHERE id = $3 AND refresh_token_hash = $4 AND revoked_at IS NULL
+       RETURNING *`,
+      [refreshTokenHash, expiresAt, id, currentRefreshTokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Revokes a single session.
+   * @param id - The session ID.
+   */
+  async revokeSession(id: number): Promise<void> {
+    await this.pool.query(
+      'UPDATE user_sessions SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL',
+      [id]
+    );
+  }
+
+  /**
+   * Revokes every active session belonging to a user.
+   * @param userId - The user's ID.
+   * @returns The number of sessions revoked.
+   */
+  async revokeAllSessionsForUser(userId: number): Promise<number> {
+    const result = await this.pool.query(
+      'UPDATE user_sessions SET revoked_at = NOW() WHERE user_id = $1 AND revoked_at IS NULL',
+      [userId]
+    );
+    return result.rowCount;
+  }
+}
@@ -1,5 +1,14 @@
 import { Pool } from 'pg';
 import { getPool } from '../config/database.js'; // ADDED .js
+import { Transaction } from './interfaces/marketplace.js';
+import { Cursor, CursorRow, cursorCreatedAtSql, cursorQuery } from '../utils/cursor.js';
+
+// A transaction in a user's history, with the listing it was for
+export interface TransactionHistoryEntry extends Transaction {
+  id: number;
+  mineral_type: string;
+  unit: string;
+}
 
 // Example model for transactions
 export class TransactionModel {
@@ -15,5 +24,58 @@ export class TransactionModel {
     return result.rows;
   }
 
+  /**
+   * Fetches one page of a user's transactions, as buyer or seller, newest first.
+   * @param userId - The user's ID.
+   * @param cursor - Where the page starts, or null for the newest transactions.
+   * @param limit - Maximum number of transactions to return; one more is fetched to tell whether more exist.
+   * @returns The transactions, in the order the cursor pages in.
+   */
+  async getTransactionsForUser(
+    userId: number,
+    cursor: Cursor | null,
+    limit: number
+  ): Promise<(TransactionHistoryEntry & CursorRow)[]> {
+    const keyset = cursorQuery(cursor, 't.created_at', 't.id', 2);
+    const result = await this.pool.query(
+      `SELECT t.*, l.mineral_type, l.unit, ${cursorCreatedAtSql('t.created_at')}
+       FROM transactions t
+       JOIN listings l ON l.id = t.listing_id
+       WHERE (t.buyer_id = $1 OR t.seller_id = $1)
+       ${keyset.condition ? `AND ${keyset.condition}` : ''}
+       ORDER BY ${keyset.orderBy}
+       LIMIT $${2 + keyset.values.length}`,
+      [userId, ...keyset.values, limit + 1]
+    );
+    return result.rows;
+  }
+
+  /**
+   * Fetches one page of an organization's transactions, newest first: deals its members
+   * bought on its behalf and sales of its listings.
+   * @param organizationId - The organization's ID.
+   * @param cursor - Where the page starts, or null for the newest transactions.
+   * @param limit - Maximum number of transactions to return; one more is fetched to tell whether more exist.
+   * @returns The transactions, in the order the cursor pages in.
+   */
+  async getTransactionsForOrganization(
+    organizationId: number,
+    cursor: Cursor | null,
+    limit: number
+  ): Promise<(TransactionHistoryEntry & CursorRow)[]> {
+    const keyset = cursorQuery(cursor, 't.created_at', 't.id', 2);
+    const result = await this.pool.query(
+      `SELECT t.*, l.mineral_type, l.unit, ${cursorCreatedAtSql('t.created_at')}
+       FROM transactions t
+       JOIN listings l ON l.id = t.listing_id
+       WHERE (t.organization_id = $1 OR l.organization_id = $1)
+       ${keyset.condition ? `AND ${keyset.condition}` : ''}
+       ORDER BY ${keyset.orderBy}
+       LIMIT $${2 + keyset.values.length}`,
+      [organizationId, ...keyset.values, limit + 1]
+    );
+    return result.rows;
+  }
+
   // Add more methods for CRUD operations for transactions
 }
@@ -0,0 +1,88 @@
+// src/models/twoFactorChallengeModel.ts
+import { Pool } from 'pg';
+import { getPool } from '../config/database.js';
+
+export type TwoFactorChallengePurpose = '2fa_verify' | '2fa_setup';
+
+// The second step of a login, identified by the jti of its challenge token
+export interface TwoFactorChallenge {
+  id: string;
+  user_id: number;
+  purpose: TwoFactorChallengePurpose;
+  attempt_count: number; // Codes tried so far
+  expires_at: Date;
+  consumed_at: Date | null; // Set once used or revoked
+  created_at: Date;
+}
+
+export class TwoFactorChallengeModel {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Records a newly issued challenge. Expired challenges are deleted at the same time.
+   * @param challenge - The challenge token's jti, the user, what it is for and when it expires.
+   * @returns The new challenge.
+   */
+  async createChallenge(challenge: {
+    id: string;
+    userId: number;
+    purpose: TwoFactorChallengePurpose;
+    expiresAt: Date;
+  }): Promise<TwoFactorChallenge> {
+    await this.pool.query('DELETE FROM two_factor_challenges WHERE expires_at < NOW()');
+    const result = await this.pool.query(
+      `INSERT INTO two_factor_challenges (id, user_id, purpose, expires_at)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [challenge.id, challenge.userId, challenge.purpose, challenge.expiresAt]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Fetches a challenge that can still be used.
+   * @param id - The challenge token's jti.
+   * @returns The challenge, or null if it is unknown, used, revoked or expired.
+   */
+  async getActiveChallenge(id: string): Promise<TwoFactorChallenge | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM two_factor_challenges WHERE id = $1 AND consumed_at IS NULL AND expires_at > NOW()',
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Counts an attempt at a challenge before its code is checked, so concurrent guesses
+   * cannot get past the limit.
+   * @param id - The challenge token's jti.
+   * @param maxAttempts - How many codes a challenge accepts in total.
+   * @returns The updated challenge, or null if it is no longer usable or out of attempts.
+   */
+  async claimAttempt(id: string, maxAttempts: number): Promise<TwoFactorChallenge | null> {
+    const result = await this.pool.query(
+      `UPDATE two_factor_challenges SET attempt_count = attempt_count + 1
+       WHERE id = $1 AND consumed_at IS NULL AND expires_at > NOW() AND attempt_count < $2
+       RETURNING *`,
+      [id, maxAttempts]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Marks a challenge as used or revoked so its token stops working.
+   * @param id - The challenge token's jti.
+   * @returns True if this call consumed it, false if it already had been.
+   */
+  async consumeChallenge(id: string): Promise<boolean> {
+    const result = await this.pool.query(
+      'UPDATE two_factor_challenges SET consumed_at = NOW() WHERE id = $1 AND consumed_at IS NULL',
+      [id]
+    );
+    return (result.rowCount ?? 0) > 0;
+  }
+}
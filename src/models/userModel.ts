@@ -9,7 +9,7 @@ export interface BackendUser {
   last_name: string;
   email: string;
   password_hash: string; // Assuming you store hashed passwords
-  role: 'buyer' | 'miner' | 'admin';
+  role: string; // 'buyer', 'miner', 'admin' or a custom role defined in the roles table
   email_verified: boolean;
   created_at: Date;
   updated_at: Date;
@@ -20,6 +20,17 @@ export interface BackendUser {
   preferred_mineral_types?: string[]; // New field (PostgreSQL TEXT[])
   minimum_purchase_quantity?: number; // New field (PostgreSQL NUMERIC)
   required_regulations?: string[]; // New field (PostgreSQL TEXT[])
+  email_verification_token_hash?: string | null; // SHA-256 of the emailed verification token
+  email_verification_expires_at?: Date | null;
+  reset_password_token_hash?: string | null; // SHA-256 of the emailed password reset token
+  reset_password_expires_at?: Date | null;
+  token_version: number; // Bumped to invalidate every JWT issued before it
+  two_factor_enabled: boolean;
+  two_factor_secret?: string | null; // Base32 TOTP secret, set once enrolment is confirmed
+  two_factor_pending_secret?: string | null; // Secret awaiting confirmation during enrolment
+  two_factor_recovery_codes?: string[] | null; // SHA-256 hashes of unused recovery codes
+  two_factor_last_step?: number | null; // TOTP time step of the last code accepted, to reject replays
+  deleted_at?: Date | null; // Set when the account was closed and its personal data anonymized
 }
 
 // Interface for user data when registering or updating profile
@@ -35,8 +46,55 @@ export interface UserInput {
   preferredMineralTypes?: string[];
   minimumPurchaseQuantity?: number;
   requiredRegulations?: string[];
+  invitationCode?: string; // Required to register with any role but 'buyer'
 }
 
+// A row of the admin user directory: profile fields plus an activity summary.
+// Deliberately excludes password hashes, tokens and 2FA secrets.
+export interface UserDirectoryEntry {
+  id: number;
+  first_name: string;
+  last_name: string;
+  email: string;
+  role: string;
+  company_name: string | null;
+  location: string | null;
+  compliance_status: 'pending' | 'compliant' | 'non_compliant';
+  email_verified: boolean;
+  two_factor_enabled: boolean;
+  created_at: Date;
+  deleted_at: Date | null;
+  listing_count: number;
+  offer_count: number;
+  gmv: Record<string, number>; // Completed transaction value by currency, as buyer or seller
+}
+
+// Filters for the admin user directory
+export interface UserSearchFilter {
+  search?: string; // Matches name, email or company
+  role?: string;
+  complianceStatus?: 'pending' | 'compliant' | 'non_compliant';
+  signedUpFrom?: Date;
+  signedUpTo?: Date;
+  includeDeleted?: boolean;
+}
+
+// Sort keys accepted by the user directory, mapped to trusted SQL expressions
+const USER_SORT_COLUMNS = {
+  name: 'u.last_name, u.first_name',
+  email: 'u.email',
+  company: 'u.company_name',
+  role: 'u.role',
+  complianceStatus: 'u.compliance_status',
+  createdAt: 'u.created_at',
+  listingCount: 'listing_count',
+  offerCount: 'offer_count',
+} as const;
+
+export type UserSortField = keyof typeof USER_SORT_COLUMNS;
+
+export const USER_SORT_FIELDS = Object.keys(USER_SORT_COLUMNS) as UserSortField[];
+
 export class UserModel {
   private pool: Pool;
 
@@ -54,7 +112,7 @@ export class UserModel {
     lastName: string;
     email: string;
     passwordHash: string; // Hashed password
-    role: 'buyer' | 'miner' | 'admin';
+    role: string;
     companyName: string; // Mandatory
     phoneNumber?: string;
     location: string; // Mandatory
@@ -80,6 +138,20 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  /**
+   * Finds a user by their email, ignoring case. Registration keeps emails as typed, so
+   * an exact match is preferred when several accounts differ only in case.
+   * @param email - The email address, in any case.
+   * @returns The user if found, otherwise null.
+   */
+  async getUserByEmailIgnoringCase(email: string): Promise<BackendUser | null> {
+    const result = await this.pool.query(
+      'SELECT * FROM users WHERE lower(email) = lower($1) ORDER BY email = $1 DESC, id LIMIT 1',
+      [email]
+    );
+    return result.rows[0] || null;
+  }
+
   /**
    * Finds a user by their ID.
    * @param id - The user's ID.
@@ -140,11 +212,285 @@ export class UserModel {
   }
 
   /**
-   * Gets all users from the database.
-   * @returns An array of all users.
+   * Searches users for the admin directory, one page at a time.
+   * @param filter - Optional filters.
+   * @param sort - The sort key and direction.
+   * @param limit - Maximum number of users to return.
+   * @param offset - Number of users to skip.
+   * @returns The page of users with activity summaries, and the total number of matches.
+   */
+  async searchUsers(
+    filter: UserSearchFilter,
+    sort: { field: UserSortField; direction: 'asc' | 'desc' },
+    limit: number,
+    offset: number
+  ): Promise<{ users: UserDirectoryEntry[]; total: number }> {
+    const conditions: string[] = [];
+    const values: unknown[] = [];
+    const addCondition = (sql: string, value: unknown) => {
+      values.push(value);
+      conditions.push(sql.replace(/\?/g, `$${values.length}`));
+    };
+
+    if (!filter.includeDeleted) {
+      conditions.push('u.deleted_at IS NULL');
+    }
+    if (filter.search) {
+      // Escape LIKE wildcards so the search term is matched literally
+      addCondition(
+        "(u.first_name || ' ' || u.last_name ILIKE ? OR u.email ILIKE ? OR u.company_name ILIKE ?)",
+        `%${filter.search.replace(/[\\%_]/g, '\\$&')}%`
+      );
+    }
+    if (filter.role) {
+      addCondition('u.role = ?', filter.role);
+    }
+    if (filter.complianceStatus) {
+      addCondition('u.compliance_status = ?', filter.complianceStatus);
+    }
+    if (filter.signedUpFrom) {
+      addCondition('u.created_at >= ?', filter.signedUpFrom);
+    }
+    if (filter.signedUpTo) {
+      addCondition('u.created_at <= ?', filter.signedUpTo);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const direction = sort.direction === 'desc' ? 'DESC' : 'ASC';
+    const orderBy = USER_SORT_COLUMNS[sort.field]
+      .split(', ')
+      .map((column) => `${column} ${direction}`)
+      .join(', ');
+
+    const countResult = await this.pool.query(`SELECT COUNT(*)::int AS total FROM users u ${where}`, values);
+    const result = await this.pool.query(
+      `SELECT u.id, u.first_name, u.last_name, u.email, u.role, u.company_name, u.location,
+              u.compliance_status, u.email_verified, u.two_factor_enabled, u.created_at, u.deleted_at,
+              l.listing_count, o.offer_count, COALESCE(g.gmv, '{}'::jsonb) AS gmv
+       FROM users u
+       CROSS JOIN LATERAL (SELECT COUNT(*)::int AS listing_count FROM listings WHERE seller_id = u.id) l
+       CROSS JOIN LATERAL (SELECT COUNT(*)::int AS offer_count FROM mineral_offers WHERE buyer_id = u.id) o
+       LEFT JOIN LATERAL (
+         SELECT jsonb_object_agg(t.currency, t.total) AS gmv
+         FROM (
+           SELECT currency, SUM(final_price)::float AS total
+           FROM transactions
+           WHERE status = 'completed' AND (buyer_id = u.id OR seller_id = u.id)
+           GROUP BY currency
+         ) t
+       ) g ON TRUE
+       ${where}
+       ORDER BY ${orderBy}, u.id ${direction}
+       LIMIT $${values.length + 1} OFFSET $${values.length + 2}`,
+      [...values, limit, offset]
+    );
+    return { users: result.rows, total: countResult.rows[0].total };
+  }
+
+  /**
+   * Stores a (hashed) email verification token for a user, replacing any previous one.
+   * @param id - The user's ID.
+   * @param tokenHash - SHA-256 hash of the verification token.
+   * @param expiresAt - When the token stops being valid.
+   */
+  async setVerificationToken(id: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET email_verification_token_hash = $1, email_verification_expires_at = $2, updated_at = NOW()
+       WHERE id = $3`,
+      [tokenHash, expiresAt, id]
+    );
+  }
+
+  /**
+   * Finds a user by an unexpired email verification token.
+   * @param tokenHash - SHA-256 hash of the verification token.
+   * @returns The user if the token is valid, otherwise null.
+   */
+  async findByVerificationToken(tokenHash: string): Promise<BackendUser | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM users
+       WHERE email_verification_token_hash = $1 AND email_verification_expires_at > NOW()`,
+      [tokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Marks a user's email as verified and consumes the verification token.
+   * @param id - The user's ID.
+   * @returns The updated user.
+   */
+  async verifyEmail(id: number): Promise<BackendUser> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET email_verified = TRUE, email_verification_token_hash = NULL, email_verification_expires_at = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Stores a (hashed) password reset token for a user, replacing any previous one.
+   * @param id - The user's ID.
+   * @param tokenHash - SHA-256 hash of the reset token.
+   * @param expiresAt - When the token stops being valid.
+   */
+  async setResetPasswordToken(id: number, tokenHash: string, expiresAt: Date): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET reset_password_token_hash = $1, reset_password_expires_at = $2, updated_at = NOW()
+       WHERE id = $3`,
+      [tokenHash, expiresAt, id]
+    );
+  }
+
+  /**
+   * Finds a user by an unexpired password reset token.
+   * @param tokenHash - SHA-256 hash of the reset token.
+   * @returns The user if the token is valid, otherwise null.
+   */
+  async findByResetToken(tokenHash: string): Promise<BackendUser | null> {
+    const result = await this.pool.query(
+      `SELECT * FROM users
+       WHERE reset_password_token_hash = $1 AND reset_password_expires_at > NOW()`,
+      [tokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Replaces a user's password with a reset token, consuming the token and bumping the
+   * token version so that every previously issued JWT is rejected. Only succeeds while the
+   * token is still the user's unexpired one, so of two concurrent resets only one wins.
+   * @param id - The user's ID.
+   * @param tokenHash - SHA-256 hash of the reset token being used.
+   * @param passwordHash - The new bcrypt password hash.
+   * @returns The updated user, or null if the token was already used, replaced or has expired.
+   */
+  async resetPassword(id: number, tokenHash: string, passwordHash: string): Promise<BackendUser | null> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET password_hash = $1, reset_password_token_hash = NULL, reset_password_expires_at = NULL,
+           token_version = token_version + 1, updated_at = NOW()
+       WHERE id = $2 AND reset_password_token_hash = $3 AND reset_password_expires_at > NOW()
+       RETURNING *`,
+      [passwordHash, id, tokenHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Stores a TOTP secret that is awaiting confirmation during enrolment.
+   * @param id - The user's ID.
+   * @param secret - The base32 TOTP secret.
+   */
+  async setPendingTwoFactorSecret(id: number, secret: string): Promise<void> {
+    await this.pool.query(
+      'UPDATE users SET two_factor_pending_secret = $1, updated_at = NOW() WHERE id = $2',
+      [secret, id]
+    );
+  }
+
+  /**
+   * Enables two-factor authentication by promoting the pending secret.
+   * @param id - The user's ID.
+   * @param recoveryCodeHashes - SHA-256 hashes of the newly issued recovery codes.
+   * @returns The updated user.
+   */
+  async enableTwoFactor(id: number, recoveryCodeHashes: string[]): Promise<BackendUser> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET two_factor_enabled = TRUE, two_factor_secret = two_factor_pending_secret,
+           two_factor_pending_secret = NULL, two_factor_recovery_codes = $1, updated_at = NOW()
+       WHERE id = $2
+       RETURNING *`,
+      [recoveryCodeHashes, id]
+    );
+    return result.rows[0];
+  }
+
+  /**
+   * Disables two-factor authentication and discards the secret and recovery codes.
+   * @param id - The user's ID.
+   */
+  async disableTwoFactor(id: number): Promise<void> {
+    await this.pool.query(
+      `UPDATE users
+       SET two_factor_enabled = FALSE, two_factor_secret = NULL, two_factor_pending_secret = NULL,
+           two_factor_recovery_codes = NULL, updated_at = NOW()
+       WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Replaces a user's recovery codes.
+   * @param id - The user's ID.
+   * @param recoveryCodeHashes - SHA-256 hashes of the new recovery codes.
+   */
+  async setRecoveryCodes(id: number, recoveryCodeHashes: string[]): Promise<void> {
+    await this.pool.query(
+      'UPDATE users SET two_factor_recovery_codes = $1, updated_at = NOW() WHERE id = $2',
+      [recoveryCodeHashes, id]
+    );
+  }
+
+  /**
+   * Consumes a recovery code so it cannot be used again.
+   * @param id - The user's ID.
+   * @param codeHash - SHA-256 hash of the recovery code.
+   * @returns True if the code was valid and has been consumed.
+   */
+  async consumeRecoveryCode(id: number, codeHash: string): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE users
+       SET two_factor_recovery_codes = array_remove(two_factor_recovery_codes, $1), updated_at = NOW()
+       WHERE id = $2 AND $1 = ANY(two_factor_recovery_codes)`,
+      [codeHash, id]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Records the time step of an accepted TOTP code. Fails if that step, or a later one,
+   * was already accepted, so each code works once even when requests race.
+   * @param id - The user's ID.
+   * @param step - The code's 30-second time step.
+   * @returns True if the step was recorded, false if the code was already used.
+   */
+  async recordTwoFactorStep(id: number, step: number): Promise<boolean> {
+    const result = await this.pool.query(
+      `UPDATE users SET two_factor_last_step = $1
+       WHERE id = $2 AND (two_factor_last_step IS NULL OR two_factor_last_step < $1)`,
+      [step, id]
+    );
+    return result.rowCount > 0;
+  }
+
+  /**
+   * Changes a user's role (admin only).
+   * @param id - The ID of the user to update.
+   * @param role - The new role.
+   * @returns The updated user, or null if the user does not exist.
+   */
+  async updateUserRole(id: number, role: string): Promise<BackendUser | null> {
+    const result = await this.pool.query(
+      `UPDATE users SET role = $1, updated_at = NOW() WHERE id = $2 RETURNING *`,
+      [role, id]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Counts the users that have a given role.
+   * @param role - The role to count.
+   * @returns The number of users with that role.
    */
-  async getAllUsers(): Promise<BackendUser[]> {
-    const result = await this.pool.query('SELECT * FROM users');
-    return result.rows;
+  async countUsersByRole(role: string): Promise<number> {
+    const result = await this.pool.query('SELECT COUNT(*)::int AS count FROM users WHERE role = $1', [role]);
+    return result.rows[0].count;
   }
 }
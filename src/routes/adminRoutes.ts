@@ -0,0 +1,47 @@
+// src/routes/adminRoutes.ts
+import { Router } from 'express';
+import { getPermissions, getRoles, saveRole, deleteRole } from '../controllers/roleController.js';
+import { getAuditEvents } from '../controllers/auditController.js';
+import { startImpersonation } from '../controllers/impersonationController.js';
+import {
+  getAllCommodities,
+  createCommodity,
+  updateCommodity,
+  deleteCommodity,
+} from '../controllers/commodityController.js';
+import { getFxRates, saveFxRate, importFxRates, deleteFxRate } from '../controllers/fxRateController.js';
+import { authenticate, requireSession } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
+import { uploadSingleFile } from '../middleware/uploadMiddleware.js';
+
+const router = Router();
+
+// Administration is only available from an interactive login
+router.use(authenticate);
+router.use(requireSession);
+
+// Roles and their permissions
+router.get('/permissions', requirePermission('role.manage'), getPermissions);
+router.get('/roles', requirePermission('role.manage'), getRoles);
+router.put('/roles/:name', requirePermission('role.manage'), saveRole);
+router.delete('/roles/:name', requirePermission('role.manage'), deleteRole);
+
+// Commodity catalogue; commodities with listings are retired with active: false
+router.get('/commodities', requirePermission('commodity.manage'), getAllCommodities);
+router.post('/commodities', requirePermission('commodity.manage'), createCommodity);
+router.put('/commodities/:id', requirePermission('commodity.manage'), updateCommodity);
+router.delete('/commodities/:id', requirePermission('commodity.manage'), deleteCommodity);
+
+// Exchange rates against the US dollar, set one at a time or imported from a CSV (field 'file', up to 1 MB)
+router.get('/fx-rates', requirePermission('fx_rate.manage'), getFxRates);
+router.post('/fx-rates/import', requirePermission('fx_rate.manage'), uploadSingleFile('file', 1), importFxRates);
+router.put('/fx-rates/:currency', requirePermission('fx_rate.manage'), saveFxRate);
+router.delete('/fx-rates/:currency', requirePermission('fx_rate.manage'), deleteFxRate);
+
+// Audit log (?format=csv downloads a CSV export)
+router.get('/audit', requirePermission('audit.read'), getAuditEvents);
+
+// "View as user": issues a short-lived, read-only token acting as another user
+router.post('/users/:id/impersonate', requirePermission('user.impersonate'), startImpersonation);
+
+export { router };
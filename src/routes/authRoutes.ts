@@ -1,7 +1,22 @@
 // src/routes/authRoutes.ts
 import { Router } from 'express';
 // Import the authentication controller functions
-import { registerUser, loginUser } from '../controllers/userController.js'; // Ensure .js is here
+import {
+  registerUser,
+  loginUser,
+  verifyEmail,
+  resendVerificationEmail,
+  forgotPassword,
+  resetPassword,
+  refreshToken,
+  logout,
+  logoutAllDevices,
+  verifyTwoFactorLogin,
+  beginRequiredTwoFactorSetup,
+  confirmRequiredTwoFactorSetup,
+} from '../controllers/userController.js'; // Ensure .js is here
+import { getInvitationByCode } from '../controllers/invitationController.js';
+import { authenticate, requireSession } from '../middleware/authMiddleware.js';
 
 const router = Router();
 
@@ -12,6 +27,13 @@ const router = Router();
  */
 router.post('/register', registerUser);
 
+/**
+ * @route GET /api/auth/invitations/:code
+ * @desc Show the role and company an invite code grants
+ * @access Public
+ */
+router.get('/invitations/:code', getInvitationByCode);
+
 /**
  * @route POST /api/auth/login
  * @desc Authenticate user & get token
@@ -19,5 +41,75 @@ router.post('/register', registerUser);
  */
 router.post('/login', loginUser);
 
+/**
+ * @route POST /api/auth/2fa/verify
+ * @desc Complete a two-step login with a TOTP or recovery code
+ * @access Public (requires a login challenge token)
+ */
+router.post('/2fa/verify', verifyTwoFactorLogin);
+
+/**
+ * @route POST /api/auth/2fa/setup
+ * @desc Start mandatory 2FA enrolment during login (admins)
+ * @access Public (requires a setup challenge token)
+ */
+router.post('/2fa/setup', beginRequiredTwoFactorSetup);
+
+/**
+ * @route POST /api/auth/2fa/setup/confirm
+ * @desc Confirm mandatory 2FA enrolment and log in
+ * @access Public (requires a setup challenge token)
+ */
+router.post('/2fa/setup/confirm', confirmRequiredTwoFactorSetup);
+
+/**
+ * @route POST /api/auth/refresh
+ * @desc Exchange a refresh token for a new access token
+ * @access Public
+ */
+router.post('/refresh', refreshToken);
+
+/**
+ * @route POST /api/auth/logout
+ * @desc Revoke the current session
+ * @access Private
+ */
+router.post('/logout', authenticate, requireSession, logout);
+
+/**
+ * @route POST /api/auth/logout-all
+ * @desc Revoke every session of the current user (log out all devices)
+ * @access Private
+ */
+router.post('/logout-all', authenticate, requireSession, logoutAllDevices);
+
+/**
+ * @route GET /api/auth/verify/:token
+ * @desc Verify a user's email address
+ * @access Public
+ */
+router.get('/verify/:token', verifyEmail);
+
+/**
+ * @route POST /api/auth/verify/resend
+ * @desc Resend the email verification link
+ * @access Public
+ */
+router.post('/verify/resend', resendVerificationEmail);
+
+/**
+ * @route POST /api/auth/forgot-password
+ * @desc Email a password reset link
+ * @access Public
+ */
+router.post('/forgot-password', forgotPassword);
+
+/**
+ * @route POST /api/auth/reset-password
+ * @desc Set a new password using a reset token
+ * @access Public
+ */
+router.post('/reset-password', resetPassword);
+
 // Export the router as a named export to be consistent with app.ts
 export { router };
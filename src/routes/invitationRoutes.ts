@@ -0,0 +1,17 @@
+// src/routes/invitationRoutes.ts
+import { Router } from 'express';
+import { createInvitation, getInvitations, revokeInvitation } from '../controllers/invitationController.js';
+import { authenticate, requireSession } from '../middleware/authMiddleware.js';
+
+const router = Router();
+
+// Invitations to register with vetted roles such as 'miner'. Who may invite is checked in
+// the service layer: holders of 'invitation.manage', or owners for their own organization.
+router.use(authenticate);
+router.use(requireSession);
+
+router.post('/', createInvitation);
+router.get('/', getInvitations);
+router.delete('/:id', revokeInvitation);
+
+export { router };
@@ -9,8 +9,8 @@ import {
   deleteListing,
   getListingsBySeller,
 } from '../controllers/listingController.js';
-import { authenticate } from '../middleware/authMiddleware.js';
-import { authorizeRoles } from '../middleware/authorizeMiddleware.js';
+import { authenticate, requireScope } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
 
 const router = Router();
 
@@ -19,12 +19,12 @@ router.get('/', getAllListings);
 router.get('/:id', getListingById);
 
 // Authenticated routes
-router.post('/', authenticate, authorizeRoles(['miner', 'admin']), createListing);
-router.put('/:id', authenticate, authorizeRoles(['miner', 'admin']), updateListing);
-router.delete('/:id', authenticate, authorizeRoles(['miner', 'admin']), deleteListing);
+router.post('/', authenticate, requireScope('listings:write'), requirePermission('listing.create'), createListing);
+router.put('/:id', authenticate, requireScope('listings:write'), requirePermission('listing.update'), updateListing);
+router.delete('/:id', authenticate, requireScope('listings:write'), requirePermission('listing.delete'), deleteListing);
 
 // Route to get listings by the authenticated seller
-router.get('/my-listings', authenticate, authorizeRoles(['miner', 'admin']), getListingsBySeller);
+router.get('/my-listings', authenticate, requireScope('listings:read'), requirePermission('listing.read_own'), getListingsBySeller);
 
 // Export the router as a named export
 export { router }; // <--- THIS LINE IS CRUCIAL AND MUST BE PRESENT
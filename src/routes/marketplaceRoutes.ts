@@ -4,13 +4,29 @@ import { Router } from 'express';
 import {
   createListing,
   getAllListings,
+  searchListings,
+  getListingFeed,
   getListingById,
   updateListing,
   deleteListing,
   getListingsBySeller,
 } from '../controllers/listingController.js'; 
-import { authenticate } from '../middleware/authMiddleware.js';
-import { authorizeRoles } from '../middleware/authorizeMiddleware.js';
+import {
+  getListingAttachments,
+  getListingAttachmentFile,
+  uploadListingPhoto,
+  uploadListingDocument,
+  reorderListingPhotos,
+  reorderListingDocuments,
+  deleteListingPhoto,
+  deleteListingDocument,
+} from '../controllers/listingAttachmentController.js';
+import { getCommodities } from '../controllers/commodityController.js';
+import { getFxRates } from '../controllers/fxRateController.js';
+import { authenticate, requireScope } from '../middleware/authMiddleware.js';
+import { uploadSingleFile } from '../middleware/uploadMiddleware.js';
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
+import { config } from '../config/config.js';
 import { router as offerRoutes } from './offerRoutes.js'; // Ensure this is imported for nesting
 
 const router = Router();
@@ -18,8 +34,19 @@ const router = Router();
 // Public routes (no authentication needed to view listings)
 // This will handle GET /api/marketplace/listings
 router.get('/listings', getAllListings);
+// This will handle GET /api/marketplace/listings/search?q=...
+router.get('/listings/search', searchListings);
+// This will handle GET /api/marketplace/listings/feed?cursor=...
+router.get('/listings/feed', getListingFeed);
 // This will handle GET /api/marketplace/listings/:id
 router.get('/listings/:id', getListingById);
+// Photos and documents, in their set order, and their files
+router.get('/listings/:id/attachments', getListingAttachments);
+router.get('/listings/:id/attachments/:attachmentId/file', getListingAttachmentFile);
+// Commodities that can be listed, with their aliases, units and specification fields
+router.get('/commodities', getCommodities);
+// Exchange rates used to show and compare prices across currencies
+router.get('/fx-rates', getFxRates);
 
 
 // Authenticated routes
@@ -29,13 +56,22 @@ router.use(authenticate); // All routes below this will require authentication
 // This creates paths like /api/marketplace/offers/my-offers, which aligns with your logs.
 router.use('/offers', offerRoutes); 
 
-// Seller-specific routes (only 'miner' and 'admin' roles can manage listings)
-router.post('/listings', authorizeRoles(['miner', 'admin']), createListing);
-router.put('/listings/:id', authorizeRoles(['miner', 'admin']), updateListing);
-router.delete('/listings/:id', authorizeRoles(['miner', 'admin']), deleteListing);
+// Seller-specific routes (roles with the listing.* permissions, e.g. miners and admins)
+router.post('/listings', requireScope('listings:write'), requirePermission('listing.create'), createListing);
+router.put('/listings/:id', requireScope('listings:write'), requirePermission('listing.update'), updateListing);
+router.delete('/listings/:id', requireScope('listings:write'), requirePermission('listing.delete'), deleteListing);
+
+// Photos and documents (multipart uploads in the 'file' field); managed like the listing itself
+const manageListing = [requireScope('listings:write'), requirePermission('listing.update')];
+router.post('/listings/:id/photos', ...manageListing, uploadSingleFile('file', config.maxPhotoSizeMb), uploadListingPhoto);
+router.put('/listings/:id/photos/order', ...manageListing, reorderListingPhotos);
+router.delete('/listings/:id/photos/:attachmentId', ...manageListing, deleteListingPhoto);
+router.post('/listings/:id/documents', ...manageListing, uploadSingleFile('file', config.maxDocumentSizeMb), uploadListingDocument);
+router.put('/listings/:id/documents/order', ...manageListing, reorderListingDocuments);
+router.delete('/listings/:id/documents/:attachmentId', ...manageListing, deleteListingDocument);
 
-// Get listings by the authenticated seller (miner/admin)
-router.get('/my-listings/seller', authorizeRoles(['miner', 'admin']), getListingsBySeller);
+// Get listings by the authenticated seller
+router.get('/my-listings/seller', requireScope('listings:read'), requirePermission('listing.read_own'), getListingsBySeller);
 
 // Export the router as a named export directly
 export { router };
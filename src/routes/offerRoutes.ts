@@ -8,8 +8,8 @@ import {
   updateOfferStatus,
   getOfferById,
 } from '../controllers/offerController.js'; // Corrected import path/name
-import { authenticate } from '../middleware/authMiddleware.js';
-import { authorizeRoles } from '../middleware/authorizeMiddleware.js'; // This path must be correct!
+import { authenticate, requireScope } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
 
 const router = Router();
 
@@ -17,19 +17,19 @@ const router = Router();
 router.use(authenticate); // All routes below this will require authentication
 
 // Buyer can create offers
-router.post('/', authorizeRoles(['buyer', 'admin']), createOffer);
+router.post('/', requireScope('offers:write'), requirePermission('offer.create'), createOffer);
 
 // Seller/Admin can view offers for their listings
-router.get('/listing/:listingId', authorizeRoles(['miner', 'admin']), getOffersByListing);
+router.get('/listing/:listingId', requireScope('offers:read'), requirePermission('offer.read_received'), getOffersByListing);
 
 // Buyer/Admin can view their own offers
-router.get('/my-offers', authorizeRoles(['buyer', 'admin']), getOffersByBuyer);
+router.get('/my-offers', requireScope('offers:read'), requirePermission('offer.read_own'), getOffersByBuyer);
 
 // Seller/Admin can update offer status
-router.put('/:id/status', authorizeRoles(['miner', 'admin']), updateOfferStatus);
+router.put('/:id/status', requireScope('offers:write'), requirePermission('offer.accept'), updateOfferStatus);
 
 // Get a specific offer by ID (optional, but good for detail views)
-router.get('/:id', authorizeRoles(['buyer', 'miner', 'admin']), getOfferById);
+router.get('/:id', requireScope('offers:read'), requirePermission('offer.read'), getOfferById);
 
 // Export the router as a named export directly
 export { router }; // <--- CHANGED: Export 'router' as a named export
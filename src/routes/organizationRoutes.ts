@@ -0,0 +1,42 @@
+// src/routes/organizationRoutes.ts
+import { Router } from 'express';
+import {
+  createOrganization,
+  getMyOrganizations,
+  getOrganization,
+  updateOrganization,
+  inviteMember,
+  getInvitations,
+  revokeInvitation,
+  acceptInvitation,
+  updateMemberRole,
+  removeMember,
+} from '../controllers/organizationController.js';
+import { authenticate, requireSession } from '../middleware/authMiddleware.js';
+
+const router = Router();
+
+// All organization routes require authentication; membership and organization
+// roles (owner/trader/viewer) are checked in the service layer.
+router.use(authenticate);
+router.use(requireSession);
+
+router.post('/', createOrganization);
+router.get('/', getMyOrganizations);
+
+// Accept an invitation sent to the logged-in user's email
+router.post('/invitations/accept', acceptInvitation);
+
+router.get('/:id', getOrganization);
+router.put('/:id', updateOrganization);
+
+// Invitations (owners only)
+router.post('/:id/invitations', inviteMember);
+router.get('/:id/invitations', getInvitations);
+router.delete('/:id/invitations/:invitationId', revokeInvitation);
+
+// Members
+router.put('/:id/members/:userId', updateMemberRole);
+router.delete('/:id/members/:userId', removeMember);
+
+export { router };
@@ -4,9 +4,10 @@ import {
   createCheckoutSession,
   handleWebhook,
   getTransactionDetails,
+  getTransactionHistory,
 } from '../controllers/paymentController.js';
-import { authenticate } from '../middleware/authMiddleware.js';
-import { authorizeRoles } from '../middleware/authorizeMiddleware.js'; 
+import { authenticate, requireScope } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
 
 const router = Router();
 
@@ -14,13 +15,23 @@ const router = Router();
 router.post(
   '/',
   authenticate,
-  authorizeRoles(['buyer', 'admin']),
+  requireScope('transactions:write'),
+  requirePermission('payment.checkout'),
   createCheckoutSession
 );
 
 // Route for Stripe webhooks (no authentication needed as Stripe sends the webhook)
 router.post('/webhook', handleWebhook);
 
+// The authenticated user's transaction history (cursor-paginated)
+router.get(
+  '/transactions',
+  authenticate,
+  requireScope('transactions:read'),
+  requirePermission('transaction.read_own'),
+  getTransactionHistory
+);
+
 // Route to get transaction details by ID
 // This route should NOT require authentication as it's hit directly after Stripe redirect
 // and the user might not have an active session.
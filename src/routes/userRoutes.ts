@@ -7,10 +7,27 @@ import {
   getProfile,
   updateProfile,
   setUserComplianceStatus,
-  getAllUsers,
+  searchUsers,
+  setUserRole,
+  unlockUser,
+  exportMyData,
+  deleteMyAccount,
 } from '../controllers/userController.js';
-import { authenticate } from '../middleware/authMiddleware.js';
-import { authorizeRoles } from '../middleware/authorizeMiddleware.js';
+import {
+  setupTwoFactor,
+  confirmTwoFactor,
+  disableTwoFactor,
+  regenerateRecoveryCodes,
+} from '../controllers/twoFactorController.js';
+import {
+  createApiKey,
+  getApiKeys,
+  getApiKey,
+  updateApiKey,
+  revokeApiKey,
+} from '../controllers/apiKeyController.js';
+import { authenticate, requireSession, forbidImpersonation } from '../middleware/authMiddleware.js';
+import { requirePermission } from '../middleware/authorizeMiddleware.js';
 
 const router = Router();
 
@@ -18,12 +35,32 @@ router.post('/register', registerUser);
 router.post('/login', loginUser);
 
 router.use(authenticate); // Apply authentication middleware to all routes below this
+router.use(requireSession); // Account management is not available to API keys
 
 router.get('/profile', getProfile);
 router.put('/profile', updateProfile);
 
-router.put('/compliance/:userId/status', authorizeRoles(['admin']), setUserComplianceStatus);
-router.get('/', authorizeRoles(['admin']), getAllUsers);
+// Personal data export and account deletion for the logged-in user
+router.get('/me/export', forbidImpersonation, exportMyData);
+router.delete('/me', deleteMyAccount);
+
+// Two-factor authentication management for the logged-in user
+router.post('/2fa/setup', setupTwoFactor);
+router.post('/2fa/confirm', confirmTwoFactor);
+router.post('/2fa/disable', disableTwoFactor);
+router.post('/2fa/recovery-codes', regenerateRecoveryCodes);
+
+// API keys for programmatic access (the plain key is only returned on creation)
+router.post('/api-keys', createApiKey);
+router.get('/api-keys', forbidImpersonation, getApiKeys);
+router.get('/api-keys/:id', forbidImpersonation, getApiKey);
+router.put('/api-keys/:id', updateApiKey);
+router.delete('/api-keys/:id', revokeApiKey);
+
+router.put('/compliance/:userId/status', requirePermission('compliance.review'), setUserComplianceStatus);
+router.get('/', requirePermission('user.read'), searchUsers);
+router.put('/:id/role', requirePermission('user.manage_roles'), setUserRole);
+router.post('/:id/unlock', requirePermission('user.unlock'), unlockUser);
 
 // Export the router as a named export
 export { router }; // <--- THIS LINE IS CRUCIAL AND MUST BE PRESENT
@@ -0,0 +1,61 @@
+// src/scripts/createAdmin.ts
+// Bootstraps the first admin account:
+//   npm run admin:create -- --email admin@example.com --first-name Ada --last-name Lovelace \
+//     --company "Mining Marketplace" --location London
+// The password is read from --password or, preferably, the ADMIN_PASSWORD environment variable
+// so it does not end up in shell history.
+import { parseArgs } from 'util';
+import { UserService } from '../services/userService.js';
+import { closePool } from '../config/database.js';
+
+const usage = `Usage: npm run admin:create -- --email <email> --first-name <name> --last-name <name>
+       --company <company> --location <location> [--password <password>]`;
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      email: { type: 'string' },
+      password: { type: 'string' },
+      'first-name': { type: 'string' },
+      'last-name': { type: 'string' },
+      company: { type: 'string' },
+      location: { type: 'string' },
+    },
+  });
+
+  const password = values.password || process.env.ADMIN_PASSWORD;
+  const { email, company, location } = values;
+  const firstName = values['first-name'];
+  const lastName = values['last-name'];
+
+  if (!email || !password || !firstName || !lastName || !company || !location) {
+    console.error(usage);
+    process.exitCode = 1;
+    return;
+  }
+  if (password.length < 8) {
+    console.error('Password must be at least 8 characters long.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const userService = new UserService();
+  const admin = await userService.createInitialAdmin({
+    firstName,
+    lastName,
+    email,
+    password,
+    companyName: company,
+    location,
+  });
+
+  console.log(`✅ Admin account created for ${admin.email} (ID ${admin.id}).`);
+  console.log('You will be asked to set up two-factor authentication the first time you log in.');
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to create admin account:', error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
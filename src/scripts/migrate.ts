@@ -0,0 +1,71 @@
+// src/scripts/migrate.ts
+// Applies and reverts the versioned SQL migrations in migrations/:
+//   npm run db:migrate                          apply every pending migration
+//   npm run migrate -- up --to 20261019120000   apply pending migrations up to a version
+//   npm run migrate -- down [--steps 2]         revert the latest migration(s)
+//   npm run db:migrate:status                   list migrations and whether they are applied
+import { parseArgs } from 'util';
+import { MigrationService } from '../services/migrationService.js';
+import { closePool } from '../config/database.js';
+
+const usage = `Usage: npm run migrate -- up [--to <version>]
+       npm run migrate -- down [--steps <count>]
+       npm run migrate -- status`;
+
+const main = async (): Promise<void> => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      to: { type: 'string' },
+      steps: { type: 'string' },
+    },
+  });
+
+  const [command] = positionals;
+  const migrationService = new MigrationService();
+
+  if (command === 'up') {
+    const applied = await migrationService.up(values.to);
+    console.log(
+      applied.length > 0 ? `✅ Applied ${applied.length} migration(s).` : '✅ Database is up to date.'
+    );
+    return;
+  }
+
+  if (command === 'down') {
+    const steps = values.steps === undefined ? 1 : Number(values.steps);
+    if (!Number.isInteger(steps) || steps < 1) {
+      console.error('--steps must be a positive whole number.');
+      process.exitCode = 1;
+      return;
+    }
+    const reverted = await migrationService.down(steps);
+    console.log(
+      reverted.length > 0 ? `✅ Reverted ${reverted.length} migration(s).` : '✅ No migrations to revert.'
+    );
+    return;
+  }
+
+  if (command === 'status') {
+    const statuses = await migrationService.status();
+    for (const status of statuses) {
+      const state = status.appliedAt ? `applied ${status.appliedAt.toISOString()}` : 'pending';
+      const warning = status.missing ? ' (file missing)' : status.modified ? ' (modified since applied)' : '';
+      console.log(`${status.version}_${status.name}  ${state}${warning}`);
+    }
+    if (statuses.length === 0) {
+      console.log('No migrations found.');
+    }
+    return;
+  }
+
+  console.error(usage);
+  process.exitCode = 1;
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Migration failed:', error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
@@ -0,0 +1,53 @@
+// src/scripts/seed.ts
+// Fills a development database with demo users, listings, offers and transactions:
+//   npm run db:seed                  small data set for local development and demos
+//   npm run db:seed -- --scale 500   load-test volumes (counts grow linearly with the scale)
+//   npm run db:seed -- --now 2027-01-01T00:00:00Z   dates relative to another day than SEED_NOW
+// The same --scale, --seed and --now always produce the same data (only the salted password
+// hash differs). Every account's password is printed at the end; admins are asked to set up
+// two-factor authentication on first login.
+import { parseArgs } from 'util';
+import { SeedService, SEED_PASSWORD, SEED_NOW, buildSeedData } from '../services/seedService.js';
+import { closePool } from '../config/database.js';
+
+const usage = 'Usage: npm run db:seed -- [--scale <count>] [--seed <number>] [--now <ISO date>]';
+
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      scale: { type: 'string', default: '1' },
+      seed: { type: 'string', default: '1' },
+      now: { type: 'string', default: SEED_NOW.toISOString() },
+    },
+  });
+
+  const scale = Number(values.scale);
+  const seed = Number(values.seed);
+  const now = new Date(values.now);
+  if (!Number.isInteger(scale) || scale < 1 || !Number.isInteger(seed) || Number.isNaN(now.getTime())) {
+    console.error(usage);
+    process.exitCode = 1;
+    return;
+  }
+  if (process.env.NODE_ENV === 'production') {
+    console.error('Refusing to seed a production database.');
+    process.exitCode = 1;
+    return;
+  }
+
+  const seedService = new SeedService();
+  const summary = await seedService.seed(buildSeedData(scale, seed, now));
+
+  console.log(
+    `✅ Seeded ${summary.users} users, ${summary.listings} listings, ${summary.offers} offers and ` +
+      `${summary.transactions} transactions.`
+  );
+  console.log(`Log in as admin1@example.com, buyer1@example.com or miner1@example.com with password ${SEED_PASSWORD}`);
+};
+
+main()
+  .catch((error) => {
+    console.error('❌ Failed to seed the database:', error.message || error);
+    process.exitCode = 1;
+  })
+  .finally(() => closePool());
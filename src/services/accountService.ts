@@ -0,0 +1,160 @@
+// src/services/accountService.ts
+import bcrypt from 'bcryptjs';
+import JSZip from 'jszip';
+import { UserModel, BackendUser } from '../models/userModel.js';
+import { PersonalDataModel } from '../models/personalDataModel.js';
+import { OrganizationModel } from '../models/organizationModel.js';
+import { ApiKeyModel } from '../models/apiKeyModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { TwoFactorService } from './twoFactorService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { generateToken } from '../utils/tokens.js';
+
+const userModel = new UserModel();
+const personalDataModel = new PersonalDataModel();
+const organizationModel = new OrganizationModel();
+const apiKeyModel = new ApiKeyModel();
+const auditModel = new AuditModel();
+const twoFactorService = new TwoFactorService();
+
+// Everything we hold about a user, as returned by GET /api/users/me/export
+export interface PersonalDataExport {
+  exportedAt: string;
+  profile: Record<string, unknown>;
+  organizations: unknown[];
+  listings: unknown[];
+  offersMade: unknown[];
+  offersReceived: unknown[];
+  transactions: unknown[];
+  sessions: unknown[];
+  apiKeys: unknown[];
+  activity: unknown[];
+}
+
+// Profile fields included in the export; hashes and secrets are left out
+const toExportProfile = (user: BackendUser): Record<string, unknown> => ({
+  id: user.id,
+  firstName: user.first_name,
+  lastName: user.last_name,
+  email: user.email,
+  role: user.role,
+  companyName: user.company_name,
+  phoneNumber: user.phone_number,
+  location: user.location,
+  complianceStatus: user.compliance_status,
+  emailVerified: user.email_verified,
+  twoFactorEnabled: user.two_factor_enabled,
+  preferredMineralTypes: user.preferred_mineral_types,
+  minimumPurchaseQuantity: user.minimum_purchase_quantity,
+  requiredRegulations: user.required_regulations,
+  createdAt: user.created_at,
+  updatedAt: user.updated_at,
+});
+
+export class AccountService {
+  /**
+   * Collects all personal data held about a user.
+   * @param userId - The user's ID.
+   * @returns The export bundle.
+   */
+  async exportPersonalData(userId: number): Promise<PersonalDataExport> {
+    const user = await userModel.getUserById(userId);
+    if (!user) {
+      throw new ApplicationError('User not found.', 404);
+    }
+
+    const offers = await personalDataModel.getOffers(userId);
+    const apiKeys = await apiKeyModel.getApiKeysByUserId(userId);
+
+    return {
+      exportedAt: new Date().toISOString(),
+      profile: toExportProfile(user),
+      organizations: await organizationModel.getOrganizationsForUser(userId),
+      listings: await personalDataModel.getListings(userId),
+      offersMade: offers.made,
+      offersReceived: offers.received,
+      transactions: await personalDataModel.getTransactions(userId),
+      sessions: await personalDataModel.getSessions(userId),
+      // Key hashes are credentials, not personal data
+      apiKeys: apiKeys.map((apiKey) => ({
+        id: apiKey.id,
+        name: apiKey.name,
+        keyPrefix: apiKey.key_prefix,
+        scopes: apiKey.scopes,
+        organizationId: apiKey.organization_id,
+        expiresAt: apiKey.expires_at,
+        lastUsedAt: apiKey.last_used_at,
+        lastUsedIp: apiKey.last_used_ip,
+        revokedAt: apiKey.revoked_at,
+        createdAt: apiKey.created_at,
+      })),
+      activity: await personalDataModel.getAuditEvents(userId),
+    };
+  }
+
+  /**
+   * Packages an export as a ZIP archive with one JSON file per section.
+   * @param data - The export bundle.
+   * @returns The ZIP file contents.
+   */
+  async buildExportArchive(data: PersonalDataExport): Promise<Buffer> {
+    const zip = new JSZip();
+    for (const [section, content] of Object.entries(data)) {
+      if (section !== 'exportedAt') {
+        zip.file(`${section}.json`, JSON.stringify(content, null, 2));
+      }
+    }
+    zip.file('README.txt', [
+      'Mining Marketplace personal data export',
+      `Exported at: ${data.exportedAt}`,
+      '',
+      'Each JSON file holds one kind of record: your profile, organizations, listings,',
+      'offers you made and received, transactions, login sessions, API keys and account activity.',
+    ].join('\n'));
+    return zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+  }
+
+  /**
+   * Closes an account by anonymizing it. The password (and a 2FA code, if enabled)
+   * must be re-entered. Financial records are kept for accounting, but no longer
+   * identify the user.
+   * @param userId - The user's ID.
+   * @param password - The user's current password.
+   * @param code - A TOTP or recovery code, required if two-factor authentication is enabled.
+   * @param context - The request, for the audit log.
+   */
+  async deleteAccount(userId: number, password: string, code: string | undefined, context: AuditContext): Promise<void> {
+    const user = await userModel.getUserById(userId);
+    if (!user) {
+      throw new ApplicationError('User not found.', 404);
+    }
+    if (!(await bcrypt.compare(password, user.password_hash))) {
+      throw new ApplicationError('Password is incorrect.', 401);
+    }
+    if (user.two_factor_enabled && (!code || !(await twoFactorService.verifyCode(user, code)))) {
+      throw new ApplicationError('A valid two-factor authentication code is required.', 401);
+    }
+
+    if (user.role === 'admin' && (await userModel.countUsersByRole('admin')) <= 1) {
+      throw new ApplicationError('The last admin account cannot be deleted.', 409);
+    }
+    const ownedOrganizations = await personalDataModel.getOrganizationsSolelyOwnedWithOtherMembers(userId);
+    if (ownedOrganizations.length > 0) {
+      const names = ownedOrganizations.map((organization) => organization.name).join(', ');
+      throw new ApplicationError(`Make another member an owner of ${names} before deleting your account.`, 409);
+    }
+    if ((await personalDataModel.countPendingTransactions(userId)) > 0) {
+      throw new ApplicationError('You have payments in progress. Wait for them to complete before deleting your account.', 409);
+    }
+
+    await personalDataModel.anonymizeUser(userId, await bcrypt.hash(generateToken(), 10));
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'user.deleted',
+      entityType: 'user',
+      entityId: userId,
+      before: { role: user.role },
+    });
+  }
+}
@@ -0,0 +1,155 @@
+// src/services/apiKeyService.ts
+import { ApiKeyModel, ApiKey } from '../models/apiKeyModel.js';
+import { UserModel, BackendUser } from '../models/userModel.js';
+import { OrganizationService, ORGANIZATION_TRADING_ROLES } from './organizationService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+
+const apiKeyModel = new ApiKeyModel();
+const userModel = new UserModel();
+const organizationService = new OrganizationService();
+
+// Every scope an API key can be granted. Routes reachable with an API key declare
+// the scope they need with requireScope(); account management always needs a login.
+export const API_KEY_SCOPES = [
+  'listings:read',
+  'listings:write',
+  'offers:read',
+  'offers:write',
+  'transactions:read',
+  'transactions:write',
+] as const;
+
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Prefix that identifies marketplace API keys, e.g. in a Bearer header or a secret scanner
+export const API_KEY_PREFIX = 'mmk_';
+
+// Number of leading characters stored in clear so users can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8;
+
+export class ApiKeyService {
+  /**
+   * Creates an API key. Organization-scoped keys can only be created by organization owners.
+   * @param userId - The creating user's ID; the key acts as this user.
+   * @param keyData - The key's name, scopes, optional expiry and optional organization.
+   * @returns The stored key and the plain key, which is never retrievable again.
+   */
+  async createApiKey(
+    userId: number,
+    keyData: { name: string; scopes: ApiKeyScope[]; expiresAt?: Date | null; organizationId?: number | null }
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    if (keyData.expiresAt && keyData.expiresAt.getTime() <= Date.now()) {
+      throw new ApplicationError('Expiry date must be in the future.', 400);
+    }
+    if (keyData.organizationId) {
+      await organizationService.assertMemberRole(keyData.organizationId, userId, ['owner']);
+    }
+
+    const key = `${API_KEY_PREFIX}${generateToken(24)}`;
+    const apiKey = await apiKeyModel.createApiKey({
+      userId,
+      organizationId: keyData.organizationId,
+      name: keyData.name,
+      keyPrefix: key.slice(0, DISPLAY_PREFIX_LENGTH),
+      keyHash: hashToken(key),
+      scopes: Array.from(new Set(keyData.scopes)),
+      expiresAt: keyData.expiresAt,
+    });
+    return { apiKey, key };
+  }
+
+  /**
+   * Lists a user's own API keys, or an organization's keys (owners only).
+   * @param userId - The requesting user's ID.
+   * @param organizationId - Optional organization to list keys for.
+   * @returns The API keys.
+   */
+  async getApiKeys(userId: number, organizationId?: number): Promise<ApiKey[]> {
+    if (organizationId) {
+      await organizationService.assertMemberRole(organizationId, userId, ['owner']);
+      return apiKeyModel.getApiKeysByOrganizationId(organizationId);
+    }
+    return apiKeyModel.getApiKeysByUserId(userId);
+  }
+
+  /**
+   * Fetches a single API key the user is allowed to manage.
+   * @param userId - The requesting user's ID.
+   * @param apiKeyId - The API key ID.
+   * @returns The API key.
+   */
+  async getApiKey(userId: number, apiKeyId: number): Promise<ApiKey> {
+    return this.getManageableApiKey(userId, apiKeyId);
+  }
+
+  /**
+   * Renames an API key or replaces its scopes.
+   * @param userId - The requesting user's ID.
+   * @param apiKeyId - The API key ID.
+   * @param updates - The new name and/or scopes.
+   * @returns The updated API key.
+   */
+  async updateApiKey(userId: number, apiKeyId: number, updates: { name?: string; scopes?: ApiKeyScope[] }): Promise<ApiKey> {
+    const apiKey = await this.getManageableApiKey(userId, apiKeyId);
+    if (apiKey.revoked_at) {
+      throw new ApplicationError('Revoked API keys cannot be changed.', 400);
+    }
+    return apiKeyModel.updateApiKey(apiKeyId, {
+      name: updates.name,
+      scopes: updates.scopes ? Array.from(new Set(updates.scopes)) : undefined,
+    });
+  }
+
+  /**
+   * Revokes an API key. Revocation takes effect on the key's next request.
+   * @param userId - The requesting user's ID.
+   * @param apiKeyId - The API key ID.
+   */
+  async revokeApiKey(userId: number, apiKeyId: number): Promise<void> {
+    await this.getManageableApiKey(userId, apiKeyId);
+    await apiKeyModel.revokeApiKey(apiKeyId);
+  }
+
+  /**
+   * Resolves a plain API key to the key record and the user it acts as.
+   * Organization-scoped keys stop working once their creator leaves the organization or
+   * is no longer an owner or trader there, so a key never does more than its creator could.
+   * @param key - The plain API key from the request.
+   * @param ipAddress - The client IP address, recorded as the key's last use.
+   * @returns The API key and its user.
+   */
+  async authenticateApiKey(key: string, ipAddress?: string): Promise<{ apiKey: ApiKey; user: BackendUser }> {
+    const apiKey = await apiKeyModel.findActiveByHash(hashToken(key));
+    const user = apiKey ? await userModel.getUserById(apiKey.user_id) : null;
+    if (!apiKey || !user) {
+      throw new ApplicationError('Invalid, expired or revoked API key.', 401);
+    }
+    if (apiKey.organization_id) {
+      const memberRole = await organizationService.getMemberRole(apiKey.organization_id, user.id);
+      if (!memberRole || !ORGANIZATION_TRADING_ROLES.includes(memberRole)) {
+        throw new ApplicationError('Invalid, expired or revoked API key.', 401);
+      }
+    }
+    await apiKeyModel.touchLastUsed(apiKey.id, ipAddress);
+    return { apiKey, user };
+  }
+
+  /**
+   * Loads an API key the user created, or one scoped to an organization they own.
+   */
+  private async getManageableApiKey(userId: number, apiKeyId: number): Promise<ApiKey> {
+    const apiKey = await apiKeyModel.getApiKeyById(apiKeyId);
+    if (!apiKey) {
+      throw new ApplicationError('API key not found.', 404);
+    }
+    if (apiKey.user_id === userId) {
+      return apiKey;
+    }
+    if (apiKey.organization_id && (await organizationService.getMemberRole(apiKey.organization_id, userId)) === 'owner') {
+      return apiKey;
+    }
+    // Don't reveal that someone else's key exists
+    throw new ApplicationError('API key not found.', 404);
+  }
+}
@@ -0,0 +1,51 @@
+// src/services/auditService.ts
+import { AuditModel, AuditEvent, AuditEventFilter } from '../models/auditModel.js';
+import { toCsv } from '../utils/csv.js';
+
+const auditModel = new AuditModel();
+
+// Upper bound on a single CSV export; narrow the filters to export older events
+export const MAX_AUDIT_EXPORT_ROWS = 10000;
+
+// Columns of the CSV export, in order
+const CSV_COLUMNS: Array<{ header: string; value: (event: AuditEvent) => unknown }> = [
+  { header: 'id', value: (event) => event.id },
+  { header: 'created_at', value: (event) => event.created_at },
+  { header: 'actor_id', value: (event) => event.actor_id },
+  { header: 'actor_email', value: (event) => event.actor_email },
+  { header: 'action', value: (event) => event.action },
+  { header: 'entity_type', value: (event) => event.entity_type },
+  { header: 'entity_id', value: (event) => event.entity_id },
+  { header: 'before', value: (event) => event.changes?.before },
+  { header: 'after', value: (event) => event.changes?.after },
+  { header: 'ip_address', value: (event) => event.ip_address },
+  { header: 'request_id', value: (event) => event.request_id },
+];
+
+export class AuditService {
+  /**
+   * Searches the audit log one page at a time, newest first.
+   * @param filter - Optional filters.
+   * @param page - 1-based page number.
+   * @param pageSize - Events per page.
+   * @returns The page of events and the total number of matches.
+   */
+  async getEvents(
+    filter: AuditEventFilter,
+    page: number,
+    pageSize: number
+  ): Promise<{ events: AuditEvent[]; total: number; page: number; pageSize: number }> {
+    const { events, total } = await auditModel.findEvents(filter, pageSize, (page - 1) * pageSize);
+    return { events, total, page, pageSize };
+  }
+
+  /**
+   * Exports matching audit events as CSV, newest first.
+   * @param filter - Optional filters.
+   * @returns The CSV text and whether the export was cut off at MAX_AUDIT_EXPORT_ROWS.
+   */
+  async exportCsv(filter: AuditEventFilter): Promise<{ csv: string; truncated: boolean }> {
+    const { events, total } = await auditModel.findEvents(filter, MAX_AUDIT_EXPORT_ROWS, 0);
+    return { csv: toCsv(CSV_COLUMNS, events), truncated: total > events.length };
+  }
+}
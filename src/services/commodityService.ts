@@ -0,0 +1,159 @@
+// src/services/commodityService.ts
+import { CommodityModel, Commodity, CommodityInput } from '../models/commodityModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const commodityModel = new CommodityModel();
+const auditModel = new AuditModel();
+
+// The fields of a commodity recorded in the audit log when it changes
+const auditSnapshot = (commodity: Commodity) => ({
+  code: commodity.code,
+  name: commodity.name,
+  category: commodity.category,
+  hs_code: commodity.hs_code,
+  default_unit: commodity.default_unit,
+  grade_unit: commodity.grade_unit,
+  allowed_forms: commodity.allowed_forms,
+  specification_fields: commodity.specification_fields,
+  active: commodity.active,
+  aliases: commodity.aliases,
+});
+
+export class CommodityService {
+  /**
+   * Gets the catalogue.
+   * @param includeInactive - Whether to include commodities that can no longer be listed.
+   * @returns The commodities with their aliases, by name.
+   */
+  async getCommodities(includeInactive = false): Promise<Commodity[]> {
+    return commodityModel.getCommodities(includeInactive);
+  }
+
+  /**
+   * Gets a commodity by ID.
+   * @param id - The commodity ID.
+   * @returns The commodity if found, otherwise null.
+   */
+  async getCommodityById(id: number): Promise<Commodity | null> {
+    return commodityModel.getCommodityById(id);
+  }
+
+  /**
+   * Finds the commodity a mineral type refers to, by name, code or alias.
+   * @param mineralType - The mineral type, e.g. 'Gold', 'Au' or 'gold ore'.
+   * @returns The commodity if found, otherwise null.
+   */
+  async findCommodity(mineralType: string): Promise<Commodity | null> {
+    return commodityModel.findCommodityByName(mineralType);
+  }
+
+  /**
+   * Resolves the mineral type of a new or changed listing to an active commodity.
+   * @param mineralType - The mineral type from the request.
+   * @returns The commodity.
+   */
+  async resolveCommodity(mineralType: string): Promise<Commodity> {
+    const commodity = await commodityModel.findCommodityByName(mineralType);
+    if (!commodity) {
+      throw new ApplicationError(
+        `Unknown mineral type '${mineralType}'. Use a commodity from GET /api/marketplace/commodities.`,
+        400
+      );
+    }
+    if (!commodity.active) {
+      throw new ApplicationError(`'${commodity.name}' can no longer be listed.`, 400);
+    }
+    return commodity;
+  }
+
+  /**
+   * Adds a commodity to the catalogue and records it in the audit log.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param data - The commodity.
+   * @returns The created commodity.
+   */
+  async createCommodity(context: AuditContext, data: CommodityInput): Promise<Commodity> {
+    const input = await this.prepareInput(data, null);
+    const commodity = await commodityModel.createCommodity(input);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'commodity.created',
+      entityType: 'commodity',
+      entityId: commodity.id,
+      after: auditSnapshot(commodity),
+    });
+    return commodity;
+  }
+
+  /**
+   * Replaces a commodity's details and aliases, and records it in the audit log. Renaming a
+   * commodity renames the mineral type of its listings.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param id - The commodity ID.
+   * @param data - The commodity's new details and complete list of aliases.
+   * @returns The updated commodity.
+   */
+  async updateCommodity(context: AuditContext, id: number, data: CommodityInput): Promise<Commodity> {
+    const before = await commodityModel.getCommodityById(id);
+    if (!before) {
+      throw new ApplicationError('Commodity not found.', 404);
+    }
+    const input = await this.prepareInput(data, id);
+    const commodity = await commodityModel.updateCommodity(id, input);
+    if (!commodity) {
+      throw new ApplicationError('Commodity not found.', 404);
+    }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'commodity.updated',
+      entityType: 'commodity',
+      entityId: id,
+      before: auditSnapshot(before),
+      after: auditSnapshot(commodity),
+    });
+    return commodity;
+  }
+
+  /**
+   * Deletes a commodity that no listing uses, and records it in the audit log. Commodities
+   * with listings are retired by making them inactive instead.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param id - The commodity ID.
+   */
+  async deleteCommodity(context: AuditContext, id: number): Promise<void> {
+    const commodity = await commodityModel.getCommodityById(id);
+    if (!commodity) {
+      throw new ApplicationError('Commodity not found.', 404);
+    }
+    if ((await commodityModel.countListings(id)) > 0) {
+      throw new ApplicationError('This commodity has listings; make it inactive instead.', 409);
+    }
+    await commodityModel.deleteCommodity(id);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'commodity.deleted',
+      entityType: 'commodity',
+      entityId: id,
+      before: auditSnapshot(commodity),
+    });
+  }
+
+  // Drops duplicate aliases and checks no other commodity already uses the code, name or an alias
+  private async prepareInput(data: CommodityInput, id: number | null): Promise<CommodityInput> {
+    const seen = new Set([data.code.toLowerCase(), data.name.toLowerCase()]);
+    const aliases = data.aliases.filter((alias) => {
+      const key = alias.toLowerCase();
+      return seen.has(key) ? false : (seen.add(key), true);
+    });
+
+    const taken = await commodityModel.findTakenNames([data.code, data.name, ...aliases], id);
+    if (taken.length > 0) {
+      throw new ApplicationError(`Already used by another commodity: ${taken.join(', ')}.`, 409);
+    }
+    return { ...data, aliases };
+  }
+}
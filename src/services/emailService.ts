@@ -0,0 +1,143 @@
+// src/services/emailService.ts
+import nodemailer, { Transporter } from 'nodemailer';
+import { config } from '../config/config.js';
+
+export class EmailService {
+  private transporter: Transporter;
+
+  constructor() {
+    this.transporter = nodemailer.createTransport({
+      host: config.emailService.host,
+      port: config.emailService.port,
+      secure: config.emailService.secure,
+      auth: {
+        user: config.emailService.auth.user,
+        pass: config.emailService.auth.pass,
+      },
+    });
+  }
+
+  /**
+   * Sends a plain email through the configured SMTP server.
+   * @param to - Recipient email address.
+   * @param subject - Email subject line.
+   * @param text - Plain text body.
+   * @param html - Optional HTML body.
+   */
+  async sendMail(to: string, subject: string, text: string, html?: string): Promise<void> {
+    await this.transporter.sendMail({
+      from: config.emailService.from,
+      to,
+      subject,
+      text,
+      html,
+    });
+  }
+
+  /**
+   * Sends the email verification link to a newly registered user.
+   * @param to - Recipient email address.
+   * @param firstName - Recipient's first name, used in the greeting.
+   * @param token - The plain verification token.
+   */
+  async sendVerificationEmail(to: string, firstName: string, token: string): Promise<void> {
+    const verifyUrl = `${config.frontendUrl}/verify-email/${token}`;
+    const text = [
+      `Hi ${firstName},`,
+      '',
+      'Please confirm your email address for the Mining Marketplace by opening the link below:',
+      verifyUrl,
+      '',
+      `This link expires in ${config.emailVerificationExpiresInHours} hours and can only be used once.`,
+    ].join('\n');
+
+    await this.sendMail(to, 'Verify your Mining Marketplace account', text);
+  }
+
+  /**
+   * Sends a password reset link.
+   * @param to - Recipient email address.
+   * @param firstName - Recipient's first name, used in the greeting.
+   * @param token - The plain reset token.
+   */
+  async sendPasswordResetEmail(to: string, firstName: string, token: string): Promise<void> {
+    const resetUrl = `${config.frontendUrl}/reset-password/${token}`;
+    const text = [
+      `Hi ${firstName},`,
+      '',
+      'We received a request to reset the password for your Mining Marketplace account.',
+      'You can choose a new password by opening the link below:',
+      resetUrl,
+      '',
+      `This link expires in ${config.passwordResetExpiresInMinutes} minutes and can only be used once.`,
+      'If you did not request a password reset you can ignore this email.',
+    ].join('\n');
+
+    await this.sendMail(to, 'Reset your Mining Marketplace password', text);
+  }
+
+  /**
+   * Tells a user their account was temporarily locked after repeated failed logins.
+   * @param to - Recipient email address.
+   * @param firstName - Recipient's first name, used in the greeting.
+   * @param lockedUntil - When the lockout ends.
+   */
+  async sendAccountLockedEmail(to: string, firstName: string, lockedUntil: Date): Promise<void> {
+    const text = [
+      `Hi ${firstName},`,
+      '',
+      'Your Mining Marketplace account has been temporarily locked after several failed login attempts.',
+      `You can try again after ${lockedUntil.toUTCString()}.`,
+      '',
+      'If this was not you, someone may be trying to guess your password. We recommend resetting it:',
+      `${config.frontendUrl}/forgot-password`,
+    ].join('\n');
+
+    await this.sendMail(to, 'Your Mining Marketplace account has been locked', text);
+  }
+
+  /**
+   * Sends an invitation to join an organization.
+   * @param to - Recipient email address.
+   * @param organizationName - Name of the inviting organization.
+   * @param inviterName - Full name of the member who sent the invitation.
+   * @param token - The plain invitation token.
+   */
+  async sendOrganizationInvitationEmail(to: string, organizationName: string, inviterName: string, token: string): Promise<void> {
+    const acceptUrl = `${config.frontendUrl}/organizations/invitations/${token}`;
+    const text = [
+      'Hi,',
+      '',
+      `${inviterName} has invited you to join ${organizationName} on the Mining Marketplace.`,
+      'To accept, log in (or register with this email address) and open the link below:',
+      acceptUrl,
+      '',
+      `This invitation expires in ${config.organizationInvitationExpiresInDays} days.`,
+    ].join('\n');
+
+    await this.sendMail(to, `You're invited to join ${organizationName} on the Mining Marketplace`, text);
+  }
+
+  /**
+   * Sends an invitation to register on the marketplace with a vetted role.
+   * @param to - Recipient email address.
+   * @param role - The role the invitee will register with.
+   * @param inviterName - Name of the person who sent the invitation.
+   * @param code - The plain invite code.
+   * @param expiresAt - When the invitation stops working.
+   */
+  async sendRegistrationInvitationEmail(to: string, role: string, inviterName: string, code: string, expiresAt: Date): Promise<void> {
+    const registerUrl = `${config.frontendUrl}/register?invite=${code}`;
+    const text = [
+      'Hi,',
+      '',
+      `${inviterName} has invited you to join the Mining Marketplace as a ${role}.`,
+      'To create your account, open the link below and register with this email address:',
+      registerUrl,
+      '',
+      `Your invite code is ${code}. It can be used once and expires on ${expiresAt.toUTCString()}.`,
+    ].join('\n');
+
+    await this.sendMail(to, `You're invited to join the Mining Marketplace as a ${role}`, text);
+  }
+}
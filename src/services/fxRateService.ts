@@ -0,0 +1,167 @@
+// src/services/fxRateService.ts
+import { FxRateModel, FxRate, FxRateSnapshot, BASE_CURRENCY } from '../models/fxRateModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { parseCsv } from '../utils/csv.js';
+
+const fxRateModel = new FxRateModel();
+const auditModel = new AuditModel();
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+// An import replaces rates for at most this many currencies
+const MAX_IMPORTED_RATES = 500;
+// How many problems an import error lists before giving up
+const MAX_REPORTED_PROBLEMS = 5;
+
+/**
+ * Parses an exchange rate CSV with `currency` and `rate` columns (in any order and case;
+ * other columns are ignored). Rates are units of the currency one US dollar buys.
+ * @param text - The CSV text.
+ * @returns The currencies and their rates.
+ */
+export const parseFxRatesCsv = (text: string): { currency: string; rate: number }[] => {
+  const [header = [], ...rows] = parseCsv(text);
+  const columns = header.map((name) => name.trim().toLowerCase());
+  const currencyColumn = columns.indexOf('currency');
+  const rateColumn = columns.indexOf('rate');
+  if (currencyColumn === -1 || rateColumn === -1) {
+    throw new ApplicationError('The CSV needs a header row with "currency" and "rate" columns.', 400);
+  }
+  if (rows.length === 0 || rows.length > MAX_IMPORTED_RATES) {
+    throw new ApplicationError(`The CSV must have between 1 and ${MAX_IMPORTED_RATES} rates.`, 400);
+  }
+
+  const problems: string[] = [];
+  const seen = new Set<string>();
+  const rates = rows.map((row, i) => {
+    const line = i + 2; // After the header, counting from 1
+    const currency = (row[currencyColumn] ?? '').trim().toUpperCase();
+    const rateText = (row[rateColumn] ?? '').trim();
+    const rate = Number(rateText);
+    if (!CURRENCY_PATTERN.test(currency)) {
+      problems.push(`line ${line}: "${currency}" is not a three-letter currency code`);
+    } else if (seen.has(currency)) {
+      problems.push(`line ${line}: ${currency} appears more than once`);
+    } else if (rateText === '' || !Number.isFinite(rate) || rate <= 0) {
+      problems.push(`line ${line}: the rate must be a positive number`);
+    } else if (currency === BASE_CURRENCY && rate !== 1) {
+      problems.push(`line ${line}: ${BASE_CURRENCY} is the base currency, so its rate must be 1`);
+    }
+    seen.add(currency);
+    return { currency, rate };
+  });
+
+  if (problems.length > 0) {
+    throw new ApplicationError(`Invalid exchange rate CSV: ${problems.slice(0, MAX_REPORTED_PROBLEMS).join('; ')}.`, 400);
+  }
+  return rates;
+};
+
+export class FxRateService {
+  /**
+   * Gets every exchange rate.
+   * @returns The rates, by currency.
+   */
+  async getRates(): Promise<FxRate[]> {
+    return fxRateModel.getRates();
+  }
+
+  /**
+   * Gets the exchange rates for converting amounts with convertCurrency.
+   * @returns Units of each currency one US dollar buys, by currency code.
+   */
+  async getRateMap(): Promise<Map<string, number>> {
+    const rates = await fxRateModel.getRates();
+    return new Map(rates.map((rate) => [rate.currency, rate.rate]));
+  }
+
+  /**
+   * Snapshots the rate of a checkout's currency, to record on its transaction.
+   * @param currency - The checkout currency.
+   * @param amount - The amount being paid, in that currency.
+   * @returns The rate and the amount in the base currency.
+   */
+  async getCheckoutSnapshot(currency: string, amount: number): Promise<FxRateSnapshot> {
+    const rate = await fxRateModel.getRate(currency);
+    if (!rate) {
+      throw new ApplicationError(`Payments in ${currency} are not supported; there is no exchange rate for it.`, 400);
+    }
+    return {
+      base_currency: BASE_CURRENCY,
+      currency,
+      rate: rate.rate,
+      rate_updated_at: rate.updated_at,
+      base_amount: Math.round((amount / rate.rate) * 100) / 100,
+    };
+  }
+
+  /**
+   * Sets the exchange rate of a currency, and records it in the audit log.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param currency - The ISO 4217 currency code.
+   * @param rate - Units of the currency one US dollar buys.
+   * @returns The saved rate.
+   */
+  async saveRate(context: AuditContext, currency: string, rate: number): Promise<FxRate> {
+    if (currency === BASE_CURRENCY && rate !== 1) {
+      throw new ApplicationError(`${BASE_CURRENCY} is the base currency, so its rate must be 1.`, 400);
+    }
+    const before = await fxRateModel.getRate(currency);
+    const [saved] = await fxRateModel.saveRates([{ currency, rate }], 'manual', context.actorId);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'fx_rate.updated',
+      entityType: 'fx_rate',
+      entityId: currency,
+      before: before ? { rate: before.rate } : undefined,
+      after: { rate: saved.rate },
+    });
+    return saved;
+  }
+
+  /**
+   * Replaces exchange rates from a CSV upload, all or none, and records it in the audit log.
+   * Currencies missing from the file keep their current rates.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param csv - The CSV text (see parseFxRatesCsv).
+   * @returns The saved rates.
+   */
+  async importRates(context: AuditContext, csv: string): Promise<FxRate[]> {
+    const rates = parseFxRatesCsv(csv);
+    const saved = await fxRateModel.saveRates(rates, 'csv', context.actorId);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'fx_rate.imported',
+      entityType: 'fx_rate',
+      after: { rates: Object.fromEntries(saved.map((rate) => [rate.currency, rate.rate])) },
+    });
+    return saved;
+  }
+
+  /**
+   * Deletes the exchange rate of a currency, and records it in the audit log. Listings in the
+   * currency then drop out of price filters and cannot be shown in other currencies.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param currency - The ISO 4217 currency code.
+   */
+  async deleteRate(context: AuditContext, currency: string): Promise<void> {
+    if (currency === BASE_CURRENCY) {
+      throw new ApplicationError(`${BASE_CURRENCY} is the base currency and cannot be removed.`, 400);
+    }
+    const before = await fxRateModel.getRate(currency);
+    if (!before) {
+      throw new ApplicationError('Exchange rate not found.', 404);
+    }
+    await fxRateModel.deleteRate(currency);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'fx_rate.deleted',
+      entityType: 'fx_rate',
+      entityId: currency,
+      before: { rate: before.rate },
+    });
+  }
+}
@@ -0,0 +1,140 @@
+// src/services/impersonationService.ts
+import jwt from 'jsonwebtoken';
+import { UserModel, BackendUser } from '../models/userModel.js';
+import { SessionModel } from '../models/sessionModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { PermissionService } from './permissionService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { config } from '../config/config.js';
+
+const userModel = new UserModel();
+const sessionModel = new SessionModel();
+const auditModel = new AuditModel();
+const permissionService = new PermissionService();
+const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret_key'; // Use environment variable for secret
+
+// Claims of an impersonation token. `id` is the impersonated user so existing code that
+// reads the user ID keeps working; `imp` identifies the admin and the session it was
+// started from, so the token dies with the admin's login.
+export interface ImpersonationTokenPayload {
+  id: number;
+  tv: number;
+  imp: {
+    by: number;
+    sid: number;
+    tv: number;
+  };
+}
+
+// An impersonation token and the user it acts as
+export interface ImpersonationGrant {
+  token: string;
+  expiresAt: Date;
+  user: BackendUser;
+}
+
+const INVALID_TOKEN_MESSAGE = 'Impersonation token is no longer valid.';
+
+export class ImpersonationService {
+  /**
+   * Issues a short-lived token that lets an admin see the API as another user,
+   * and records it in the audit log. Users who can themselves impersonate
+   * (e.g. other admins) cannot be impersonated.
+   * @param context - The admin starting the impersonation and the request, for the audit log.
+   * @param sessionId - The admin's login session; the token is revoked with it.
+   * @param targetUserId - The user to impersonate.
+   * @returns The impersonation token, its expiry and the impersonated user.
+   */
+  async startImpersonation(context: AuditContext, sessionId: number, targetUserId: number): Promise<ImpersonationGrant> {
+    const admin = context.actorId !== null ? await userModel.getUserById(context.actorId) : null;
+    if (!admin) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+    if (admin.id === targetUserId) {
+      throw new ApplicationError('You cannot impersonate yourself.', 400);
+    }
+
+    const target = await userModel.getUserById(targetUserId);
+    if (!target || target.deleted_at) {
+      throw new ApplicationError('User not found.', 404);
+    }
+    if (await permissionService.hasPermission(target.role, 'user.impersonate')) {
+      throw new ApplicationError('Users who can impersonate others cannot be impersonated.', 403);
+    }
+
+    const expiresInSeconds = config.impersonationExpiresInMinutes * 60;
+    const payload: ImpersonationTokenPayload = {
+      id: target.id,
+      tv: target.token_version ?? 0,
+      imp: { by: admin.id, sid: sessionId, tv: admin.token_version ?? 0 },
+    };
+    const token = jwt.sign(payload, JWT_SECRET, { expiresIn: expiresInSeconds });
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'user.impersonation_started',
+      entityType: 'user',
+      entityId: target.id,
+      after: { role: target.role, expiresInMinutes: config.impersonationExpiresInMinutes },
+    });
+
+    return { token, expiresAt: new Date(Date.now() + expiresInSeconds * 1000), user: target };
+  }
+
+  /**
+   * Checks that a verified impersonation token is still valid: the admin's session is
+   * live and unexpired, the admin may still impersonate, and neither account's tokens have been revoked.
+   * @param payload - The verified token claims.
+   * @returns The impersonated user and the admin behind the request.
+   */
+  async resolveImpersonation(
+    payload: ImpersonationTokenPayload
+  ): Promise<{ user: BackendUser; impersonator: BackendUser; sessionId: number }> {
+    const session = await sessionModel.getSessionById(payload.imp.sid);
+    if (
+      !session ||
+      session.user_id !== payload.imp.by ||
+      session.revoked_at ||
+      new Date(session.expires_at) <= new Date()
+    ) {
+      throw new ApplicationError(INVALID_TOKEN_MESSAGE, 401);
+    }
+
+    const impersonator = await userModel.getUserById(payload.imp.by);
+    if (
+      !impersonator ||
+      impersonator.deleted_at ||
+      (impersonator.token_version ?? 0) !== payload.imp.tv ||
+      !(await permissionService.hasPermission(impersonator.role, 'user.impersonate'))
+    ) {
+      throw new ApplicationError(INVALID_TOKEN_MESSAGE, 401);
+    }
+
+    const user = await userModel.getUserById(payload.id);
+    if (!user || user.deleted_at || (user.token_version ?? 0) !== payload.tv) {
+      throw new ApplicationError(INVALID_TOKEN_MESSAGE, 401);
+    }
+
+    return { user, impersonator, sessionId: session.id };
+  }
+
+  /**
+   * Records one request made while impersonating.
+   * @param context - The admin behind the request and the request, for the audit log.
+   * @param userId - The impersonated user.
+   * @param request - What was requested and how it ended.
+   */
+  async recordImpersonatedRequest(
+    context: AuditContext,
+    userId: number,
+    request: { method: string; path: string; statusCode: number }
+  ): Promise<void> {
+    await auditModel.recordEvent({
+      ...context,
+      action: 'user.impersonated_request',
+      entityType: 'user',
+      entityId: userId,
+      after: request,
+    });
+  }
+}
@@ -0,0 +1,260 @@
+// src/services/invitationService.ts
+import {
+  InvitationModel,
+  RegistrationInvitation,
+  RegistrationInvitationFilter,
+} from '../models/invitationModel.js';
+import { OrganizationModel, OrganizationRole } from '../models/organizationModel.js';
+import { UserModel } from '../models/userModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { EmailService } from './emailService.js';
+import { PermissionService } from './permissionService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { config } from '../config/config.js';
+
+const invitationModel = new InvitationModel();
+const organizationModel = new OrganizationModel();
+const userModel = new UserModel();
+const auditModel = new AuditModel();
+const emailService = new EmailService();
+const permissionService = new PermissionService();
+
+// Roles anyone may register with, without an invitation
+export const OPEN_REGISTRATION_ROLES = ['buyer'];
+
+// Roles organization owners may invite; holders of 'invitation.manage' may invite any role
+// without administrative permissions whose permissions they hold themselves
+const ORGANIZATION_INVITABLE_ROLES = ['miner'];
+
+// Role new members get in the inviting organization
+const INVITED_MEMBER_ORGANIZATION_ROLE: OrganizationRole = 'trader';
+
+// Input for creating an invitation
+export interface RegistrationInvitationInput {
+  email?: string; // Emailed invitation; omit to get a code to hand out
+  role: string;
+  organizationId?: number;
+  companyName?: string;
+  expiresInDays?: number;
+}
+
+export class InvitationService {
+  /**
+   * Creates an invitation to register with a vetted role. Holders of 'invitation.manage'
+   * may invite for any role without administrative permissions, as long as they hold all of
+   * its permissions themselves; organization owners may invite miners to their organization.
+   * Emailed invitations are sent straight away.
+   * @param context - The inviter and the request, for the audit log.
+   * @param input - The invitation details.
+   * @returns The invitation and its plain code, which is not stored and cannot be shown again.
+   */
+  async createInvitation(
+    context: AuditContext,
+    input: RegistrationInvitationInput
+  ): Promise<{ invitation: RegistrationInvitation; code: string }> {
+    const inviter = context.actorId !== null ? await userModel.getUserById(context.actorId) : null;
+    if (!inviter) {
+      throw new ApplicationError('User not authenticated.', 401);
+    }
+
+    const canManage = await permissionService.hasPermission(inviter.role, 'invitation.manage');
+    if (!(await permissionService.roleExists(input.role))) {
+      throw new ApplicationError('Role not found.', 400);
+    }
+    // Administrative roles (admin among them) are only ever given by promoting an existing user
+    if (await permissionService.requiresTwoFactor(input.role)) {
+      throw new ApplicationError('Roles with administrative permissions cannot be invited; promote an existing user instead.', 400);
+    }
+    if (canManage) {
+      const inviterPermissions = await permissionService.getPermissionsForRole(inviter.role);
+      const missing = [...(await permissionService.getPermissionsForRole(input.role))].filter(
+        (permission) => !inviterPermissions.has(permission)
+      );
+      if (missing.length > 0) {
+        throw new ApplicationError(`You cannot invite users to a role with permissions you do not have: ${missing.join(', ')}.`, 403);
+      }
+    }
+
+    let companyName = input.companyName ?? null;
+    if (input.organizationId !== undefined) {
+      const organization = await organizationModel.getOrganizationById(input.organizationId);
+      if (!organization) {
+        throw new ApplicationError('Organization not found.', 404);
+      }
+      if (!canManage) {
+        await this.assertOrganizationOwner(input.organizationId, inviter.id);
+      }
+      companyName = companyName ?? organization.name;
+    } else if (!canManage) {
+      throw new ApplicationError('You do not have permission to perform this action.', 403);
+    }
+    if (!canManage && !ORGANIZATION_INVITABLE_ROLES.includes(input.role)) {
+      throw new ApplicationError(`Organization owners can only invite: ${ORGANIZATION_INVITABLE_ROLES.join(', ')}.`, 403);
+    }
+
+    const email = input.email ? input.email.toLowerCase() : null;
+    if (email && (await userModel.getUserByEmail(email))) {
+      throw new ApplicationError('A user with this email already exists.', 409);
+    }
+
+    const code = generateToken(12);
+    const expiresInDays = input.expiresInDays ?? config.registrationInvitationExpiresInDays;
+    const invitation = await invitationModel.createInvitation({
+      codeHash: hashToken(code),
+      email,
+      role: input.role,
+      organizationId: input.organizationId ?? null,
+      companyName,
+      invitedBy: inviter.id,
+      expiresAt: new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000),
+    });
+
+    if (email) {
+      await emailService.sendRegistrationInvitationEmail(
+        email,
+        invitation.role,
+        `${inviter.first_name} ${inviter.last_name}`,
+        code,
+        invitation.expires_at
+      );
+    }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'invitation.created',
+      entityType: 'invitation',
+      entityId: invitation.id,
+      after: { email, role: invitation.role, organizationId: invitation.organization_id, companyName },
+    });
+
+    return { invitation, code };
+  }
+
+  /**
+   * Lists invitations. Holders of 'invitation.manage' see every invitation; organization
+   * owners see their organization's.
+   * @param actorId - The requesting user's ID.
+   * @param actorRole - The requesting user's role.
+   * @param filter - Optional filters.
+   * @returns The invitations, newest first.
+   */
+  async getInvitations(
+    actorId: number,
+    actorRole: string,
+    filter: RegistrationInvitationFilter
+  ): Promise<RegistrationInvitation[]> {
+    if (!(await permissionService.hasPermission(actorRole, 'invitation.manage'))) {
+      if (filter.organizationId === undefined) {
+        throw new ApplicationError('You do not have permission to perform this action.', 403);
+      }
+      await this.assertOrganizationOwner(filter.organizationId, actorId);
+    }
+    return invitationModel.getInvitations(filter);
+  }
+
+  /**
+   * Revokes an invitation that has not been used yet, and records it in the audit log.
+   * @param context - The user revoking the invitation and the request, for the audit log.
+   * @param actorRole - The requesting user's role.
+   * @param invitationId - The invitation ID.
+   */
+  async revokeInvitation(context: AuditContext, actorRole: string, invitationId: number): Promise<void> {
+    const invitation = await invitationModel.getInvitationById(invitationId);
+    if (!invitation) {
+      throw new ApplicationError('Invitation not found.', 404);
+    }
+    if (!(await permissionService.hasPermission(actorRole, 'invitation.manage'))) {
+      if (invitation.organization_id === null || context.actorId === null) {
+        throw new ApplicationError('You do not have permission to perform this action.', 403);
+      }
+      await this.assertOrganizationOwner(invitation.organization_id, context.actorId);
+    }
+
+    const revoked = await invitationModel.revokeInvitation(invitationId);
+    if (!revoked) {
+      throw new ApplicationError('Only invitations that have not been used can be revoked.', 409);
+    }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'invitation.revoked',
+      entityType: 'invitation',
+      entityId: invitationId,
+      before: { status: invitation.status },
+      after: { status: revoked.status },
+    });
+  }
+
+  /**
+   * Looks up a usable invitation by code, so the registration form can show what it grants.
+   * @param code - The plain invite code.
+   * @returns The invitation.
+   */
+  async getInvitationByCode(code: string): Promise<RegistrationInvitation> {
+    const invitation = await invitationModel.findUsableInvitationByCodeHash(hashToken(code));
+    if (!invitation) {
+      throw new ApplicationError('Invalid or expired invitation.', 404);
+    }
+    return invitation;
+  }
+
+  /**
+   * Claims an invitation for a registration in progress. Call completeInvitation once
+   * the user exists, or releaseInvitation if registration fails.
+   * @param code - The plain invite code.
+   * @param email - The registering email address.
+   * @returns The claimed invitation.
+   */
+  async claimInvitation(code: string, email: string): Promise<RegistrationInvitation> {
+    const invitation = await invitationModel.claimInvitation(hashToken(code), email);
+    if (!invitation) {
+      throw new ApplicationError('Invalid or expired invitation.', 400);
+    }
+    return invitation;
+  }
+
+  /**
+   * Makes a claimed invitation usable again after its registration failed.
+   * @param invitation - The claimed invitation.
+   */
+  async releaseInvitation(invitation: RegistrationInvitation): Promise<void> {
+    await invitationModel.releaseInvitation(invitation.id);
+  }
+
+  /**
+   * Finishes an accepted invitation: links it to the new user, adds them to the inviting
+   * organization, and records the acceptance in the audit log.
+   * @param invitation - The claimed invitation.
+   * @param context - The new user and the request, for the audit log.
+   */
+  async completeInvitation(invitation: RegistrationInvitation, context: AuditContext): Promise<void> {
+    if (context.actorId === null) {
+      return;
+    }
+    await invitationModel.setAcceptedBy(invitation.id, context.actorId);
+    if (invitation.organization_id !== null) {
+      await organizationModel.addMember(invitation.organization_id, context.actorId, INVITED_MEMBER_ORGANIZATION_ROLE);
+    }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'invitation.accepted',
+      entityType: 'invitation',
+      entityId: invitation.id,
+      after: { userId: context.actorId, role: invitation.role, organizationId: invitation.organization_id },
+    });
+  }
+
+  /**
+   * Ensures a user owns an organization.
+   * @param organizationId - The organization ID.
+   * @param userId - The user's ID.
+   */
+  private async assertOrganizationOwner(organizationId: number, userId: number): Promise<void> {
+    const membership = await organizationModel.getMembership(organizationId, userId);
+    if (!membership || membership.role !== 'owner') {
+      throw new ApplicationError('Only organization owners can manage its invitations.', 403);
+    }
+  }
+}
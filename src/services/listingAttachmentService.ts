@@ -0,0 +1,239 @@
+// src/services/listingAttachmentService.ts
+import crypto from 'crypto';
+import { Readable } from 'stream';
+import sharp from 'sharp';
+import {
+  ListingAttachmentModel,
+  ListingAttachment,
+  ListingAttachmentKind,
+  ListingDocumentType,
+  CreateListingAttachmentInput,
+} from '../models/listingAttachmentModel.js';
+import { FileStorage, getFileStorage } from './storageService.js';
+import { config } from '../config/config.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { sniffFileType } from '../utils/fileType.js';
+
+const listingAttachmentModel = new ListingAttachmentModel();
+
+// File types accepted for each kind of attachment, by detected content
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+const DOCUMENT_MIME_TYPES = ['application/pdf'];
+
+// Thumbnails fit within a square of this many pixels and are stored as WebP
+const THUMBNAIL_SIZE = 400;
+
+// Storage keys of an attachment's files
+const storedKeys = (attachment: CreateListingAttachmentInput): string[] =>
+  attachment.thumbnail_key ? [attachment.storage_key, attachment.thumbnail_key] : [attachment.storage_key];
+
+// A file received from a multipart upload
+export interface UploadedFile {
+  originalName: string;
+  data: Buffer;
+}
+
+export class ListingAttachmentService {
+  private storage: FileStorage;
+
+  constructor(storage: FileStorage = getFileStorage()) {
+    this.storage = storage;
+  }
+
+  /**
+   * Gets a listing's photos and documents, each in their set order.
+   * @param listingId - The listing ID.
+   * @returns The attachments: photos first, then documents.
+   */
+  async getAttachments(listingId: number): Promise<ListingAttachment[]> {
+    return listingAttachmentModel.getAttachmentsByListingId(listingId);
+  }
+
+  /**
+   * Adds a photo to the end of a listing's photos. The photo is re-encoded without its
+   * metadata (EXIF data can include where it was taken) and a thumbnail is generated.
+   * @param listingId - The listing ID.
+   * @param file - The uploaded JPEG, PNG or WebP image.
+   * @param uploadedBy - ID of the user uploading it.
+   * @returns The created attachment.
+   */
+  async addPhoto(listingId: number, file: UploadedFile, uploadedBy: number): Promise<ListingAttachment> {
+    await this.assertBelowLimit(listingId, 'photo', config.maxPhotosPerListing);
+    const fileType = sniffFileType(file.data);
+    if (!fileType || !PHOTO_MIME_TYPES.includes(fileType.mimeType)) {
+      throw new ApplicationError('Photos must be JPEG, PNG or WebP images.', 415);
+    }
+
+    let image: { data: Buffer; info: sharp.OutputInfo };
+    let thumbnail: Buffer;
+    try {
+      // rotate() applies the EXIF orientation before the metadata is dropped
+      image = await sharp(file.data).rotate().toBuffer({ resolveWithObject: true });
+      thumbnail = await sharp(image.data)
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'inside', withoutEnlargement: true })
+        .webp()
+        .toBuffer();
+    } catch (error) {
+      throw new ApplicationError('The photo could not be read; it may be corrupt.', 400, error as Error);
+    }
+
+    const baseKey = `listings/${listingId}/${crypto.randomUUID()}`;
+    return this.storeAttachment(
+      {
+        listing_id: listingId,
+        kind: 'photo',
+        document_type: null,
+        original_name: file.originalName,
+        mime_type: fileType.mimeType,
+        size_bytes: image.data.length,
+        storage_key: `${baseKey}.${fileType.extension}`,
+        thumbnail_key: `${baseKey}.thumb.webp`,
+        width: image.info.width,
+        height: image.info.height,
+        uploaded_by: uploadedBy,
+      },
+      image.data,
+      thumbnail
+    );
+  }
+
+  /**
+   * Adds a PDF document, such as an assay report or export permit, to the end of a listing's documents.
+   * @param listingId - The listing ID.
+   * @param file - The uploaded PDF.
+   * @param documentType - What the document is.
+   * @param uploadedBy - ID of the user uploading it.
+   * @returns The created attachment.
+   */
+  async addDocument(
+    listingId: number,
+    file: UploadedFile,
+    documentType: ListingDocumentType,
+    uploadedBy: number
+  ): Promise<ListingAttachment> {
+    await this.assertBelowLimit(listingId, 'document', config.maxDocumentsPerListing);
+    const fileType = sniffFileType(file.data);
+    if (!fileType || !DOCUMENT_MIME_TYPES.includes(fileType.mimeType)) {
+      throw new ApplicationError('Documents must be PDF files.', 415);
+    }
+
+    return this.storeAttachment(
+      {
+        listing_id: listingId,
+        kind: 'document',
+        document_type: documentType,
+        original_name: file.originalName,
+        mime_type: fileType.mimeType,
+        size_bytes: file.data.length,
+        storage_key: `listings/${listingId}/${crypto.randomUUID()}.${fileType.extension}`,
+        thumbnail_key: null,
+        width: null,
+        height: null,
+        uploaded_by: uploadedBy,
+      },
+      file.data
+    );
+  }
+
+  /**
+   * Sets the order of a listing's photos or documents.
+   * @param listingId - The listing ID.
+   * @param kind - Whether to reorder the photos or the documents.
+   * @param ids - Every photo (or document) ID of the listing, in the new order.
+   * @returns The listing's attachments of that kind, in the new order.
+   */
+  async reorderAttachments(listingId: number, kind: ListingAttachmentKind, ids: number[]): Promise<ListingAttachment[]> {
+    const current = await listingAttachmentModel.getAttachmentsByListingId(listingId, kind);
+    const currentIds = new Set(current.map((attachment) => attachment.id));
+    if (ids.length !== currentIds.size || new Set(ids).size !== ids.length || !ids.every((id) => currentIds.has(id))) {
+      throw new ApplicationError(`The new order must list each of the listing's ${kind}s exactly once.`, 400);
+    }
+
+    await listingAttachmentModel.reorderAttachments(listingId, kind, ids);
+    return listingAttachmentModel.getAttachmentsByListingId(listingId, kind);
+  }
+
+  /**
+   * Deletes one of a listing's photos or documents, with its stored files.
+   * @param listingId - The listing ID.
+   * @param attachmentId - The attachment ID.
+   * @param kind - The kind of attachment expected, so a photo cannot be deleted through the documents route.
+   */
+  async deleteAttachment(listingId: number, attachmentId: number, kind: ListingAttachmentKind): Promise<void> {
+    const attachment = await listingAttachmentModel.getAttachmentById(listingId, attachmentId);
+    if (!attachment || attachment.kind !== kind) {
+      throw new ApplicationError(kind === 'photo' ? 'Photo not found.' : 'Document not found.', 404);
+    }
+    await listingAttachmentModel.deleteAttachment(attachmentId);
+    await this.deleteStoredFiles([attachment]);
+  }
+
+  /**
+   * Opens an attachment's file, or a photo's thumbnail, for download.
+   * @param listingId - The listing ID.
+   * @param attachmentId - The attachment ID.
+   * @param variant - 'thumbnail' for a photo's thumbnail, otherwise the stored file.
+   * @returns The attachment and a stream of the file, with its MIME type.
+   */
+  async getAttachmentFile(
+    listingId: number,
+    attachmentId: number,
+    variant: 'original' | 'thumbnail'
+  ): Promise<{ attachment: ListingAttachment; mimeType: string; stream: Readable }> {
+    const attachment = await listingAttachmentModel.getAttachmentById(listingId, attachmentId);
+    if (!attachment) {
+      throw new ApplicationError('Attachment not found.', 404);
+    }
+    if (variant === 'thumbnail') {
+      if (!attachment.thumbnail_key) {
+        throw new ApplicationError('Only photos have thumbnails.', 404);
+      }
+      return { attachment, mimeType: 'image/webp', stream: await this.storage.read(attachment.thumbnail_key) };
+    }
+    return { attachment, mimeType: attachment.mime_type, stream: await this.storage.read(attachment.storage_key) };
+  }
+
+  /**
+   * Removes attachments' files from storage, e.g. once their listing is deleted. Failures
+   * are logged rather than thrown, since the records are already gone.
+   * @param attachments - The attachments whose files to remove.
+   */
+  async deleteStoredFiles(attachments: ListingAttachment[]): Promise<void> {
+    await this.deleteFiles(attachments.flatMap(storedKeys));
+  }
+
+  // Rejects the upload if the listing already has as many attachments of the kind as allowed
+  private async assertBelowLimit(listingId: number, kind: ListingAttachmentKind, limit: number): Promise<void> {
+    if ((await listingAttachmentModel.countAttachments(listingId, kind)) >= limit) {
+      throw new ApplicationError(`A listing can have at most ${limit} ${kind}s.`, 409);
+    }
+  }
+
+  // Stores the file (and thumbnail), then records the attachment; the files are removed again if either step fails
+  private async storeAttachment(
+    data: CreateListingAttachmentInput,
+    file: Buffer,
+    thumbnail?: Buffer
+  ): Promise<ListingAttachment> {
+    try {
+      await this.storage.put(data.storage_key, file, data.mime_type);
+      if (data.thumbnail_key && thumbnail) {
+        await this.storage.put(data.thumbnail_key, thumbnail, 'image/webp');
+      }
+      return await listingAttachmentModel.createAttachment(data);
+    } catch (error) {
+      await this.deleteFiles(storedKeys(data));
+      throw error;
+    }
+  }
+
+  private async deleteFiles(keys: string[]): Promise<void> {
+    for (const key of keys) {
+      try {
+        await this.storage.delete(key);
+      } catch (error) {
+        console.error(`Failed to delete stored file ${key}:`, error);
+      }
+    }
+  }
+}
@@ -1,16 +1,39 @@
 // src/services/listingService.ts
-import { ListingModel, BackendListing, CreateListingInput, UpdateListingInput } from '../models/listingModel.js'; // Import types and Model from the new file
+import {
+  ListingModel,
+  BackendListing,
+  CreateListingInput,
+  UpdateListingInput,
+  ListingSearchResult,
+} from '../models/listingModel.js'; // Import types and Model from the new file
+import { MineralListingFilter } from '../models/interfaces/marketplace.js';
 import { ApplicationError } from '../utils/applicationError.js';
+import { CursorPage, decodeCursor, toCursorPage } from '../utils/cursor.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { OrganizationService, ORGANIZATION_TRADING_ROLES } from './organizationService.js';
+import { PermissionService } from './permissionService.js';
+import { ListingAttachmentService } from './listingAttachmentService.js';
 
 const listingModel = new ListingModel();
+const organizationService = new OrganizationService();
+const permissionService = new PermissionService();
+const auditModel = new AuditModel();
+const listingAttachmentService = new ListingAttachmentService();
+
+// Cursor feed name for the public listing feed
+const LISTING_FEED = 'listings';
 
 export class ListingService {
   /**
-   * Creates a new listing.
+   * Creates a new listing. Listing on behalf of an organization requires the
+   * seller to be an owner or trader of it.
    * @param data - The listing data.
    * @returns The created listing.
    */
   async createListing(data: CreateListingInput): Promise<BackendListing> {
+    if (data.organization_id) {
+      await organizationService.assertMemberRole(data.organization_id, data.seller_id, ORGANIZATION_TRADING_ROLES);
+    }
     return listingModel.createListing(data);
   }
 
@@ -24,11 +47,55 @@ export class ListingService {
   }
 
   /**
-   * Gets all listings with joined seller details.
-   * @returns An array of listings.
+   * Searches listings with joined seller details, one page at a time.
+   * @param filter - Optional filters, the sort order, and the page and page size.
+   * @returns The page of listings, the total number of matches, and the page actually used.
+   */
+  async searchListings(
+    filter: MineralListingFilter
+  ): Promise<{ listings: BackendListing[]; total: number; page: number; pageSize: number }> {
+    const page = filter.page ?? 1;
+    const pageSize = filter.limit ?? 25;
+    const { listings, total } = await listingModel.searchListingsWithSellerDetails(
+      filter,
+      pageSize,
+      (page - 1) * pageSize
+    );
+    return { listings, total, page, pageSize };
+  }
+
+  /**
+   * Gets one page of the newest-first listing feed with joined seller details. Unlike
+   * searchListings, pages do not shift while listings are being created.
+   * @param filter - Optional filters; sorting and paging fields are ignored.
+   * @param cursor - A next/prev cursor from an earlier page, or undefined for the newest listings.
+   * @param limit - Listings per page.
+   * @returns The page of listings and the cursors either side of it.
    */
-  async getAllListingsWithSellerDetails(): Promise<BackendListing[]> {
-    return listingModel.getAllListingsWithSellerDetails();
+  async getListingFeed(
+    filter: MineralListingFilter,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<CursorPage<BackendListing>> {
+    const decoded = cursor ? decodeCursor(LISTING_FEED, cursor) : null;
+    const rows = await listingModel.getListingFeed(filter, decoded, limit);
+    return toCursorPage(LISTING_FEED, rows, limit, decoded);
+  }
+
+  /**
+   * Full-text searches listings, most relevant first, one page at a time.
+   * @param text - The search text, e.g. "high grade copper concentrate Zambia".
+   * @param filter - Optional filters, and the page and page size.
+   * @returns The page of listings with relevance and snippets, the total number of matches, and the page actually used.
+   */
+  async searchListingsByText(
+    text: string,
+    filter: MineralListingFilter
+  ): Promise<{ listings: ListingSearchResult[]; total: number; page: number; pageSize: number }> {
+    const page = filter.page ?? 1;
+    const pageSize = filter.limit ?? 25;
+    const { listings, total } = await listingModel.searchListingsByText(text, filter, pageSize, (page - 1) * pageSize);
+    return { listings, total, page, pageSize };
   }
 
   /**
@@ -49,6 +116,36 @@ export class ListingService {
     return listingModel.getListingsBySellerId(sellerId);
   }
 
+  /**
+   * Gets all listings owned by an organization the user belongs to.
+   * @param organizationId - The organization ID.
+   * @param userId - The requesting user's ID.
+   * @returns An array of listings.
+   */
+  async getListingsByOrganization(organizationId: number, userId: number): Promise<BackendListing[]> {
+    await organizationService.assertMemberRole(organizationId, userId);
+    return listingModel.getListingsByOrganizationId(organizationId);
+  }
+
+  /**
+   * Checks whether a user may update or delete a listing: its seller, a role with listing.manage_any,
+   * or an owner/trader of the organization that owns it.
+   * @param listing - The listing.
+   * @param userId - The user's ID.
+   * @param role - The user's platform role.
+   * @returns True if the user may manage the listing.
+   */
+  async canManageListing(listing: BackendListing, userId: number, role: string): Promise<boolean> {
+    if (listing.seller_id === userId || (await permissionService.hasPermission(role, 'listing.manage_any'))) {
+      return true;
+    }
+    if (!listing.organization_id) {
+      return false;
+    }
+    const memberRole = await organizationService.getMemberRole(listing.organization_id, userId);
+    return memberRole !== null && ORGANIZATION_TRADING_ROLES.includes(memberRole);
+  }
+
   /**
    * Updates an existing listing.
    * @param id - The listing ID.
@@ -64,10 +161,38 @@ export class ListingService {
   }
 
   /**
-   * Deletes a listing.
+   * Deletes a listing, with its photos and documents, and records it, with a snapshot of
+   * the listing, in the audit log. Listings with offers or transactions are kept, since
+   * those must still point at them; they can be canceled instead.
    * @param id - The listing ID.
+   * @param context - The user deleting the listing and the request, for the audit log.
    */
-  async deleteListing(id: number): Promise<void> {
-    await listingModel.deleteListing(id);
+  async deleteListing(id: number, context: AuditContext): Promise<void> {
+    const listing = await listingModel.getListingById(id);
+    if (!listing) {
+      throw new ApplicationError('Listing not found.', 404);
+    }
+    const attachments = await listingModel.deleteListing(id);
+    if (!attachments) {
+      throw new ApplicationError('This listing has offers or transactions; cancel it instead.', 409);
+    }
+    await listingAttachmentService.deleteStoredFiles(attachments);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'listing.deleted',
+      entityType: 'listing',
+      entityId: id,
+      before: {
+        seller_id: listing.seller_id,
+        organization_id: listing.organization_id,
+        mineral_type: listing.mineral_type,
+        quantity: listing.quantity,
+        unit: listing.unit,
+        price_per_unit: listing.price_per_unit,
+        currency: listing.currency,
+        status: listing.status,
+      },
+    });
   }
 }
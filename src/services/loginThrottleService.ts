@@ -0,0 +1,88 @@
+// src/services/loginThrottleService.ts
+import { LoginAttemptModel, LoginAttempt } from '../models/loginAttemptModel.js';
+import { UserModel } from '../models/userModel.js';
+import { EmailService } from './emailService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { config } from '../config/config.js';
+
+const loginAttemptModel = new LoginAttemptModel();
+const userModel = new UserModel();
+const emailService = new EmailService();
+
+// Longest wait imposed between attempts before the account is locked outright
+const MAX_DELAY_SECONDS = 60;
+
+/**
+ * Seconds a client must wait after a failed login before trying the same email again.
+ * The first failure is free; each further failure doubles the wait (2s, 4s, 8s, ...).
+ * @param failedCount - Consecutive failed logins so far.
+ * @returns The delay in seconds.
+ */
+export const getLoginDelaySeconds = (failedCount: number): number => {
+  if (failedCount <= 1) {
+    return 0;
+  }
+  return Math.min(2 ** (failedCount - 1), MAX_DELAY_SECONDS);
+};
+
+export class LoginThrottleService {
+  /**
+   * Rejects a login attempt if the email is locked or still inside its progressive delay.
+   * The same response is given whether or not the email belongs to an account.
+   * @param email - The email address being logged in to.
+   */
+  async assertLoginAllowed(email: string): Promise<void> {
+    const attempt = await loginAttemptModel.getByEmail(email.toLowerCase());
+    if (!attempt) {
+      return;
+    }
+
+    const now = Date.now();
+    if (attempt.locked_until && new Date(attempt.locked_until).getTime() > now) {
+      throw new ApplicationError('Too many failed login attempts. Please try again later.', 429);
+    }
+
+    const retryAt = new Date(attempt.last_failed_at).getTime() + getLoginDelaySeconds(attempt.failed_count) * 1000;
+    if (retryAt > now) {
+      const seconds = Math.ceil((retryAt - now) / 1000);
+      throw new ApplicationError(`Too many failed login attempts. Please wait ${seconds} seconds and try again.`, 429);
+    }
+  }
+
+  /**
+   * Records a failed login and locks the email once the limit is reached.
+   * The account holder (if there is one) is emailed when a lockout starts.
+   * @param email - The email address that was tried.
+   * @returns The updated failure record.
+   */
+  async recordFailedLogin(email: string): Promise<LoginAttempt> {
+    const normalizedEmail = email.toLowerCase();
+    const attempt = await loginAttemptModel.recordFailure(normalizedEmail, config.loginFailureWindowMinutes);
+    if (attempt.failed_count < config.loginMaxFailedAttempts) {
+      return attempt;
+    }
+
+    const lockedUntil = new Date(Date.now() + config.loginLockoutMinutes * 60 * 1000);
+    await loginAttemptModel.lock(normalizedEmail, lockedUntil);
+
+    // The lockout covers every casing of the email, so look the account up the same way
+    const user = await userModel.getUserByEmailIgnoringCase(email);
+    if (user) {
+      try {
+        await emailService.sendAccountLockedEmail(user.email, user.first_name, lockedUntil);
+      } catch (error) {
+        console.error('❌ Failed to send account locked email:', error);
+      }
+    }
+    return { ...attempt, locked_until: lockedUntil };
+  }
+
+  /**
+   * Clears failed logins for an email, e.g. after a successful login or an admin unlock.
+   * @param email - The email address.
+   * @returns True if the email had failed logins or a lockout.
+   */
+  async clearFailedLogins(email: string): Promise<boolean> {
+    return loginAttemptModel.clear(email.toLowerCase());
+  }
+}
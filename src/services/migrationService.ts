@@ -0,0 +1,276 @@
+// src/services/migrationService.ts
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Pool, PoolClient } from 'pg';
+import { getPool } from '../config/database.js';
+import { config } from '../config/config.js';
+
+// Migrations are pairs of SQL files in the migrations directory:
+//   <version>_<name>.up.sql    applied by `migrate up`
+//   <version>_<name>.down.sql  reverts it for `migrate down` (optional, but down stops without it)
+// Versions are numeric (a UTC timestamp such as 20261019120000) and applied in ascending order.
+const MIGRATION_FILE_PATTERN = /^(\d+)_([a-z0-9_]+)\.(up|down)\.sql$/;
+
+// Key of the session-level advisory lock held while migrations run, so two deploys
+// starting at once cannot apply the same migration twice
+const MIGRATION_LOCK_KEY = '7261019';
+
+export interface Migration {
+  version: string;
+  name: string;
+  upFile: string;
+  downFile: string | null;
+}
+
+export interface AppliedMigration {
+  version: string;
+  name: string;
+  checksum: string;
+  applied_at: Date;
+}
+
+export interface MigrationStatus {
+  version: string;
+  name: string;
+  appliedAt: Date | null;
+  // The up file changed after it was applied, or was deleted
+  modified: boolean;
+  missing: boolean;
+}
+
+/**
+ * Groups migration file names into migrations, ordered by version.
+ * Files that do not look like migrations are ignored.
+ * @param fileNames - File names in the migrations directory.
+ * @returns The migrations, oldest first.
+ */
+export const parseMigrationFiles = (fileNames: string[]): Migration[] => {
+  const byVersion = new Map<string, { name: string; upFile?: string; downFile?: string }>();
+
+  for (const fileName of fileNames) {
+    const match = MIGRATION_FILE_PATTERN.exec(fileName);
+    if (!match) {
+      continue;
+    }
+    const [, version, name, direction] = match;
+    const entry = byVersion.get(version) ?? { name };
+    if (entry.name !== name) {
+      throw new Error(`Migration version ${version} is used by both '${entry.name}' and '${name}'.`);
+    }
+    if (direction === 'up') {
+      entry.upFile = fileName;
+    } else {
+      entry.downFile = fileName;
+    }
+    byVersion.set(version, entry);
+  }
+
+  return Array.from(byVersion.entries())
+    .map(([version, entry]) => {
+      if (!entry.upFile) {
+        throw new Error(`Migration ${version}_${entry.name} has a down file but no up file.`);
+      }
+      return { version, name: entry.name, upFile: entry.upFile, downFile: entry.downFile ?? null };
+    })
+    .sort((a, b) => compareVersions(a.version, b.version));
+};
+
+/**
+ * Orders migration versions numerically, so versions of different lengths sort correctly.
+ * @param a - A version.
+ * @param b - Another version.
+ * @returns A negative number if a comes first, positive if b does, 0 if equal.
+ */
+export const compareVersions = (a: string, b: string): number => {
+  const difference = BigInt(a) - BigInt(b);
+  return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+};
+
+/**
+ * Computes the checksum stored for an applied migration.
+ * @param sql - The contents of the up file.
+ * @returns The hex-encoded SHA-256 digest.
+ */
+export const checksumMigration = (sql: string): string => crypto.createHash('sha256').update(sql).digest('hex');
+
+export class MigrationService {
+  private pool: Pool;
+  private migrationsDir: string;
+
+  constructor(migrationsDir: string = config.migrationsDir) {
+    this.pool = getPool();
+    this.migrationsDir = path.resolve(migrationsDir);
+  }
+
+  /**
+   * Applies pending migrations in order, each in its own transaction.
+   * @param targetVersion - Stop after this version; all pending migrations if omitted.
+   * @param log - Receives a line per migration applied.
+   * @returns The migrations that were applied.
+   */
+  async up(targetVersion?: string, log: (message: string) => void = console.log): Promise<Migration[]> {
+    const migrations = await this.loadMigrations();
+    if (targetVersion && !migrations.some((migration) => migration.version === targetVersion)) {
+      throw new Error(`No migration with version ${targetVersion}.`);
+    }
+
+    return this.withLock(async (client) => {
+      const applied = new Set((await this.getApplied(client)).map((migration) => migration.version));
+      const pending = migrations.filter(
+        (migration) =>
+          !applied.has(migration.version) &&
+          (!targetVersion || compareVersions(migration.version, targetVersion) <= 0)
+      );
+
+      for (const migration of pending) {
+        const sql = await this.readFile(migration.upFile);
+        log(`Applying ${migration.version}_${migration.name}...`);
+        await this.runInTransaction(client, sql, async () => {
+          await client.query(
+            'INSERT INTO schema_migrations (version, name, checksum, applied_at) VALUES ($1, $2, $3, NOW())',
+            [migration.version, migration.name, checksumMigration(sql)]
+          );
+        });
+      }
+      return pending;
+    });
+  }
+
+  /**
+   * Reverts the most recently applied migrations, newest first, each in its own transaction.
+   * @param steps - How many migrations to revert.
+   * @param log - Receives a line per migration reverted.
+   * @returns The migrations that were reverted.
+   */
+  async down(steps: number = 1, log: (message: string) => void = console.log): Promise<Migration[]> {
+    const migrations = await this.loadMigrations();
+
+    return this.withLock(async (client) => {
+      const applied = (await this.getApplied(client)).slice(-steps).reverse();
+      const reverted: Migration[] = [];
+
+      for (const appliedMigration of applied) {
+        const migration = migrations.find((candidate) => candidate.version === appliedMigration.version);
+        if (!migration || !migration.downFile) {
+          throw new Error(
+            `Cannot revert ${appliedMigration.version}_${appliedMigration.name}: it has no down file.`
+          );
+        }
+        const sql = await this.readFile(migration.downFile);
+        log(`Reverting ${migration.version}_${migration.name}...`);
+        await this.runInTransaction(client, sql, async () => {
+          await client.query('DELETE FROM schema_migrations WHERE version = $1', [migration.version]);
+        });
+        reverted.push(migration);
+      }
+      return reverted;
+    });
+  }
+
+  /**
+   * Lists every known migration, applied or not, oldest first.
+   * @returns Each migration's status.
+   */
+  async status(): Promise<MigrationStatus[]> {
+    const migrations = await this.loadMigrations();
+    const client = await this.pool.connect();
+    try {
+      await this.ensureMigrationsTable(client);
+      const applied = new Map((await this.getApplied(client)).map((migration) => [migration.version, migration]));
+
+      const statuses: MigrationStatus[] = [];
+      for (const migration of migrations) {
+        const appliedMigration = applied.get(migration.version);
+        const checksum = checksumMigration(await this.readFile(migration.upFile));
+        statuses.push({
+          version: migration.version,
+          name: migration.name,
+          appliedAt: appliedMigration?.applied_at ?? null,
+          modified: appliedMigration !== undefined && appliedMigration.checksum !== checksum,
+          missing: false,
+        });
+        applied.delete(migration.version);
+      }
+      // Applied migrations whose files are gone
+      for (const appliedMigration of applied.values()) {
+        statuses.push({
+          version: appliedMigration.version,
+          name: appliedMigration.name,
+          appliedAt: appliedMigration.applied_at,
+          modified: false,
+          missing: true,
+        });
+      }
+      return statuses.sort((a, b) => compareVersions(a.version, b.version));
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Reads the migrations directory.
+   * @returns The migrations, oldest first.
+   */
+  private async loadMigrations(): Promise<Migration[]> {
+    return parseMigrationFiles(await fs.readdir(this.migrationsDir));
+  }
+
+  private async readFile(fileName: string): Promise<string> {
+    return fs.readFile(path.join(this.migrationsDir, fileName), 'utf8');
+  }
+
+  /**
+   * Runs a callback while holding the migration advisory lock on a dedicated connection.
+   * Waits if another run holds the lock.
+   */
+  private async withLock<T>(callback: (client: PoolClient) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      const { rows } = await client.query('SELECT pg_try_advisory_lock($1) AS locked', [MIGRATION_LOCK_KEY]);
+      if (!rows[0].locked) {
+        console.log('Another migration run is in progress; waiting for it to finish...');
+        await client.query('SELECT pg_advisory_lock($1)', [MIGRATION_LOCK_KEY]);
+      }
+      try {
+        await this.ensureMigrationsTable(client);
+        return await callback(client);
+      } finally {
+        await client.query('SELECT pg_advisory_unlock($1)', [MIGRATION_LOCK_KEY]);
+      }
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Runs a migration file and its bookkeeping atomically.
+   */
+  private async runInTransaction(client: PoolClient, sql: string, record: () => Promise<void>): Promise<void> {
+    try {
+      await client.query('BEGIN');
+      await client.query(sql);
+      await record();
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private async ensureMigrationsTable(client: PoolClient): Promise<void> {
+    await client.query(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+        version VARCHAR(32) PRIMARY KEY,
+        name VARCHAR(255) NOT NULL,
+        checksum CHAR(64) NOT NULL,
+        applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+      )`
+    );
+  }
+
+  private async getApplied(client: PoolClient): Promise<AppliedMigration[]> {
+    const result = await client.query('SELECT * FROM schema_migrations ORDER BY version::numeric');
+    return result.rows;
+  }
+}
@@ -1,12 +1,25 @@
 // src/services/offerService.ts
 import { pgPool as pool } from '../config/database.js';
 import { ApplicationError } from '../utils/applicationError.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import { ListingModel } from '../models/listingModel.js';
+import { OrganizationService, ORGANIZATION_TRADING_ROLES } from './organizationService.js';
+import { CursorPage, CursorRow, cursorCreatedAtSql, cursorQuery, decodeCursor, toCursorPage } from '../utils/cursor.js';
+
+const listingModel = new ListingModel();
+const organizationService = new OrganizationService();
+const auditModel = new AuditModel();
+
+// Cursor feed names for the offer lists
+const LISTING_OFFERS_FEED = 'offers.listing';
+const BUYER_OFFERS_FEED = 'offers.buyer';
 
 // Interface for an offer (matches database schema)
 export interface Offer {
   id?: number;
   listing_id: number;
   buyer_id: number;
+  organization_id?: number | null; // Buying organization, if made on behalf of one
   offer_price: number;
   offer_quantity: number;
   message?: string;
@@ -19,15 +32,22 @@ export interface Offer {
 export class OfferService {
   private pool = pool;
 
-  // Create a new offer
+  // Create a new offer, optionally on behalf of an organization the buyer trades for
   async createOffer(offerData: Offer): Promise<Offer> {
-    const { listing_id, buyer_id, offer_price, offer_quantity, message, currency } = offerData;
+    const { listing_id, buyer_id, organization_id, offer_price, offer_quantity, message, currency } = offerData;
+    if (organization_id) {
+      await organizationService.assertMemberRole(organization_id, buyer_id, ORGANIZATION_TRADING_ROLES);
+    }
+    const listing = await listingModel.getListingById(listing_id);
+    if (!listing) {
+      throw new ApplicationError('Listing not found.', 404);
+    }
     try {
       const result = await this.pool.query(
-        `INSERT INTO mineral_offers (listing_id, buyer_id, offer_price, offer_quantity, message, currency)
-         VALUES ($1, $2, $3, $4, $5, $6)
+        `INSERT INTO mineral_offers (listing_id, buyer_id, organization_id, offer_price, offer_quantity, message, currency)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
          RETURNING *`,
-        [listing_id, buyer_id, offer_price, offer_quantity, message, currency]
+        [listing_id, buyer_id, organization_id || null, offer_price, offer_quantity, message, currency]
       );
       return result.rows[0];
     } catch (error) {
@@ -35,51 +55,90 @@ export class OfferService {
     }
   }
 
-  // Get offers for a specific listing (for sellers)
-  async getOffersByListing(listingId: number, sellerId: number): Promise<Offer[]> { // <-- Corrected signature: added sellerId
+  // Get one cursor page of offers for a specific listing, newest first (for sellers and members of the listing's organization)
+  async getOffersByListing(
+    listingId: number,
+    sellerId: number,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<CursorPage<Offer>> {
+    const decoded = cursor ? decodeCursor(LISTING_OFFERS_FEED, cursor) : null;
+    const keyset = cursorQuery(decoded, 'mo.created_at', 'mo.id', 3);
     try {
       const result = await this.pool.query(
-        `SELECT mo.*, u.first_name, u.last_name, u.email
+        `SELECT mo.*, u.first_name, u.last_name, u.email, ${cursorCreatedAtSql('mo.created_at')}
          FROM mineral_offers mo
          JOIN users u ON mo.buyer_id = u.id
          WHERE mo.listing_id = $1
-         AND mo.listing_id IN (SELECT id FROM mineral_listings WHERE seller_id = $2) -- Ensure seller owns the listing
-         ORDER BY mo.created_at DESC`,
-        [listingId, sellerId] // Pass both arguments to the query
+         AND mo.listing_id IN (
+           SELECT id FROM listings
+           WHERE seller_id = $2
+           OR organization_id IN (SELECT organization_id FROM organization_members WHERE user_id = $2)
+         ) -- Ensure seller owns the listing, directly or through their organization
+         ${keyset.condition ? `AND ${keyset.condition}` : ''}
+         ORDER BY ${keyset.orderBy}
+         LIMIT $${3 + keyset.values.length}`,
+        [listingId, sellerId, ...keyset.values, limit + 1]
       );
-      return result.rows;
+      return toCursorPage<Offer & CursorRow>(LISTING_OFFERS_FEED, result.rows, limit, decoded);
     } catch (error) {
       console.error('Error in getOffersByListing:', error); // Added console log for debugging
       throw new ApplicationError('Failed to retrieve offers for listing.', 500, error as Error);
     }
   }
 
-  // Get offers by buyer
-  async getOffersByBuyer(buyerId: number): Promise<Offer[]> {
+  // Get one cursor page of offers by buyer, newest first, or by one of the buyer's organizations when organizationId is given
+  async getOffersByBuyer(
+    buyerId: number,
+    organizationId: number | undefined,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<CursorPage<Offer>> {
+    if (organizationId) {
+      await organizationService.assertMemberRole(organizationId, buyerId);
+    }
+    const decoded = cursor ? decodeCursor(BUYER_OFFERS_FEED, cursor) : null;
+    const keyset = cursorQuery(decoded, 'mo.created_at', 'mo.id', 2);
     try {
       const result = await this.pool.query(
-        `SELECT mo.*, ml.mineral_type, ml.quantity as listing_quantity, ml.price_per_unit as listing_price_per_unit, ml.currency as listing_currency
+        `SELECT mo.*, l.mineral_type, l.quantity as listing_quantity, l.price_per_unit as listing_price_per_unit, l.currency as listing_currency,
+                ${cursorCreatedAtSql('mo.created_at')}
          FROM mineral_offers mo
-         JOIN mineral_listings ml ON mo.listing_id = ml.id
-         WHERE mo.buyer_id = $1
-         ORDER BY mo.created_at DESC`,
-        [buyerId]
+         JOIN listings l ON mo.listing_id = l.id
+         WHERE ${organizationId ? 'mo.organization_id = $1' : 'mo.buyer_id = $1'}
+         ${keyset.condition ? `AND ${keyset.condition}` : ''}
+         ORDER BY ${keyset.orderBy}
+         LIMIT $${2 + keyset.values.length}`,
+        [organizationId || buyerId, ...keyset.values, limit + 1]
       );
-      return result.rows;
+      return toCursorPage<Offer & CursorRow>(BUYER_OFFERS_FEED, result.rows, limit, decoded);
     } catch (error) {
       throw new ApplicationError('Failed to retrieve offers made by buyer.', 500, error as Error);
     }
   }
 
-  // Update offer status (for sellers)
-  async updateOfferStatus(offerId: number, sellerId: number, status: 'accepted' | 'rejected' | 'expired' | 'completed'): Promise<Offer> {
+  // Update offer status (for sellers and owners/traders of the listing's organization)
+  async updateOfferStatus(
+    offerId: number,
+    sellerId: number,
+    status: 'accepted' | 'rejected' | 'expired' | 'completed',
+    context: AuditContext
+  ): Promise<Offer> {
+    const existingOffer = await this.getOfferById(offerId);
+    let updatedOffer: Offer;
     try {
-      // Ensure the seller owns the listing associated with the offer
+      // Ensure the seller owns the listing associated with the offer, directly or through their organization
       const result = await this.pool.query(
         `UPDATE mineral_offers
          SET status = $1, updated_at = CURRENT_TIMESTAMP
          WHERE id = $2
-         AND listing_id IN (SELECT id FROM mineral_listings WHERE seller_id = $3)
+         AND listing_id IN (
+           SELECT id FROM listings
+           WHERE seller_id = $3
+           OR organization_id IN (
+             SELECT organization_id FROM organization_members WHERE user_id = $3 AND role IN ('owner', 'trader')
+           )
+         )
          RETURNING *`,
         [status, offerId, sellerId]
       );
@@ -87,10 +146,23 @@ export class OfferService {
       if (result.rows.length === 0) {
         throw new ApplicationError('Offer not found or you do not have permission to update it.', 404);
       }
-      return result.rows[0];
+      updatedOffer = result.rows[0];
     } catch (error) {
+      if (error instanceof ApplicationError) {
+        throw error;
+      }
       throw new ApplicationError('Failed to update offer status.', 500, error as Error);
     }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'offer.status_changed',
+      entityType: 'offer',
+      entityId: offerId,
+      before: { status: existingOffer?.status },
+      after: { status: updatedOffer.status },
+    });
+    return updatedOffer;
   }
 
   // Get a single offer by ID
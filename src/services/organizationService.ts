@@ -0,0 +1,232 @@
+// src/services/organizationService.ts
+import {
+  OrganizationModel,
+  Organization,
+  OrganizationMember,
+  OrganizationInvitation,
+  OrganizationRole,
+} from '../models/organizationModel.js';
+import { UserModel } from '../models/userModel.js';
+import { EmailService } from './emailService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { config } from '../config/config.js';
+
+const organizationModel = new OrganizationModel();
+const userModel = new UserModel();
+const emailService = new EmailService();
+
+// Roles allowed to create and act on listings, offers and transactions for an organization
+export const ORGANIZATION_TRADING_ROLES: OrganizationRole[] = ['owner', 'trader'];
+
+export class OrganizationService {
+  /**
+   * Creates an organization owned by the creating user.
+   * @param userId - The creating user's ID.
+   * @param name - The organization name.
+   * @returns The new organization.
+   */
+  async createOrganization(userId: number, name: string): Promise<Organization> {
+    return organizationModel.createOrganization(name, userId);
+  }
+
+  /**
+   * Gets the organizations a user belongs to.
+   * @param userId - The user's ID.
+   * @returns The organizations with the user's role in each.
+   */
+  async getOrganizationsForUser(userId: number): Promise<Array<Organization & { role: OrganizationRole }>> {
+    return organizationModel.getOrganizationsForUser(userId);
+  }
+
+  /**
+   * Gets an organization the user is a member of.
+   * @param organizationId - The organization ID.
+   * @param userId - The requesting user's ID.
+   * @returns The organization and its members.
+   */
+  async getOrganization(organizationId: number, userId: number): Promise<{ organization: Organization; members: OrganizationMember[] }> {
+    await this.assertMemberRole(organizationId, userId);
+    const organization = await organizationModel.getOrganizationById(organizationId);
+    if (!organization) {
+      throw new ApplicationError('Organization not found.', 404);
+    }
+    const members = await organizationModel.getMembers(organizationId);
+    return { organization, members };
+  }
+
+  /**
+   * Renames an organization (owners only).
+   * @param organizationId - The organization ID.
+   * @param userId - The requesting user's ID.
+   * @param name - The new name.
+   * @returns The updated organization.
+   */
+  async updateOrganization(organizationId: number, userId: number, name: string): Promise<Organization> {
+    await this.assertMemberRole(organizationId, userId, ['owner']);
+    return organizationModel.updateOrganization(organizationId, name);
+  }
+
+  /**
+   * Returns the user's role in an organization, or null if they are not a member.
+   * @param organizationId - The organization ID.
+   * @param userId - The user's ID.
+   * @returns The member's role or null.
+   */
+  async getMemberRole(organizationId: number, userId: number): Promise<OrganizationRole | null> {
+    const membership = await organizationModel.getMembership(organizationId, userId);
+    return membership ? membership.role : null;
+  }
+
+  /**
+   * Ensures a user is a member of an organization, optionally with one of the given roles.
+   * @param organizationId - The organization ID.
+   * @param userId - The user's ID.
+   * @param allowedRoles - Roles that are allowed; any member passes if omitted.
+   * @returns The member's role.
+   */
+  async assertMemberRole(organizationId: number, userId: number, allowedRoles?: OrganizationRole[]): Promise<OrganizationRole> {
+    const role = await this.getMemberRole(organizationId, userId);
+    if (!role) {
+      throw new ApplicationError('You are not a member of this organization.', 403);
+    }
+    if (allowedRoles && !allowedRoles.includes(role)) {
+      throw new ApplicationError('Your role in this organization does not allow this action.', 403);
+    }
+    return role;
+  }
+
+  /**
+   * Invites someone to join an organization by email (owners only).
+   * @param organizationId - The organization ID.
+   * @param inviterId - The inviting owner's user ID.
+   * @param email - The invitee's email address.
+   * @param role - The role the invitee will get.
+   * @returns The invitation.
+   */
+  async inviteMember(organizationId: number, inviterId: number, email: string, role: OrganizationRole): Promise<OrganizationInvitation> {
+    await this.assertMemberRole(organizationId, inviterId, ['owner']);
+    const organization = await organizationModel.getOrganizationById(organizationId);
+    const inviter = await userModel.getUserById(inviterId);
+    if (!organization || !inviter) {
+      throw new ApplicationError('Organization not found.', 404);
+    }
+
+    const existingUser = await userModel.getUserByEmail(email);
+    if (existingUser && (await organizationModel.getMembership(organizationId, existingUser.id))) {
+      throw new ApplicationError('This user is already a member of the organization.', 409);
+    }
+
+    const token = generateToken();
+    const invitation = await organizationModel.createInvitation({
+      organizationId,
+      email: email.toLowerCase(),
+      role,
+      tokenHash: hashToken(token),
+      invitedBy: inviterId,
+      expiresAt: new Date(Date.now() + config.organizationInvitationExpiresInDays * 24 * 60 * 60 * 1000),
+    });
+
+    await emailService.sendOrganizationInvitationEmail(
+      email,
+      organization.name,
+      `${inviter.first_name} ${inviter.last_name}`,
+      token
+    );
+
+    return invitation;
+  }
+
+  /**
+   * Lists an organization's invitations (owners only).
+   * @param organizationId - The organization ID.
+   * @param userId - The requesting user's ID.
+   * @returns The invitations.
+   */
+  async getInvitations(organizationId: number, userId: number): Promise<OrganizationInvitation[]> {
+    await this.assertMemberRole(organizationId, userId, ['owner']);
+    return organizationModel.getInvitations(organizationId);
+  }
+
+  /**
+   * Revokes a pending invitation (owners only).
+   * @param organizationId - The organization ID.
+   * @param userId - The requesting user's ID.
+   * @param invitationId - The invitation ID.
+   */
+  async revokeInvitation(organizationId: number, userId: number, invitationId: number): Promise<void> {
+    await this.assertMemberRole(organizationId, userId, ['owner']);
+    const revoked = await organizationModel.revokeInvitation(organizationId, invitationId);
+    if (!revoked) {
+      throw new ApplicationError('Pending invitation not found.', 404);
+    }
+  }
+
+  /**
+   * Accepts an invitation on behalf of the logged-in user. The invitation must
+   * have been sent to that user's email address.
+   * @param userId - The accepting user's ID.
+   * @param token - The plain invitation token.
+   * @returns The organization joined and the role granted.
+   */
+  async acceptInvitation(userId: number, token: string): Promise<{ organizationId: number; role: OrganizationRole }> {
+    const invitation = await organizationModel.findPendingInvitationByTokenHash(hashToken(token));
+    const user = await userModel.getUserById(userId);
+    if (!invitation || !user) {
+      throw new ApplicationError('Invalid or expired invitation.', 400);
+    }
+    if (invitation.email.toLowerCase() !== user.email.toLowerCase()) {
+      throw new ApplicationError('This invitation was sent to a different email address.', 403);
+    }
+
+    await organizationModel.addMember(invitation.organization_id, userId, invitation.role);
+    await organizationModel.markInvitationAccepted(invitation.id);
+    return { organizationId: invitation.organization_id, role: invitation.role };
+  }
+
+  /**
+   * Changes a member's role (owners only). The last owner cannot be demoted.
+   * @param organizationId - The organization ID.
+   * @param actorId - The requesting owner's user ID.
+   * @param memberId - The member's user ID.
+   * @param role - The new role.
+   * @returns The updated membership.
+   */
+  async updateMemberRole(organizationId: number, actorId: number, memberId: number, role: OrganizationRole): Promise<OrganizationMember> {
+    await this.assertMemberRole(organizationId, actorId, ['owner']);
+    const membership = await organizationModel.getMembership(organizationId, memberId);
+    if (!membership) {
+      throw new ApplicationError('Member not found.', 404);
+    }
+    if (membership.role === 'owner' && role !== 'owner' && (await organizationModel.countOwners(organizationId)) <= 1) {
+      throw new ApplicationError('An organization must keep at least one owner.', 400);
+    }
+    const updated = await organizationModel.updateMemberRole(organizationId, memberId, role);
+    if (!updated) {
+      throw new ApplicationError('Member not found.', 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Removes a member. Owners can remove anyone; other members can only leave themselves.
+   * The last owner cannot leave.
+   * @param organizationId - The organization ID.
+   * @param actorId - The requesting user's ID.
+   * @param memberId - The member's user ID.
+   */
+  async removeMember(organizationId: number, actorId: number, memberId: number): Promise<void> {
+    const actorRole = await this.assertMemberRole(organizationId, actorId);
+    if (actorId !== memberId && actorRole !== 'owner') {
+      throw new ApplicationError('Only owners can remove other members.', 403);
+    }
+    const membership = await organizationModel.getMembership(organizationId, memberId);
+    if (!membership) {
+      throw new ApplicationError('Member not found.', 404);
+    }
+    if (membership.role === 'owner' && (await organizationModel.countOwners(organizationId)) <= 1) {
+      throw new ApplicationError('An organization must keep at least one owner.', 400);
+    }
+    await organizationModel.removeMember(organizationId, memberId);
+  }
+}
@@ -6,8 +6,17 @@ import {
   TransactionStatus // Assuming this exists or define it
 } from '../models/interfaces/marketplace.js'; // Import necessary interfaces
 import { config } from '../config/config.js'; // Import config for secret keys
+import { TransactionModel, TransactionHistoryEntry } from '../models/transactionModel.js';
+import { CursorPage, decodeCursor, toCursorPage } from '../utils/cursor.js';
+import { OrganizationService } from './organizationService.js';
 import Stripe from 'stripe'; // Import Stripe for webhook handling
 
+const transactionModel = new TransactionModel();
+const organizationService = new OrganizationService();
+
+// Cursor feed name for transaction history
+const TRANSACTION_HISTORY_FEED = 'transactions';
+
 // Define TransactionStatus if not already in marketplace.js
 // This should match your database enum for transaction status
 // type TransactionStatus = 'pending' | 'completed' | 'failed' | 'refunded';
@@ -68,6 +77,32 @@ export class PaymentService {
     }
   }
 
+  /**
+   * Gets one page of a user's transaction history, as buyer or seller, newest first, or of
+   * one of their organizations when organizationId is given: its purchases and the sales
+   * of its listings, whichever member made them.
+   * @param userId - The user's ID.
+   * @param organizationId - An organization the user belongs to, or undefined for their own transactions.
+   * @param cursor - A next/prev cursor from an earlier page, or undefined for the newest transactions.
+   * @param limit - Transactions per page.
+   * @returns The page of transactions and the cursors either side of it.
+   */
+  async getTransactionHistory(
+    userId: number,
+    organizationId: number | undefined,
+    cursor: string | undefined,
+    limit: number
+  ): Promise<CursorPage<TransactionHistoryEntry>> {
+    if (organizationId) {
+      await organizationService.assertMemberRole(organizationId, userId);
+    }
+    const decoded = cursor ? decodeCursor(TRANSACTION_HISTORY_FEED, cursor) : null;
+    const rows = organizationId
+      ? await transactionModel.getTransactionsForOrganization(organizationId, decoded, limit)
+      : await transactionModel.getTransactionsForUser(userId, decoded, limit);
+    return toCursorPage(TRANSACTION_HISTORY_FEED, rows, limit, decoded);
+  }
+
   // ADDED: Get a transaction by its offer_id
   async getTransactionByOfferId(offerId: number): Promise<Transaction | null> {
     const client = await this.pool.connect();
@@ -137,7 +172,7 @@ export class PaymentService {
             await this.updateTransactionStatus(transactionId, 'completed', session.id);
             // Optionally, update offer status to 'completed' here as well
             // You might need to fetch the offer first if its ID is not in metadata
-            // Or add a method to update offer status in marketplaceService
+            // Or add a method to update offer status in offerService
           }
           break;
         case 'payment_intent.payment_failed':
@@ -0,0 +1,165 @@
+// src/services/permissionService.ts
+import { PermissionModel, Role } from '../models/permissionModel.js';
+import { UserModel } from '../models/userModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
+import {
+  Permission,
+  BUILT_IN_ROLES,
+  DEFAULT_ROLE_PERMISSIONS,
+  PRIVILEGED_PERMISSIONS,
+  isPermission,
+} from '../config/permissions.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+const permissionModel = new PermissionModel();
+const userModel = new UserModel();
+const auditModel = new AuditModel();
+
+// Role permissions are read on every authorized request, so they are cached briefly.
+// Changes made through this service take effect immediately on this instance and
+// within CACHE_TTL_MS on any others.
+const CACHE_TTL_MS = 60 * 1000;
+const permissionCache = new Map<string, { permissions: Set<string>; expiresAt: number }>();
+
+type BuiltInRole = (typeof BUILT_IN_ROLES)[number];
+
+const isBuiltInRole = (role: string): role is BuiltInRole => (BUILT_IN_ROLES as readonly string[]).includes(role);
+
+export interface RoleWithPermissions {
+  name: string;
+  description: string | null;
+  permissions: string[];
+  builtIn: boolean;
+}
+
+export class PermissionService {
+  /**
+   * Gets the permissions granted to a role. Built-in roles that have not been
+   * customized in the database use their default permissions.
+   * @param role - The role name.
+   * @returns The role's permissions.
+   */
+  async getPermissionsForRole(role: string): Promise<Set<string>> {
+    const cached = permissionCache.get(role);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.permissions;
+    }
+
+    const stored = await permissionModel.getPermissionsForRole(role);
+    const permissions = new Set<string>(stored ?? (isBuiltInRole(role) ? DEFAULT_ROLE_PERMISSIONS[role] : []));
+    permissionCache.set(role, { permissions, expiresAt: Date.now() + CACHE_TTL_MS });
+    return permissions;
+  }
+
+  /**
+   * Checks whether a role has a permission.
+   * @param role - The role name.
+   * @param permission - The permission to check.
+   * @returns True if the role has the permission.
+   */
+  async hasPermission(role: string, permission: Permission): Promise<boolean> {
+    return (await this.getPermissionsForRole(role)).has(permission);
+  }
+
+  /**
+   * Checks whether a role holds any privileged permission, which makes two-factor
+   * authentication mandatory for its users.
+   * @param role - The role name.
+   * @returns True if users with the role must use 2FA.
+   */
+  async requiresTwoFactor(role: string): Promise<boolean> {
+    for (const permission of PRIVILEGED_PERMISSIONS) {
+      if (await this.hasPermission(role, permission)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Checks whether a role exists (built in, or created by an admin).
+   * @param role - The role name.
+   * @returns True if users can be given the role.
+   */
+  async roleExists(role: string): Promise<boolean> {
+    return isBuiltInRole(role) || (await permissionModel.getRole(role)) !== null;
+  }
+
+  /**
+   * Lists every role with its effective permissions.
+   * @returns The built-in and custom roles.
+   */
+  async getRoles(): Promise<RoleWithPermissions[]> {
+    const stored = await permissionModel.getRoles();
+    const roles: RoleWithPermissions[] = stored.map((role) => ({
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      builtIn: isBuiltInRole(role.name),
+    }));
+    for (const builtInRole of BUILT_IN_ROLES) {
+      if (!roles.some((role) => role.name === builtInRole)) {
+        roles.push({ name: builtInRole, description: null, permissions: [...DEFAULT_ROLE_PERMISSIONS[builtInRole]], builtIn: true });
+      }
+    }
+    return roles.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Creates a role or replaces a role's permissions, and records it in the audit log.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param name - The role name.
+   * @param permissions - The complete set of permissions for the role.
+   * @param description - Optional description.
+   * @returns The saved role.
+   */
+  async saveRole(context: AuditContext, name: string, permissions: string[], description?: string | null): Promise<Role> {
+    const unknown = permissions.filter((permission) => !isPermission(permission));
+    if (unknown.length > 0) {
+      throw new ApplicationError(`Unknown permission(s): ${unknown.join(', ')}.`, 400);
+    }
+    if (name === 'admin' && !permissions.includes('role.manage')) {
+      throw new ApplicationError("The admin role must keep the 'role.manage' permission.", 400);
+    }
+
+    const before = Array.from(await this.getPermissionsForRole(name)).sort();
+    const uniquePermissions = Array.from(new Set(permissions)).sort();
+    const role = await permissionModel.saveRole(name, description ?? null, uniquePermissions);
+    permissionCache.delete(name);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'role.permissions_changed',
+      entityType: 'role',
+      entityId: name,
+      before: { permissions: before },
+      after: { permissions: uniquePermissions },
+    });
+    return role;
+  }
+
+  /**
+   * Deletes a custom role that no user has, and records it in the audit log.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param name - The role name.
+   */
+  async deleteRole(context: AuditContext, name: string): Promise<void> {
+    if (isBuiltInRole(name)) {
+      throw new ApplicationError('Built-in roles cannot be deleted.', 400);
+    }
+    if ((await userModel.countUsersByRole(name)) > 0) {
+      throw new ApplicationError('This role is still assigned to users.', 409);
+    }
+    if (!(await permissionModel.deleteRole(name))) {
+      throw new ApplicationError('Role not found.', 404);
+    }
+    permissionCache.delete(name);
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'role.deleted',
+      entityType: 'role',
+      entityId: name,
+    });
+  }
+}
@@ -0,0 +1,628 @@
+// src/services/seedService.ts
+import bcrypt from 'bcryptjs';
+import { Pool, PoolClient } from 'pg';
+import { getPool } from '../config/database.js';
+import { refreshListingSearchSql } from '../models/listingModel.js';
+import { MineralSpecification } from '../models/interfaces/marketplace.js';
+import { findUnit, toCanonicalUnit, UnitOfMeasure } from '../utils/units.js';
+
+// Every seeded account logs in with this password
+export const SEED_PASSWORD = 'Password123!';
+
+// Rows at --scale 1; everything but admins grows linearly with the scale
+const BASE_COUNTS = { admins: 2, buyers: 5, miners: 5, listings: 40 };
+
+// Rows per INSERT, so large scales do not build one enormous statement
+const INSERT_BATCH_SIZE = 5000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Default reference time for seeded dates; a fixed instant rather than the clock, so that
+// repeated runs with the same scale and seed insert the same rows
+export const SEED_NOW = new Date('2026-10-01T00:00:00Z');
+
+interface MineralGrade {
+  description: string;
+  unit: string;
+  minPrice: number; // USD per unit
+  maxPrice: number;
+  minQuantity: number;
+  maxQuantity: number;
+  specifications: MineralSpecification;
+}
+
+// Roughly current market prices, so demo figures look plausible
+const MINERALS: { mineralType: string; locations: string[]; grades: MineralGrade[] }[] = [
+  {
+    mineralType: 'Gold',
+    locations: ['Kalgoorlie, Australia', 'Nevada, USA', 'Witwatersrand, South Africa', 'Timmins, Canada', 'Obuasi, Ghana'],
+    grades: [
+      {
+        description: 'Gold doré bars, 90% Au',
+        unit: 'oz',
+        minPrice: 1900,
+        maxPrice: 2400,
+        minQuantity: 50,
+        maxQuantity: 2000,
+        specifications: { form: 'dore', purity_percent: 90, impurities_ppm: { Ag: 80000, Cu: 15000 } },
+      },
+      {
+        description: 'Refined gold bullion, 99.99% Au',
+        unit: 'kg',
+        minPrice: 62000,
+        maxPrice: 78000,
+        minQuantity: 1,
+        maxQuantity: 60,
+        specifications: { form: 'bullion', purity_percent: 99.99 },
+      },
+    ],
+  },
+  {
+    mineralType: 'Copper',
+    locations: ['Antofagasta, Chile', 'Katanga, DR Congo', 'Arizona, USA', 'Copperbelt, Zambia', 'Arequipa, Peru'],
+    grades: [
+      {
+        description: 'Copper cathode, LME Grade A (99.99% Cu)',
+        unit: 'tonne',
+        minPrice: 7800,
+        maxPrice: 9800,
+        minQuantity: 25,
+        maxQuantity: 5000,
+        specifications: { form: 'cathode', purity_percent: 99.99, impurities_ppm: { Pb: 5, S: 15 } },
+      },
+      {
+        description: 'Copper concentrate, 28% Cu',
+        unit: 'tonne',
+        minPrice: 2200,
+        maxPrice: 2900,
+        minQuantity: 500,
+        maxQuantity: 20000,
+        specifications: {
+          form: 'concentrate',
+          grade: 28,
+          grade_unit: '%',
+          moisture_percent: 9,
+          impurities_ppm: { As: 2500, Pb: 3000 },
+          particle_size_mm: { max: 0.075 },
+        },
+      },
+    ],
+  },
+  {
+    mineralType: 'Cobalt',
+    locations: ['Katanga, DR Congo', 'Queensland, Australia', 'Sudbury, Canada', 'Moa, Cuba'],
+    grades: [
+      {
+        description: 'Cobalt hydroxide, 32% Co',
+        unit: 'tonne',
+        minPrice: 8000,
+        maxPrice: 12000,
+        minQuantity: 20,
+        maxQuantity: 2000,
+        specifications: { form: 'chemical', grade: 32, grade_unit: '%', moisture_percent: 35, impurities_ppm: { Mn: 40000 } },
+      },
+      {
+        description: 'Cobalt metal cathode, 99.8% Co',
+        unit: 'tonne',
+        minPrice: 26000,
+        maxPrice: 36000,
+        minQuantity: 5,
+        maxQuantity: 500,
+        specifications: { form: 'cathode', purity_percent: 99.8 },
+      },
+    ],
+  },
+  {
+    mineralType: 'Lithium',
+    locations: ['Salar de Atacama, Chile', 'Pilbara, Australia', 'Jujuy, Argentina', 'Bikita, Zimbabwe'],
+    grades: [
+      {
+        description: 'Lithium carbonate, battery grade (99.5% Li2CO3)',
+        unit: 'tonne',
+        minPrice: 12000,
+        maxPrice: 20000,
+        minQuantity: 10,
+        maxQuantity: 1000,
+        specifications: { form: 'chemical', purity_percent: 99.5, moisture_percent: 0.5, impurities_ppm: { Na: 250, Fe: 10 } },
+      },
+      {
+        description: 'Spodumene concentrate, 6% Li2O',
+        unit: 'tonne',
+        minPrice: 900,
+        maxPrice: 1600,
+        minQuantity: 1000,
+        maxQuantity: 30000,
+        specifications: { form: 'concentrate', grade: 6, grade_unit: '%', moisture_percent: 6, impurities_ppm: { Fe: 9000 } },
+      },
+    ],
+  },
+];
+
+// Approximate rates from USD; most listings are priced in USD
+const CURRENCIES: { code: string; rate: number; weight: number }[] = [
+  { code: 'USD', rate: 1, weight: 7 },
+  { code: 'EUR', rate: 0.92, weight: 2 },
+  { code: 'GBP', rate: 0.79, weight: 1 },
+];
+
+const FIRST_NAMES = ['Ada', 'Kwame', 'Mei', 'Lucas', 'Amara', 'Diego', 'Ingrid', 'Ravi', 'Zanele', 'Tomás', 'Aiko', 'Nia', 'Oskar', 'Leila', 'Sipho', 'Hannah'];
+const LAST_NAMES = ['Okafor', 'Lindqvist', 'Chen', 'Moreau', 'Mensah', 'Alvarez', 'Patel', 'Dlamini', 'Novak', 'Tanaka', 'Reyes', 'Walsh', 'Haddad', 'Kowalski', 'Ng', 'Baptiste'];
+const MINER_COMPANY_WORDS = ['Ironbark', 'Red Ridge', 'Southern Cross', 'Blue Lagoon', 'Granite Peak', 'Copper Crown', 'Desert Star', 'Northgate'];
+const MINER_COMPANY_SUFFIXES = ['Mining', 'Resources', 'Minerals', 'Metals'];
+const BUYER_COMPANY_WORDS = ['Northwind', 'Harbour', 'Meridian', 'Atlas', 'Summit', 'Keystone', 'Pioneer', 'Aurora'];
+const BUYER_COMPANY_SUFFIXES = ['Metals Trading', 'Battery Materials', 'Refining', 'Commodities'];
+const BUYER_LOCATIONS = ['London, UK', 'Rotterdam, Netherlands', 'Shanghai, China', 'Singapore', 'Geneva, Switzerland', 'Houston, USA'];
+const OFFER_MESSAGES = [
+  'Can you confirm assay results before shipment?',
+  'Interested in a long-term supply agreement.',
+  'Price includes CIF delivery to Rotterdam.',
+  null,
+];
+
+export type SeedListingStatus = 'available' | 'pending' | 'sold' | 'canceled';
+export type SeedOfferStatus = 'pending' | 'accepted' | 'rejected' | 'expired' | 'completed';
+export type SeedTransactionStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
+// Statuses are handed out in rotation rather than at random, so even the smallest data set
+// has every status: 12 in 20 listings are available, 3 pending payment, 4 sold, 1 canceled
+const LISTING_STATUS_ROTATION: SeedListingStatus[] = [
+  'available', 'sold', 'available', 'pending', 'available', 'available', 'sold', 'available', 'canceled', 'available',
+  'pending', 'available', 'sold', 'available', 'available', 'pending', 'available', 'sold', 'available', 'available',
+];
+const OPEN_LISTING_OFFER_ROTATION: SeedOfferStatus[] = ['pending', 'rejected', 'pending', 'expired'];
+const CLOSED_LISTING_OFFER_ROTATION: SeedOfferStatus[] = ['rejected', 'expired'];
+// Payment for an accepted offer is under way or failed; a completed one was paid, occasionally refunded
+const ACCEPTED_TRANSACTION_ROTATION: SeedTransactionStatus[] = ['pending', 'pending', 'failed'];
+const COMPLETED_TRANSACTION_ROTATION: SeedTransactionStatus[] = ['completed', 'completed', 'completed', 'refunded'];
+
+export interface SeedUser {
+  firstName: string;
+  lastName: string;
+  email: string;
+  role: 'admin' | 'buyer' | 'miner';
+  companyName: string;
+  location: string;
+  complianceStatus: 'pending' | 'compliant' | 'non_compliant';
+  createdAt: Date;
+}
+
+export interface SeedListing {
+  sellerIndex: number; // Index into SeedData.users
+  mineralType: string;
+  description: string;
+  quantity: number;
+  unit: string;
+  pricePerUnit: number;
+  currency: string;
+  location: string;
+  status: SeedListingStatus;
+  specifications: MineralSpecification;
+  createdAt: Date;
+}
+
+export interface SeedOffer {
+  listingIndex: number; // Index into SeedData.listings
+  buyerIndex: number; // Index into SeedData.users
+  offerPrice: number; // Per unit
+  offerQuantity: number;
+  currency: string;
+  status: SeedOfferStatus;
+  message: string | null;
+  expiryDate: Date;
+  createdAt: Date;
+}
+
+export interface SeedTransaction {
+  offerIndex: number; // Index into SeedData.offers
+  finalPrice: number; // Total charged
+  status: SeedTransactionStatus;
+  transactionDate: Date | null;
+  createdAt: Date;
+}
+
+export interface SeedData {
+  users: SeedUser[];
+  listings: SeedListing[];
+  offers: SeedOffer[];
+  transactions: SeedTransaction[];
+}
+
+export interface SeedSummary {
+  users: number;
+  listings: number;
+  offers: number;
+  transactions: number;
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32), so the same seed
+ * always produces the same data.
+ * @param seed - Any 32-bit integer.
+ * @returns A function returning numbers in [0, 1).
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Builds the demo data set: admins, buyers and miners with known passwords, mineral
+ * listings, offers in every status and the transactions behind accepted and completed offers.
+ * @param scale - Multiplies every count but the admins; 1 gives a small, browsable data set.
+ * @param seed - Seed for the random choices; the same scale and seed give the same data.
+ * @param now - Reference time; all dates are relative to it.
+ * @returns The rows to insert, linked by array index.
+ */
+export const buildSeedData = (scale: number, seed: number = 1, now: Date = SEED_NOW): SeedData => {
+  const random = createRandom(seed);
+  const between = (min: number, max: number): number => min + random() * (max - min);
+  const integerBetween = (min: number, max: number): number => Math.floor(between(min, max + 1));
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const daysAgo = (days: number): Date => new Date(now.getTime() - days * DAY_MS);
+  const roundTo = (value: number, places: number): number => Number(value.toFixed(places));
+
+  const users: SeedUser[] = [];
+  const addUsers = (role: SeedUser['role'], count: number): number[] => {
+    const indexes: number[] = [];
+    for (let n = 1; n <= count; n++) {
+      const companyName =
+        role === 'miner'
+          ? `${pick(MINER_COMPANY_WORDS)} ${pick(MINER_COMPANY_SUFFIXES)}`
+          : role === 'buyer'
+            ? `${pick(BUYER_COMPANY_WORDS)} ${pick(BUYER_COMPANY_SUFFIXES)}`
+            : 'Mining Marketplace';
+      indexes.push(users.length);
+      users.push({
+        firstName: pick(FIRST_NAMES),
+        lastName: pick(LAST_NAMES),
+        email: `${role}${n}@example.com`,
+        role,
+        companyName,
+        location: role === 'miner' ? pick(pick(MINERALS).locations) : pick(BUYER_LOCATIONS),
+        complianceStatus: role === 'admin' || random() < 0.8 ? 'compliant' : pick(['pending', 'non_compliant'] as const),
+        createdAt: daysAgo(integerBetween(200, 400)),
+      });
+    }
+    return indexes;
+  };
+
+  addUsers('admin', BASE_COUNTS.admins);
+  const buyerIndexes = addUsers('buyer', BASE_COUNTS.buyers * scale);
+  const minerIndexes = addUsers('miner', BASE_COUNTS.miners * scale);
+
+  const rotations = new Map<unknown[], number>();
+  const next = <T>(rotation: T[]): T => {
+    const position = rotations.get(rotation) ?? 0;
+    rotations.set(rotation, position + 1);
+    return rotation[position % rotation.length];
+  };
+
+  const listings: SeedListing[] = [];
+  const offers: SeedOffer[] = [];
+  const transactions: SeedTransaction[] = [];
+
+  for (let n = 0; n < BASE_COUNTS.listings * scale; n++) {
+    const mineral = pick(MINERALS);
+    const grade = pick(mineral.grades);
+    const currency = pickWeighted(CURRENCIES, random);
+    const status = next(LISTING_STATUS_ROTATION);
+    const listing: SeedListing = {
+      sellerIndex: pick(minerIndexes),
+      mineralType: mineral.mineralType,
+      description: grade.description,
+      quantity: integerBetween(grade.minQuantity, grade.maxQuantity),
+      unit: grade.unit,
+      pricePerUnit: roundTo(between(grade.minPrice, grade.maxPrice) * currency.rate, 2),
+      currency: currency.code,
+      location: pick(mineral.locations),
+      status,
+      specifications: grade.specifications,
+      createdAt: daysAgo(between(1, 180)),
+    };
+    const listingIndex = listings.length;
+    listings.push(listing);
+
+    // A pending listing has an accepted offer awaiting payment; a sold one has a completed
+    // offer. Every other offer on the listing was turned down, lapsed, or is still open.
+    const offerStatuses: SeedOfferStatus[] = [];
+    if (status === 'pending') {
+      offerStatuses.push('accepted');
+    } else if (status === 'sold') {
+      offerStatuses.push('completed');
+    }
+    const otherOffers = integerBetween(0, 3);
+    for (let i = 0; i < otherOffers; i++) {
+      offerStatuses.push(next(status === 'available' ? OPEN_LISTING_OFFER_ROTATION : CLOSED_LISTING_OFFER_ROTATION));
+    }
+
+    const listingAgeDays = (now.getTime() - listing.createdAt.getTime()) / DAY_MS;
+    for (const offerStatus of offerStatuses) {
+      const createdAt = daysAgo(between(0, listingAgeDays));
+      const offerQuantity = Math.max(1, Math.round(listing.quantity * between(0.1, 1)));
+      const offerPrice = roundTo(listing.pricePerUnit * between(0.85, 1.02), 2);
+      const offerIndex = offers.length;
+      offers.push({
+        listingIndex,
+        buyerIndex: pick(buyerIndexes),
+        offerPrice,
+        offerQuantity,
+        currency: listing.currency,
+        status: offerStatus,
+        message: pick(OFFER_MESSAGES),
+        // Open offers run for another while; the rest have lapsed or were closed in time
+        expiryDate:
+          offerStatus === 'pending'
+            ? new Date(now.getTime() + integerBetween(3, 30) * DAY_MS)
+            : new Date(createdAt.getTime() + 14 * DAY_MS),
+        createdAt,
+      });
+
+      if (offerStatus === 'accepted' || offerStatus === 'completed') {
+        const transactionStatus = next(
+          offerStatus === 'accepted' ? ACCEPTED_TRANSACTION_ROTATION : COMPLETED_TRANSACTION_ROTATION
+        );
+        const transactionCreatedAt = new Date(Math.min(createdAt.getTime() + between(0.5, 5) * DAY_MS, now.getTime()));
+        transactions.push({
+          offerIndex,
+          finalPrice: roundTo(offerPrice * offerQuantity, 2),
+          status: transactionStatus,
+          transactionDate: transactionStatus === 'completed' || transactionStatus === 'refunded' ? transactionCreatedAt : null,
+          createdAt: transactionCreatedAt,
+        });
+      }
+    }
+  }
+
+  return { users, listings, offers, transactions };
+};
+
+/**
+ * Picks an item with probability proportional to its weight.
+ */
+const pickWeighted = <T extends { weight: number }>(items: T[], random: () => number): T => {
+  let remaining = random() * items.reduce((total, item) => total + item.weight, 0);
+  for (const item of items) {
+    remaining -= item.weight;
+    if (remaining < 0) {
+      return item;
+    }
+  }
+  return items[items.length - 1];
+};
+
+export class SeedService {
+  private pool: Pool;
+
+  constructor() {
+    this.pool = getPool();
+  }
+
+  /**
+   * Inserts seed data in a single transaction. Refuses to run if any seed account
+   * already exists, so it is never mixed into an already seeded database.
+   * @param data - The rows from buildSeedData.
+   * @returns How many rows of each kind were inserted.
+   */
+  async seed(data: SeedData): Promise<SeedSummary> {
+    // Everyone shares a password, so it only needs hashing once
+    const passwordHash = await bcrypt.hash(SEED_PASSWORD, 10);
+
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+
+      const existing = await client.query('SELECT email FROM users WHERE email = ANY($1::text[]) LIMIT 1', [
+        data.users.map((user) => user.email),
+      ]);
+      if (existing.rows.length > 0) {
+        throw new Error(`The database already contains seed data (${existing.rows[0].email}).`);
+      }
+
+      const userIds = await this.reserveIds(client, 'users', data.users.length);
+      await this.insertRows(
+        client,
+        'users',
+        [
+          ['id', 'int'],
+          ['first_name', 'text'],
+          ['last_name', 'text'],
+          ['email', 'text'],
+          ['password_hash', 'text'],
+          ['role', 'text'],
+          ['company_name', 'text'],
+          ['location', 'text'],
+          ['compliance_status', 'text'],
+          ['email_verified', 'boolean'],
+          ['created_at', 'timestamptz'],
+          ['updated_at', 'timestamptz'],
+        ],
+        data.users.map((user, i) => [
+          userIds[i],
+          user.firstName,
+          user.lastName,
+          user.email,
+          passwordHash,
+          user.role,
+          user.companyName,
+          user.location,
+          user.complianceStatus,
+          true,
+          user.createdAt,
+          user.createdAt,
+        ])
+      );
+
+      const listingIds = await this.reserveIds(client, 'listings', data.listings.length);
+      await this.insertRows(
+        client,
+        'listings',
+        [
+          ['id', 'int'],
+          ['seller_id', 'int'],
+          ['mineral_type', 'text'],
+          ['description', 'text'],
+          ['quantity', 'numeric'],
+          ['unit', 'text'],
+          ['price_per_unit', 'numeric'],
+          ['canonical_unit', 'text'],
+          ['normalized_quantity', 'numeric'],
+          ['normalized_price_per_unit', 'numeric'],
+          ['currency', 'text'],
+          ['location', 'text'],
+          ['status', 'text'],
+          ['specifications', 'jsonb'],
+          ['created_at', 'timestamptz'],
+          ['updated_at', 'timestamptz'],
+        ],
+        data.listings.map((listing, i) => {
+          const canonical = toCanonicalUnit(
+            { quantity: listing.quantity, price_per_unit: listing.pricePerUnit },
+            findUnit(listing.unit) as UnitOfMeasure
+          );
+          return [
+            listingIds[i],
+            userIds[listing.sellerIndex],
+            listing.mineralType,
+            listing.description,
+            listing.quantity,
+            listing.unit,
+            listing.pricePerUnit,
+            canonical.unit,
+            canonical.quantity,
+            canonical.price_per_unit,
+            listing.currency,
+            listing.location,
+            listing.status,
+            listing.specifications,
+            listing.createdAt,
+            listing.createdAt,
+          ];
+        })
+      );
+
+      await client.query('UPDATE listings SET commodity_id = commodity_id_for(mineral_type) WHERE id = ANY($1::int[])', [
+        listingIds,
+      ]);
+      await client.query(refreshListingSearchSql('l.id = ANY($1::int[])'), [listingIds]);
+
+      const offerIds = await this.reserveIds(client, 'mineral_offers', data.offers.length);
+      await this.insertRows(
+        client,
+        'mineral_offers',
+        [
+          ['id', 'int'],
+          ['listing_id', 'int'],
+          ['buyer_id', 'int'],
+          ['offer_price', 'numeric'],
+          ['offer_quantity', 'numeric'],
+          ['currency', 'text'],
+          ['status', 'text'],
+          ['message', 'text'],
+          ['expiry_date', 'timestamptz'],
+          ['created_at', 'timestamptz'],
+          ['updated_at', 'timestamptz'],
+        ],
+        data.offers.map((offer, i) => [
+          offerIds[i],
+          listingIds[offer.listingIndex],
+          userIds[offer.buyerIndex],
+          offer.offerPrice,
+          offer.offerQuantity,
+          offer.currency,
+          offer.status,
+          offer.message,
+          offer.expiryDate,
+          offer.createdAt,
+          offer.createdAt,
+        ])
+      );
+
+      await this.insertRows(
+        client,
+        'transactions',
+        [
+          ['listing_id', 'int'],
+          ['buyer_id', 'int'],
+          ['seller_id', 'int'],
+          ['offer_id', 'int'],
+          ['final_price', 'numeric'],
+          ['final_quantity', 'numeric'],
+          ['currency', 'text'],
+          ['status', 'text'],
+          ['transaction_date', 'timestamptz'],
+          ['created_at', 'timestamptz'],
+          ['updated_at', 'timestamptz'],
+        ],
+        data.transactions.map((transaction) => {
+          const offer = data.offers[transaction.offerIndex];
+          const listing = data.listings[offer.listingIndex];
+          return [
+            listingIds[offer.listingIndex],
+            userIds[offer.buyerIndex],
+            userIds[listing.sellerIndex],
+            offerIds[transaction.offerIndex],
+            transaction.finalPrice,
+            offer.offerQuantity,
+            offer.currency,
+            transaction.status,
+            transaction.transactionDate,
+            transaction.createdAt,
+            transaction.createdAt,
+          ];
+        })
+      );
+
+      await client.query('COMMIT');
+      return {
+        users: data.users.length,
+        listings: data.listings.length,
+        offers: data.offers.length,
+        transactions: data.transactions.length,
+      };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Takes IDs from a table's sequence up front, so rows can reference each other
+   * before they are inserted.
+   */
+  private async reserveIds(client: PoolClient, table: string, count: number): Promise<number[]> {
+    const result = await client.query(
+      `SELECT nextval(pg_get_serial_sequence($1, 'id'))::int AS id FROM generate_series(1, $2)`,
+      [table, count]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  /**
+   * Inserts rows in batches, passing each column as one array parameter.
+   */
+  private async insertRows(
+    client: PoolClient,
+    table: string,
+    columns: [name: string, type: string][],
+    rows: unknown[][]
+  ): Promise<void> {
+    const columnNames = columns.map(([name]) => name).join(', ');
+    const unnestArgs = columns.map(([, type], i) => `$${i + 1}::${type}[]`).join(', ');
+
+    for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+      const batch = rows.slice(start, start + INSERT_BATCH_SIZE);
+      await client.query(
+        `INSERT INTO ${table} (${columnNames}) SELECT * FROM unnest(${unnestArgs})`,
+        columns.map((_column, i) => batch.map((row) => row[i]))
+      );
+    }
+  }
+}
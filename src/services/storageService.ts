@@ -0,0 +1,87 @@
+// src/services/storageService.ts
+// File storage for listing photos and documents. Everything that stores files goes through
+// the FileStorage interface, so a cloud backend (e.g. S3) only needs a new implementation
+// and a case in getFileStorage.
+import fs from 'fs/promises';
+import { createReadStream } from 'fs';
+import path from 'path';
+import { Readable } from 'stream';
+import { config } from '../config/config.js';
+import { ApplicationError } from '../utils/applicationError.js';
+
+export interface FileStorage {
+  /**
+   * Stores a file, replacing any file with the same key.
+   * @param key - Slash-separated key, e.g. 'listings/12/<uuid>.jpg'.
+   * @param data - The file contents.
+   * @param contentType - The file's MIME type.
+   */
+  put(key: string, data: Buffer, contentType: string): Promise<void>;
+
+  /**
+   * Opens a stored file for reading.
+   * @param key - The file's key.
+   * @returns A stream of the file contents.
+   */
+  read(key: string): Promise<Readable>;
+
+  /**
+   * Deletes a stored file. Deleting a file that does not exist is not an error.
+   * @param key - The file's key.
+   */
+  delete(key: string): Promise<void>;
+}
+
+// Stores files on the local disk, one file per key under the root directory
+export class LocalFileStorage implements FileStorage {
+  private root: string;
+
+  constructor(root: string = config.uploadsDir) {
+    this.root = path.resolve(root);
+  }
+
+  // Maps a key to its path, refusing keys that would escape the root directory
+  private resolvePath(key: string): string {
+    const filePath = path.resolve(this.root, key);
+    if (!filePath.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return filePath;
+  }
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<void> {
+    const filePath = this.resolvePath(key);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, data);
+  }
+
+  async read(key: string): Promise<Readable> {
+    const filePath = this.resolvePath(key);
+    try {
+      await fs.access(filePath);
+    } catch (error) {
+      throw new ApplicationError('File not found.', 404, error as Error);
+    }
+    return createReadStream(filePath);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.resolvePath(key), { force: true });
+  }
+}
+
+let storageInstance: FileStorage;
+
+// Gets the file storage selected by config.storageDriver
+export const getFileStorage = (): FileStorage => {
+  if (!storageInstance) {
+    switch (config.storageDriver) {
+      case 'local':
+        storageInstance = new LocalFileStorage();
+        break;
+      default:
+        throw new Error(`Unknown storage driver '${config.storageDriver}'.`);
+    }
+  }
+  return storageInstance;
+};
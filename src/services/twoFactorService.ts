@@ -0,0 +1,153 @@
+// src/services/twoFactorService.ts
+import { UserModel, BackendUser } from '../models/userModel.js';
+import { PermissionService } from './permissionService.js';
+import { ApplicationError } from '../utils/applicationError.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { generateTotpSecret, findTotpStep, buildOtpauthUri } from '../utils/totp.js';
+import { config } from '../config/config.js';
+
+const userModel = new UserModel();
+const permissionService = new PermissionService();
+const RECOVERY_CODE_COUNT = 10;
+
+// Recovery codes are shown as "xxxxx-xxxxx" but compared without the dash and case-insensitively
+const normalizeRecoveryCode = (code: string): string => code.trim().toLowerCase().replace(/-/g, '');
+
+export class TwoFactorService {
+  /**
+   * Starts TOTP enrolment by generating a new secret. The secret only becomes
+   * active once the user proves they can generate codes with it.
+   * @param userId - User ID.
+   * @returns The base32 secret and the otpauth URI to render as a QR code.
+   */
+  async beginSetup(userId: number): Promise<{ secret: string; otpauthUri: string }> {
+    const user = await this.getUserOrFail(userId);
+    if (user.two_factor_enabled) {
+      throw new ApplicationError('Two-factor authentication is already enabled.', 409);
+    }
+
+    const secret = generateTotpSecret();
+    await userModel.setPendingTwoFactorSecret(user.id, secret);
+
+    return { secret, otpauthUri: buildOtpauthUri(secret, user.email, config.twoFactorIssuer) };
+  }
+
+  /**
+   * Confirms TOTP enrolment with a code from the authenticator app.
+   * @param userId - User ID.
+   * @param code - The 6-digit TOTP code.
+   * @returns The recovery codes, which are shown to the user exactly once.
+   */
+  async confirmSetup(userId: number, code: string): Promise<string[]> {
+    const user = await this.getUserOrFail(userId);
+    if (user.two_factor_enabled) {
+      throw new ApplicationError('Two-factor authentication is already enabled.', 409);
+    }
+    if (!user.two_factor_pending_secret) {
+      throw new ApplicationError('Two-factor setup has not been started.', 400);
+    }
+    if (!(await this.acceptTotp(user, user.two_factor_pending_secret, code))) {
+      throw new ApplicationError('Invalid two-factor authentication code.', 400);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await userModel.enableTwoFactor(user.id, recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c))));
+    return recoveryCodes;
+  }
+
+  /**
+   * Turns off two-factor authentication. Accounts with administrative permissions must keep it enabled.
+   * @param userId - User ID.
+   * @param code - A current TOTP code or an unused recovery code.
+   */
+  async disable(userId: number, code: string): Promise<void> {
+    const user = await this.getUserOrFail(userId);
+    if (!user.two_factor_enabled) {
+      throw new ApplicationError('Two-factor authentication is not enabled.', 400);
+    }
+    if (await permissionService.requiresTwoFactor(user.role)) {
+      throw new ApplicationError('Two-factor authentication is mandatory for accounts with administrative permissions.', 403);
+    }
+    if (!(await this.verifyCode(user, code))) {
+      throw new ApplicationError('Invalid two-factor authentication code.', 400);
+    }
+    await userModel.disableTwoFactor(user.id);
+  }
+
+  /**
+   * Replaces all recovery codes with a fresh set.
+   * @param userId - User ID.
+   * @param code - A current TOTP code.
+   * @returns The new recovery codes.
+   */
+  async regenerateRecoveryCodes(userId: number, code: string): Promise<string[]> {
+    const user = await this.getUserOrFail(userId);
+    if (!user.two_factor_enabled || !user.two_factor_secret) {
+      throw new ApplicationError('Two-factor authentication is not enabled.', 400);
+    }
+    if (!(await this.acceptTotp(user, user.two_factor_secret, code))) {
+      throw new ApplicationError('Invalid two-factor authentication code.', 400);
+    }
+
+    const recoveryCodes = this.generateRecoveryCodes();
+    await userModel.setRecoveryCodes(user.id, recoveryCodes.map((c) => hashToken(normalizeRecoveryCode(c))));
+    return recoveryCodes;
+  }
+
+  /**
+   * Checks a second-factor code for a user with 2FA enabled. Accepts either a
+   * TOTP code or a recovery code; recovery codes are consumed on use.
+   * @param user - The user logging in.
+   * @param code - The code entered by the user.
+   * @returns True if the code is valid.
+   */
+  async verifyCode(user: BackendUser, code: string): Promise<boolean> {
+    if (!user.two_factor_enabled || !user.two_factor_secret) {
+      return false;
+    }
+    if (await this.acceptTotp(user, user.two_factor_secret, code)) {
+      return true;
+    }
+    return userModel.consumeRecoveryCode(user.id, hashToken(normalizeRecoveryCode(code)));
+  }
+
+  /**
+   * Checks a TOTP code and records its time step, so neither it nor an older code
+   * can be used again.
+   * @param user - The user the code belongs to.
+   * @param secret - The secret to check the code against.
+   * @param code - The code entered by the user.
+   * @returns True if the code is valid and had not been used.
+   */
+  private async acceptTotp(user: BackendUser, secret: string, code: string): Promise<boolean> {
+    const step = findTotpStep(secret, code);
+    if (step === null || (user.two_factor_last_step != null && step <= user.two_factor_last_step)) {
+      return false;
+    }
+    return userModel.recordTwoFactorStep(user.id, step);
+  }
+
+  /**
+   * Loads a user or throws a 404.
+   * @param userId - User ID.
+   * @returns The user.
+   */
+  private async getUserOrFail(userId: number): Promise<BackendUser> {
+    const user = await userModel.getUserById(userId);
+    if (!user) {
+      throw new ApplicationError('User not found.', 404);
+    }
+    return user;
+  }
+
+  /**
+   * Generates a set of one-time recovery codes formatted as "xxxxx-xxxxx".
+   * @returns The plain recovery codes.
+   */
+  private generateRecoveryCodes(): string[] {
+    return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = generateToken(5);
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+  }
+}
@@ -1,25 +1,93 @@
 // src/services/userService.ts
-import { UserModel, BackendUser, UserInput } from '../models/userModel.js'; // Import BackendUser and UserInput from userModel
+import {
+  UserModel,
+  BackendUser,
+  UserInput,
+  UserDirectoryEntry,
+  UserSearchFilter,
+  UserSortField,
+} from '../models/userModel.js'; // Import BackendUser and UserInput from userModel
+import { SessionModel } from '../models/sessionModel.js';
+import {
+  TwoFactorChallengeModel,
+  TwoFactorChallenge as StoredTwoFactorChallenge,
+  TwoFactorChallengePurpose,
+} from '../models/twoFactorChallengeModel.js';
+import { ListingModel } from '../models/listingModel.js';
+import { AuditModel, AuditContext } from '../models/auditModel.js';
 import bcrypt from 'bcryptjs'; // <--- CHANGED: Import bcryptjs instead of bcrypt
 import jwt from 'jsonwebtoken';
 import { ApplicationError } from '../utils/applicationError.js'; // Assuming this utility exists
+import { EmailService } from './emailService.js';
+import { TwoFactorService } from './twoFactorService.js';
+import { LoginThrottleService } from './loginThrottleService.js';
+import { PermissionService } from './permissionService.js';
+import { InvitationService, OPEN_REGISTRATION_ROLES } from './invitationService.js';
+import { generateToken, hashToken } from '../utils/tokens.js';
+import { config } from '../config/config.js';
 
 const userModel = new UserModel();
+const sessionModel = new SessionModel();
+const twoFactorChallengeModel = new TwoFactorChallengeModel();
+const listingModel = new ListingModel();
+const auditModel = new AuditModel();
+const emailService = new EmailService();
+const twoFactorService = new TwoFactorService();
+const loginThrottleService = new LoginThrottleService();
+const permissionService = new PermissionService();
+const invitationService = new InvitationService();
 const JWT_SECRET = process.env.JWT_SECRET || 'your_jwt_secret_key'; // Use environment variable for secret
 
+// Details about the client a session was started from, shown when listing devices
+export interface ClientInfo {
+  userAgent?: string;
+  ipAddress?: string;
+}
+
+// Short-lived access token plus the refresh token used to obtain the next one
+export interface AuthTokens {
+  token: string;
+  refreshToken: string;
+}
+
+// Returned instead of tokens when the password was correct but a second step is needed:
+// either a TOTP/recovery code, or (for privileged roles without 2FA) mandatory enrolment.
+export interface TwoFactorChallenge {
+  user: BackendUser;
+  challenge: 'two_factor_required' | 'two_factor_setup_required';
+  challengeToken: string;
+}
+
+// Compared against when the email is unknown, so a login takes as long whether or not the account exists
+const DUMMY_PASSWORD_HASH = '$2a$10$sngukL4J0WsjpqLMxBq2beEotKqzvODVZhcvL2eI5Kh.xYarX4iw2';
+const CHALLENGE_TOKEN_EXPIRES_IN_MINUTES = 5;
+// Codes a challenge accepts before the user has to enter their password again
+const MAX_CHALLENGE_ATTEMPTS = 5;
+
 export class UserService {
   /**
-   * Registers a new user.
-   * @param data - User registration data (firstName, lastName, email, password, role, companyName, phoneNumber, location).
-   * @returns The registered user and a JWT token.
+   * Registers a new user. Buyers can sign up freely; every other role needs an invitation,
+   * which decides the role (and, if set, the company) of the new account.
+   * @param data - User registration data (firstName, lastName, email, password, role, companyName, phoneNumber, location, invitationCode).
+   * @param client - Details of the client starting the session.
+   * @returns The registered user, an access token and a refresh token.
    */
-  async registerUser(data: UserInput): Promise<{ user: BackendUser; token: string }> {
-    const { firstName, lastName, email, password, role, companyName, phoneNumber, location } = data;
+  async registerUser(data: UserInput, client: ClientInfo = {}): Promise<{ user: BackendUser } & AuthTokens> {
+    const { firstName, lastName, email, password, role, companyName, phoneNumber, location, invitationCode } = data;
 
     if (!email || !password || !firstName || !lastName || !companyName || !location) {
       throw new ApplicationError('Missing required registration fields.', 400);
     }
 
+    // Admins are only created from the CLI or promoted by another admin
+    if (role === 'admin') {
+      throw new ApplicationError('Cannot register as an admin.', 403);
+    }
+    const requestedRole = role || 'buyer'; // Default to 'buyer' if not provided
+    if (!invitationCode && !OPEN_REGISTRATION_ROLES.includes(requestedRole)) {
+      throw new ApplicationError(`Registering as a ${requestedRole} requires an invitation.`, 403);
+    }
+
     const existingUser = await userModel.getUserByEmail(email);
     if (existingUser) {
       throw new ApplicationError('User with this email already exists.', 409);
@@ -27,37 +95,267 @@ export class UserService {
 
     const passwordHash = await bcrypt.hash(password, 10); // Hash the password
 
-    const newUser = await userModel.registerUser({
-      firstName,
-      lastName,
-      email,
-      passwordHash,
-      role: role || 'buyer', // Default to 'buyer' if not provided
-      companyName,
-      phoneNumber,
-      location,
-    });
+    // Claim the invitation before creating the account, so a code cannot be used twice
+    const invitation = invitationCode ? await invitationService.claimInvitation(invitationCode, email) : null;
+    let newUser: BackendUser;
+    try {
+      newUser = await userModel.registerUser({
+        firstName,
+        lastName,
+        email,
+        passwordHash,
+        role: invitation ? invitation.role : requestedRole,
+        companyName: invitation?.company_name ?? companyName,
+        phoneNumber,
+        location,
+      });
+    } catch (error) {
+      if (invitation) {
+        await invitationService.releaseInvitation(invitation);
+      }
+      throw error;
+    }
+    if (invitation) {
+      await invitationService.completeInvitation(invitation, { actorId: newUser.id, ipAddress: client.ipAddress });
+    }
 
-    const token = jwt.sign({ id: newUser.id, role: newUser.role }, JWT_SECRET, { expiresIn: '7d' });
+    // Registration should not fail just because the SMTP server is unavailable;
+    // the user can request a new link through the resend endpoint.
+    try {
+      await this.issueVerificationEmail(newUser);
+    } catch (error) {
+      console.error(`Failed to send verification email to user ${newUser.id}:`, error);
+    }
+
+    const tokens = await this.startSession(newUser, client);
 
-    return { user: newUser, token };
+    return { user: newUser, ...tokens };
   }
 
   /**
-   * Logs in a user.
+   * Verifies a user's email address using the token from the verification email.
+   * Tokens are single-use: a successful verification clears it.
+   * @param token - The plain verification token.
+   * @returns True if the email was verified, false if the token is invalid or expired.
+   */
+  async verifyEmail(token: string): Promise<boolean> {
+    const user = await userModel.findByVerificationToken(hashToken(token));
+    if (!user) {
+      return false;
+    }
+    await userModel.verifyEmail(user.id);
+    return true;
+  }
+
+  /**
+   * Sends a fresh verification email, invalidating any previous link.
+   * Does nothing for unknown or already verified addresses so the endpoint
+   * cannot be used to discover which emails are registered.
+   * @param email - The email address to resend the verification link to.
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await userModel.getUserByEmail(email);
+    if (!user || user.email_verified) {
+      return;
+    }
+    await this.issueVerificationEmail(user);
+  }
+
+  /**
+   * Emails a password reset link to the user, if the account exists.
+   * Always resolves the same way so callers cannot tell whether the email is registered.
+   * @param email - The email address of the account to recover.
+   */
+  async requestPasswordReset(email: string): Promise<void> {
+    const user = await userModel.getUserByEmail(email);
+    if (!user) {
+      return;
+    }
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + config.passwordResetExpiresInMinutes * 60 * 1000);
+    await userModel.setResetPasswordToken(user.id, hashToken(token), expiresAt);
+    // A send failure must not surface to the caller either, or it would reveal that the account exists
+    try {
+      await emailService.sendPasswordResetEmail(user.email, user.first_name, token);
+    } catch (error) {
+      console.error(`Failed to send password reset email to user ${user.id}:`, error);
+    }
+  }
+
+  /**
+   * Sets a new password using a reset token. The token is consumed, every
+   * JWT previously issued to the user stops working and all sessions are revoked.
+   * @param token - The plain reset token from the email.
+   * @param newPassword - The new plain text password.
+   */
+  async resetPassword(token: string, newPassword: string): Promise<void> {
+    const tokenHash = hashToken(token);
+    const user = await userModel.findByResetToken(tokenHash);
+    if (!user) {
+      throw new ApplicationError('Invalid or expired password reset token.', 400);
+    }
+    const passwordHash = await bcrypt.hash(newPassword, 10);
+    // The token is consumed by the update itself, so a concurrent reset with it fails here
+    if (!(await userModel.resetPassword(user.id, tokenHash, passwordHash))) {
+      throw new ApplicationError('Invalid or expired password reset token.', 400);
+    }
+    await sessionModel.revokeAllSessionsForUser(user.id);
+    // Proving control of the mailbox is enough to lift a lockout
+    await loginThrottleService.clearFailedLogins(user.email);
+  }
+
+  /**
+   * Logs in a user. Failed attempts are tracked per email address: repeated failures
+   * impose a growing wait between attempts and eventually lock the account temporarily.
+   * They are only cleared once a session starts, so a correct password does not reset
+   * the lockout that also guards the second factor.
    * @param email - User's email.
    * @param password - User's plain text password.
-   * @returns The logged-in user and a JWT token.
+   * @param client - Details of the client starting the session.
+   * @returns The logged-in user with an access token and a refresh token, or a
+   * two-factor challenge if a second step is required.
    */
-  async loginUser(email: string, password: string): Promise<{ user: BackendUser; token: string }> {
+  async loginUser(
+    email: string,
+    password: string,
+    client: ClientInfo = {}
+  ): Promise<({ user: BackendUser } & AuthTokens) | TwoFactorChallenge> {
+    await loginThrottleService.assertLoginAllowed(email);
+
     const user = await userModel.getUserByEmail(email);
-    if (!user || !(await bcrypt.compare(password, user.password_hash))) {
+    const passwordMatches = await bcrypt.compare(password, user ? user.password_hash : DUMMY_PASSWORD_HASH);
+    if (!user || !passwordMatches) {
+      await loginThrottleService.recordFailedLogin(email);
       throw new ApplicationError('Invalid credentials.', 401);
     }
 
-    const token = jwt.sign({ id: user.id, role: user.role }, JWT_SECRET, { expiresIn: '7d' });
+    if (user.two_factor_enabled) {
+      return { user, challenge: 'two_factor_required', challengeToken: await this.issueChallengeToken(user, '2fa_verify') };
+    }
+    if (await permissionService.requiresTwoFactor(user.role)) {
+      // Privileged users may not use the platform until they have enrolled in 2FA
+      return {
+        user,
+        challenge: 'two_factor_setup_required',
+        challengeToken: await this.issueChallengeToken(user, '2fa_setup'),
+      };
+    }
+
+    await loginThrottleService.clearFailedLogins(email);
+    const tokens = await this.startSession(user, client);
+
+    return { user, ...tokens };
+  }
+
+  /**
+   * Completes a two-step login with a TOTP code or a recovery code. Wrong codes count as
+   * failed logins for the account, and a challenge is revoked once it has been used or
+   * after MAX_CHALLENGE_ATTEMPTS codes.
+   * @param challengeToken - The challenge token returned by loginUser.
+   * @param code - A TOTP code or an unused recovery code.
+   * @param client - Details of the client starting the session.
+   * @returns The logged-in user, an access token and a refresh token.
+   */
+  async completeTwoFactorLogin(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo = {}
+  ): Promise<{ user: BackendUser } & AuthTokens> {
+    const { user, challenge } = await this.claimChallengeAttempt(challengeToken, '2fa_verify');
+    if (!(await twoFactorService.verifyCode(user, code))) {
+      await this.recordFailedChallengeAttempt(user, challenge);
+      throw new ApplicationError('Invalid two-factor authentication code.', 401);
+    }
+    await this.consumeChallenge(challenge);
+    await loginThrottleService.clearFailedLogins(user.email);
+    const tokens = await this.startSession(user, client);
+    return { user, ...tokens };
+  }
+
+  /**
+   * Starts the mandatory 2FA enrolment of a privileged user who has just entered their password.
+   * @param challengeToken - The setup challenge token returned by loginUser.
+   * @returns The TOTP secret and otpauth URI.
+   */
+  async beginRequiredTwoFactorSetup(challengeToken: string): Promise<{ secret: string; otpauthUri: string }> {
+    const { user } = await this.verifyChallengeToken(challengeToken, '2fa_setup');
+    return twoFactorService.beginSetup(user.id);
+  }
 
-    return { user, token };
+  /**
+   * Finishes the mandatory 2FA enrolment and logs the user in.
+   * @param challengeToken - The setup challenge token returned by loginUser.
+   * @param code - A TOTP code from the newly configured authenticator app.
+   * @param client - Details of the client starting the session.
+   * @returns The logged-in user, the recovery codes, an access token and a refresh token.
+   */
+  async completeRequiredTwoFactorSetup(
+    challengeToken: string,
+    code: string,
+    client: ClientInfo = {}
+  ): Promise<{ user: BackendUser; recoveryCodes: string[] } & AuthTokens> {
+    const { user, challenge } = await this.claimChallengeAttempt(challengeToken, '2fa_setup');
+    let recoveryCodes: string[];
+    try {
+      recoveryCodes = await twoFactorService.confirmSetup(user.id, code);
+    } catch (error) {
+      await this.recordFailedChallengeAttempt(user, challenge);
+      throw error;
+    }
+    await this.consumeChallenge(challenge);
+    await loginThrottleService.clearFailedLogins(user.email);
+    const enrolledUser = (await userModel.getUserById(user.id)) ?? user;
+    const tokens = await this.startSession(enrolledUser, client);
+    return { user: enrolledUser, recoveryCodes, ...tokens };
+  }
+
+  /**
+   * Exchanges a refresh token for a new access token and a new refresh token.
+   * Presenting an already-rotated refresh token is treated as theft and revokes the session.
+   * @param refreshToken - The plain refresh token.
+   * @returns A new access token and refresh token.
+   */
+  async refreshSession(refreshToken: string): Promise<AuthTokens> {
+    const tokenHash = hashToken(refreshToken);
+    const session = await sessionModel.findByRefreshTokenHash(tokenHash);
+    if (!session || session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      throw new ApplicationError('Invalid or expired refresh token.', 401);
+    }
+
+    if (session.refresh_token_hash !== tokenHash) {
+      return this.rejectReusedRefreshToken(session.id);
+    }
+
+    const user = await userModel.getUserById(session.user_id);
+    if (!user) {
+      throw new ApplicationError('Invalid or expired refresh token.', 401);
+    }
+
+    const newRefreshToken = generateToken();
+    const rotated = await sessionModel.rotateRefreshToken(session.id, tokenHash, hashToken(newRefreshToken), this.refreshTokenExpiry());
+    if (!rotated) {
+      // Another request exchanged the same token first
+      return this.rejectReusedRefreshToken(session.id);
+    }
+
+    return { token: this.signToken(user, session.id), refreshToken: newRefreshToken };
+  }
+
+  /**
+   * Revokes a single session (the current device).
+   * @param sessionId - The session to revoke.
+   */
+  async logout(sessionId: number): Promise<void> {
+    await sessionModel.revokeSession(sessionId);
+  }
+
+  /**
+   * Revokes every session of a user, logging them out on all devices.
+   * @param userId - User ID.
+   * @returns The number of sessions revoked.
+   */
+  async logoutAllDevices(userId: number): Promise<number> {
+    return sessionModel.revokeAllSessionsForUser(userId);
   }
 
   /**
@@ -80,28 +378,324 @@ export class UserService {
     if (!updatedUser) {
       throw new ApplicationError('User not found or profile could not be updated.', 404);
     }
+    if (updates.company_name !== undefined) {
+      // Listings are searchable by the seller's company name
+      await listingModel.refreshSearchIndexForSeller(id);
+    }
     return updatedUser;
   }
 
   /**
-   * Updates a user's compliance status.
+   * Updates a user's compliance status and records it in the audit log.
    * @param id - User ID.
    * @param status - New compliance status.
+   * @param context - The reviewing admin and request, for the audit log.
    * @returns The updated user.
    */
-  async updateUserComplianceStatus(id: number, status: 'pending' | 'compliant' | 'non_compliant'): Promise<BackendUser> {
+  async updateUserComplianceStatus(
+    id: number,
+    status: 'pending' | 'compliant' | 'non_compliant',
+    context: AuditContext
+  ): Promise<BackendUser> {
+    const existingUser = await userModel.getUserById(id);
+    if (!existingUser) {
+      throw new ApplicationError('User not found or compliance status could not be updated.', 404);
+    }
     const updatedUser = await userModel.updateUserComplianceStatus(id, status);
     if (!updatedUser) {
       throw new ApplicationError('User not found or compliance status could not be updated.', 404);
     }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'user.compliance_status_changed',
+      entityType: 'user',
+      entityId: id,
+      before: { compliance_status: existingUser.compliance_status },
+      after: { compliance_status: updatedUser.compliance_status },
+    });
+
     return updatedUser;
   }
 
   /**
-   * Gets all users (admin only).
-   * @returns An array of all users.
+   * Changes a user's role (admin only) and records it in the audit log.
+   * @param context - The admin making the change and the request, for the audit log.
+   * @param userId - ID of the user whose role changes.
+   * @param role - The new role.
+   * @returns The updated user.
+   */
+  async updateUserRole(context: AuditContext, userId: number, role: string): Promise<BackendUser> {
+    if (context.actorId === userId) {
+      throw new ApplicationError('Admins cannot change their own role.', 400);
+    }
+    if (!(await permissionService.roleExists(role))) {
+      throw new ApplicationError(`Unknown role '${role}'.`, 400);
+    }
+
+    const existingUser = await userModel.getUserById(userId);
+    if (!existingUser) {
+      throw new ApplicationError('User not found.', 404);
+    }
+    if (existingUser.role === role) {
+      return existingUser;
+    }
+
+    const updatedUser = await userModel.updateUserRole(userId, role);
+    if (!updatedUser) {
+      throw new ApplicationError('User not found or role could not be updated.', 404);
+    }
+
+    await auditModel.recordEvent({
+      ...context,
+      action: 'user.role_changed',
+      entityType: 'user',
+      entityId: userId,
+      before: { role: existingUser.role },
+      after: { role: updatedUser.role },
+    });
+
+    return updatedUser;
+  }
+
+  /**
+   * Lifts a login lockout on a user's account (admin only) and records it in the audit log.
+   * @param context - The admin unlocking the account and the request, for the audit log.
+   * @param userId - ID of the locked user.
+   * @returns The user.
+   */
+  async unlockUser(context: AuditContext, userId: number): Promise<BackendUser> {
+    const user = await userModel.getUserById(userId);
+    if (!user) {
+      throw new ApplicationError('User not found.', 404);
+    }
+    const cleared = await loginThrottleService.clearFailedLogins(user.email);
+    if (cleared) {
+      await auditModel.recordEvent({
+        ...context,
+        action: 'user.unlocked',
+        entityType: 'user',
+        entityId: userId,
+      });
+    }
+    return user;
+  }
+
+  /**
+   * Creates the first admin account. Used by the bootstrap CLI command only;
+   * refuses to run once an admin exists so it cannot be used to add more.
+   * @param data - The admin's details and password.
+   * @returns The new admin user.
+   */
+  async createInitialAdmin(data: {
+    firstName: string;
+    lastName: string;
+    email: string;
+    password: string;
+    companyName: string;
+    location: string;
+  }): Promise<BackendUser> {
+    if ((await userModel.countUsersByRole('admin')) > 0) {
+      throw new ApplicationError('An admin account already exists. Promote users with PUT /api/users/:id/role instead.', 409);
+    }
+    if (await userModel.getUserByEmail(data.email)) {
+      throw new ApplicationError('User with this email already exists.', 409);
+    }
+
+    const passwordHash = await bcrypt.hash(data.password, 10);
+    const admin = await userModel.registerUser({
+      firstName: data.firstName,
+      lastName: data.lastName,
+      email: data.email,
+      passwordHash,
+      role: 'admin',
+      companyName: data.companyName,
+      location: data.location,
+    });
+
+    await auditModel.recordEvent({
+      actorId: null,
+      action: 'user.admin_bootstrapped',
+      entityType: 'user',
+      entityId: admin.id,
+      after: { role: admin.role, email: admin.email },
+    });
+
+    return admin;
+  }
+
+  /**
+   * Searches the user directory one page at a time (admin only).
+   * @param filter - Optional filters.
+   * @param sort - The sort key and direction.
+   * @param page - 1-based page number.
+   * @param pageSize - Users per page.
+   * @returns The page of users with activity summaries, and the total number of matches.
+   */
+  async searchUsers(
+    filter: UserSearchFilter,
+    sort: { field: UserSortField; direction: 'asc' | 'desc' },
+    page: number,
+    pageSize: number
+  ): Promise<{ users: UserDirectoryEntry[]; total: number; page: number; pageSize: number }> {
+    const { users, total } = await userModel.searchUsers(filter, sort, pageSize, (page - 1) * pageSize);
+    return { users, total, page, pageSize };
+  }
+
+  /**
+   * Creates a session for a freshly authenticated user and issues its tokens.
+   * @param user - The authenticated user.
+   * @param client - Details of the client starting the session.
+   * @returns An access token and a refresh token.
+   */
+  private async startSession(user: BackendUser, client: ClientInfo): Promise<AuthTokens> {
+    const refreshToken = generateToken();
+    const session = await sessionModel.createSession({
+      userId: user.id,
+      refreshTokenHash: hashToken(refreshToken),
+      expiresAt: this.refreshTokenExpiry(),
+      userAgent: client.userAgent,
+      ipAddress: client.ipAddress,
+    });
+    return { token: this.signToken(user, session.id), refreshToken };
+  }
+
+  /**
+   * Signs a short-lived access token for a user. The session ID claim lets
+   * `authenticate` reject tokens of revoked sessions, and the token version
+   * claim lets us revoke every outstanding token by bumping users.token_version.
+   * @param user - The user to issue the token for.
+   * @param sessionId - The session the token belongs to.
+   * @returns The signed JWT.
+   */
+  private signToken(user: BackendUser, sessionId: number): string {
+    return jwt.sign(
+      { id: user.id, role: user.role, tv: user.token_version ?? 0, sid: sessionId },
+      JWT_SECRET,
+      { expiresIn: config.jwtExpiresIn as jwt.SignOptions['expiresIn'] }
+    );
+  }
+
+  /**
+   * Signs a short-lived token proving the password step of a login succeeded. Its jti names
+   * a stored challenge, so the token can be revoked before it expires.
+   * @param user - The user logging in.
+   * @param purpose - Which second step the token may be used for.
+   * @returns The signed challenge token.
+   */
+  private async issueChallengeToken(user: BackendUser, purpose: TwoFactorChallengePurpose): Promise<string> {
+    const challenge = await twoFactorChallengeModel.createChallenge({
+      id: generateToken(16),
+      userId: user.id,
+      purpose,
+      expiresAt: new Date(Date.now() + CHALLENGE_TOKEN_EXPIRES_IN_MINUTES * 60 * 1000),
+    });
+    return jwt.sign({ id: user.id, purpose }, JWT_SECRET, {
+      expiresIn: `${CHALLENGE_TOKEN_EXPIRES_IN_MINUTES}m`,
+      jwtid: challenge.id,
+    });
+  }
+
+  /**
+   * Validates a challenge token against its stored challenge and loads its user.
+   * @param challengeToken - The challenge token.
+   * @param purpose - The second step being attempted.
+   * @returns The user the challenge was issued to, and the challenge.
+   */
+  private async verifyChallengeToken(
+    challengeToken: string,
+    purpose: TwoFactorChallengePurpose
+  ): Promise<{ user: BackendUser; challenge: StoredTwoFactorChallenge }> {
+    let payload: { id: number; purpose?: string; jti?: string };
+    try {
+      payload = jwt.verify(challengeToken, JWT_SECRET) as typeof payload;
+    } catch {
+      throw new ApplicationError('Invalid or expired two-factor challenge.', 401);
+    }
+    if (payload.purpose !== purpose || !payload.jti) {
+      throw new ApplicationError('Invalid or expired two-factor challenge.', 401);
+    }
+    const challenge = await twoFactorChallengeModel.getActiveChallenge(payload.jti);
+    if (!challenge || challenge.user_id !== payload.id || challenge.purpose !== purpose) {
+      throw new ApplicationError('Invalid or expired two-factor challenge.', 401);
+    }
+    const user = await userModel.getUserById(payload.id);
+    if (!user) {
+      throw new ApplicationError('Invalid or expired two-factor challenge.', 401);
+    }
+    return { user, challenge };
+  }
+
+  /**
+   * Validates a challenge token and counts a code attempt against it. The attempt is
+   * counted before the code is checked, so concurrent guesses cannot exceed the limit.
+   * @param challengeToken - The challenge token.
+   * @param purpose - The second step being attempted.
+   * @returns The user the challenge was issued to, and the challenge.
+   */
+  private async claimChallengeAttempt(
+    challengeToken: string,
+    purpose: TwoFactorChallengePurpose
+  ): Promise<{ user: BackendUser; challenge: StoredTwoFactorChallenge }> {
+    const { user, challenge } = await this.verifyChallengeToken(challengeToken, purpose);
+    await loginThrottleService.assertLoginAllowed(user.email);
+    const claimed = await twoFactorChallengeModel.claimAttempt(challenge.id, MAX_CHALLENGE_ATTEMPTS);
+    if (!claimed) {
+      throw new ApplicationError('Invalid or expired two-factor challenge.', 401);
+    }
+    return { user, challenge: claimed };
+  }
+
+  /**
+   * Records a wrong code as a failed login, and revokes the challenge once it is out of attempts.
+   * @param user - The user logging in.
+   * @param challenge - The challenge the code was entered for.
+   */
+  private async recordFailedChallengeAttempt(user: BackendUser, challenge: StoredTwoFactorChallenge): Promise<void> {
+    await loginThrottleService.recordFailedLogin(user.email);
+    if (challenge.attempt_count >= MAX_CHALLENGE_ATTEMPTS) {
+      await twoFactorChallengeModel.consumeChallenge(challenge.id);
+      throw new ApplicationError('Too many invalid two-factor authentication codes. Please log in again.', 401);
+    }
+  }
+
+  /**
+   * Revokes a challenge after its second step succeeded, so the token cannot be used again.
+   * @param challenge - The challenge.
+   */
+  private async consumeChallenge(challenge: StoredTwoFactorChallenge): Promise<void> {
+    if (!(await twoFactorChallengeModel.consumeChallenge(challenge.id))) {
+      throw new ApplicationError('Invalid or expired two-factor challenge.', 401);
+    }
+  }
+
+  /**
+   * Revokes a session whose refresh token was presented after it had been rotated, which
+   * means a copy of it was stolen or two clients share it.
+   * @param sessionId - The session the token belongs to.
+   */
+  private async rejectReusedRefreshToken(sessionId: number): Promise<never> {
+    console.warn(`Refresh token reuse detected for session ${sessionId}; revoking it.`);
+    await sessionModel.revokeSession(sessionId);
+    throw new ApplicationError('Invalid or expired refresh token.', 401);
+  }
+
+  /**
+   * Computes the expiry of a newly issued refresh token.
+   * @returns The expiry date.
+   */
+  private refreshTokenExpiry(): Date {
+    return new Date(Date.now() + config.refreshTokenExpiresInDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Generates a new verification token for a user and emails it to them.
+   * @param user - The user to verify.
    */
-  async getAllUsers(): Promise<BackendUser[]> {
-    return userModel.getAllUsers();
+  private async issueVerificationEmail(user: BackendUser): Promise<void> {
+    const token = generateToken();
+    const expiresAt = new Date(Date.now() + config.emailVerificationExpiresInHours * 60 * 60 * 1000);
+    await userModel.setVerificationToken(user.id, hashToken(token), expiresAt);
+    await emailService.sendVerificationEmail(user.email, user.first_name, token);
   }
 }
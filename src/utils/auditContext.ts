@@ -0,0 +1,15 @@
+// src/utils/auditContext.ts
+import { Request } from 'express';
+import { AuditContext } from '../models/auditModel.js';
+
+/**
+ * Builds the audit context (actor, IP address and request ID) for a request.
+ * While an admin impersonates a user, the admin is recorded as the actor.
+ * @param req - The Express request, after `authenticate` if there is an actor.
+ * @returns The audit context to pass to services that record audit events.
+ */
+export const getAuditContext = (req: Request): AuditContext => ({
+  actorId: req.user?.impersonator?.id ?? req.user?.id ?? null,
+  ipAddress: req.ip,
+  requestId: req.requestId,
+});
@@ -0,0 +1,91 @@
+// src/utils/csv.ts
+
+// Spreadsheet apps execute cells starting with these characters as formulas
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+/**
+ * Formats one value as an RFC 4180 CSV field. Strings that a spreadsheet would
+ * treat as a formula are prefixed with a single quote.
+ * @param value - The value to format.
+ * @returns The escaped field.
+ */
+export const toCsvField = (value: unknown): string => {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  let text = value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+  if (typeof value === 'string' && FORMULA_PREFIX.test(text)) {
+    text = `'${text}`;
+  }
+  if (/[",\r\n]/.test(text)) {
+    text = `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Builds a CSV document with a header row.
+ * @param columns - The column headers and the row property each one reads.
+ * @param rows - The rows to write.
+ * @returns The CSV text, with CRLF line endings.
+ */
+export const toCsv = <T>(columns: Array<{ header: string; value: (row: T) => unknown }>, rows: T[]): string => {
+  const lines = [columns.map((column) => toCsvField(column.header)).join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => toCsvField(column.value(row))).join(','));
+  }
+  return lines.join('\r\n') + '\r\n';
+};
+
+/**
+ * Parses an RFC 4180 CSV document into rows of fields. Accepts CRLF or LF line endings
+ * and a leading byte order mark; blank lines are skipped.
+ * @param text - The CSV text.
+ * @returns The rows, header row included.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0] !== '') {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  const input = text.replace(/^\uFEFF/, '');
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    endRow();
+  }
+  return rows;
+};
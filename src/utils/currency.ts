@@ -0,0 +1,27 @@
+// src/utils/currency.ts
+
+/**
+ * Converts an amount between currencies using exchange rates against a common base currency.
+ * @param amount - The amount, in `from`.
+ * @param from - The ISO 4217 code of the amount's currency.
+ * @param to - The ISO 4217 code of the currency to convert to.
+ * @param rates - Units of each currency one unit of the base currency buys, by code.
+ * @returns The amount in `to`, or null if either currency has no rate.
+ */
+export const convertCurrency = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: ReadonlyMap<string, number>
+): number | null => {
+  if (from === to) {
+    return amount;
+  }
+  const fromRate = rates.get(from);
+  const toRate = rates.get(to);
+  if (fromRate === undefined || toRate === undefined) {
+    return null;
+  }
+  // toPrecision drops floating-point noise such as 0.30000000000000004
+  return Number(((amount * toRate) / fromRate).toPrecision(12));
+};
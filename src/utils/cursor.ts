@@ -0,0 +1,159 @@
+// src/utils/cursor.ts
+// Keyset ("cursor") pagination for newest-first feeds. A cursor points at a row by its
+// (created_at, id) pair, so pages stay stable while rows are being added, unlike OFFSET.
+// Cursors are opaque to clients and signed, so they cannot be forged or edited.
+import crypto from 'crypto';
+import { ApplicationError } from './applicationError.js';
+import { config } from '../config/config.js';
+
+export type CursorDirection = 'next' | 'prev';
+
+// A decoded cursor: the row it points at and which way to page from it.
+// next: older rows after it; prev: newer rows before it.
+export interface Cursor {
+  createdAt: string; // ISO timestamp with microseconds, exactly as stored
+  id: number;
+  direction: CursorDirection;
+}
+
+// Response envelope for every cursor-paginated endpoint
+export interface CursorPage<T> {
+  data: T[];
+  next: string | null; // Cursor for the following (older) page, or null once the oldest row is reached
+  prev: string | null; // Cursor for the preceding (newer) page, or null once the newest row is reached;
+  // clients check for new rows by fetching the first page again
+}
+
+// Rows fetched for a cursor page carry their created_at at full precision, since a JS Date
+// would drop the microseconds and break ties between rows created in the same millisecond
+export interface CursorRow {
+  id: number;
+  cursor_created_at: string;
+}
+
+// SQL for a column's created_at at full precision, selected as cursor_created_at
+export const cursorCreatedAtSql = (column: string): string =>
+  `to_char(${column} AT TIME ZONE 'UTC', 'YYYY-MM-DD"T"HH24:MI:SS.US"Z"') AS cursor_created_at`;
+
+const sign = (payload: string): string =>
+  crypto.createHmac('sha256', config.cursorSecret).update(payload).digest('base64url');
+
+/**
+ * Encodes a cursor for a feed.
+ * @param feed - Name of the feed; a cursor only works for the feed it was issued by.
+ * @param row - The row the cursor points at.
+ * @param direction - Which way to page from the row.
+ * @returns The opaque cursor.
+ */
+export const encodeCursor = (feed: string, row: CursorRow, direction: CursorDirection): string => {
+  const payload = Buffer.from(
+    JSON.stringify({ f: feed, t: row.cursor_created_at, i: row.id, d: direction })
+  ).toString('base64url');
+  return `${payload}.${sign(payload)}`;
+};
+
+/**
+ * Decodes and verifies a cursor.
+ * @param feed - Name of the feed the cursor is used with.
+ * @param token - The cursor from the client.
+ * @returns The decoded cursor.
+ */
+export const decodeCursor = (feed: string, token: string): Cursor => {
+  const invalid = new ApplicationError('Invalid cursor.', 400);
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) {
+    throw invalid;
+  }
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    throw invalid;
+  }
+
+  let decoded: { f?: unknown; t?: unknown; i?: unknown; d?: unknown };
+  try {
+    decoded = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw invalid;
+  }
+  if (
+    decoded.f !== feed ||
+    typeof decoded.t !== 'string' ||
+    Number.isNaN(Date.parse(decoded.t)) ||
+    !Number.isInteger(decoded.i) ||
+    (decoded.d !== 'next' && decoded.d !== 'prev')
+  ) {
+    throw invalid;
+  }
+  return { createdAt: decoded.t, id: decoded.i as number, direction: decoded.d };
+};
+
+/**
+ * Builds the keyset condition and ordering for a cursor page.
+ * @param cursor - The decoded cursor, or null for the first page.
+ * @param createdAtColumn - The created_at column, e.g. 'l.created_at'.
+ * @param idColumn - The id column, e.g. 'l.id'.
+ * @param firstParam - Number of the first query parameter the condition may use.
+ * @returns The condition (null on the first page), its values, and the ORDER BY clause.
+ */
+export const cursorQuery = (
+  cursor: Cursor | null,
+  createdAtColumn: string,
+  idColumn: string,
+  firstParam: number
+): { condition: string | null; values: unknown[]; orderBy: string } => {
+  // Paging backwards reads the newer rows oldest first; toCursorPage puts them back in order
+  const backwards = cursor?.direction === 'prev';
+  const order = backwards ? 'ASC' : 'DESC';
+  const orderBy = `${createdAtColumn} ${order}, ${idColumn} ${order}`;
+  if (!cursor) {
+    return { condition: null, values: [], orderBy };
+  }
+  return {
+    condition: `(${createdAtColumn}, ${idColumn}) ${backwards ? '>' : '<'} ($${firstParam}::timestamptz, $${firstParam + 1})`,
+    values: [cursor.createdAt, cursor.id],
+    orderBy,
+  };
+};
+
+/**
+ * Turns the rows fetched for a cursor page (limit + 1 of them, to tell whether more exist)
+ * into the response envelope, newest first.
+ * @param feed - Name of the feed.
+ * @param rows - The fetched rows, in the order cursorQuery asked for.
+ * @param limit - The page size.
+ * @param cursor - The cursor the page was fetched with, or null for the first page.
+ * @returns The page and the cursors either side of it.
+ */
+export const toCursorPage = <T extends CursorRow>(
+  feed: string,
+  rows: T[],
+  limit: number,
+  cursor: Cursor | null
+): CursorPage<Omit<T, 'cursor_created_at'>> => {
+  const hasMore = rows.length > limit;
+  const page = rows.slice(0, limit);
+  const backwards = cursor?.direction === 'prev';
+  if (backwards) {
+    page.reverse();
+  }
+
+  const first = page[0];
+  const last = page[page.length - 1];
+  // Going forwards, there is a previous page whenever we started from a cursor; going
+  // backwards, there is a next page (the one we came from)
+  const hasNext = backwards ? cursor !== null : hasMore;
+  const hasPrev = backwards ? hasMore : cursor !== null;
+
+  return {
+    data: page.map(
+      (row) =>
+        Object.fromEntries(Object.entries(row).filter(([key]) => key !== 'cursor_created_at')) as Omit<
+          T,
+          'cursor_created_at'
+        >
+    ),
+    next: hasNext && last ? encodeCursor(feed, last, 'next') : null,
+    prev: hasPrev && first ? encodeCursor(feed, first, 'prev') : null,
+  };
+};
@@ -0,0 +1,35 @@
+// src/utils/fileType.ts
+// Detects an uploaded file's type from its first bytes. The file name and the
+// Content-Type sent by the client are never trusted.
+
+export interface FileType {
+  mimeType: string;
+  extension: string;
+}
+
+const startsWith = (data: Buffer, bytes: number[], offset = 0): boolean =>
+  data.length >= offset + bytes.length && bytes.every((byte, i) => data[offset + i] === byte);
+
+const ascii = (text: string): number[] => Array.from(text, (char) => char.charCodeAt(0));
+
+// Signatures of the file types we accept as listing attachments
+const SIGNATURES: { type: FileType; matches: (data: Buffer) => boolean }[] = [
+  { type: { mimeType: 'image/jpeg', extension: 'jpg' }, matches: (data) => startsWith(data, [0xff, 0xd8, 0xff]) },
+  {
+    type: { mimeType: 'image/png', extension: 'png' },
+    matches: (data) => startsWith(data, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+  },
+  {
+    type: { mimeType: 'image/webp', extension: 'webp' },
+    matches: (data) => startsWith(data, ascii('RIFF')) && startsWith(data, ascii('WEBP'), 8),
+  },
+  { type: { mimeType: 'application/pdf', extension: 'pdf' }, matches: (data) => startsWith(data, ascii('%PDF-')) },
+];
+
+/**
+ * Detects a file's type from its contents.
+ * @param data - The file contents.
+ * @returns The file type, or null if it is not one we recognise.
+ */
+export const sniffFileType = (data: Buffer): FileType | null =>
+  SIGNATURES.find((signature) => signature.matches(data))?.type ?? null;
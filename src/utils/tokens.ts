@@ -0,0 +1,20 @@
+// src/utils/tokens.ts
+import crypto from 'crypto';
+
+/**
+ * Generates a random, URL-safe token suitable for emailed links.
+ * @param bytes - Number of random bytes to use (defaults to 32).
+ * @returns The token as a hex string.
+ */
+export const generateToken = (bytes: number = 32): string => {
+  return crypto.randomBytes(bytes).toString('hex');
+};
+
+/**
+ * Hashes a token with SHA-256 so only the digest is stored in the database.
+ * @param token - The plain token sent to the user.
+ * @returns The hex-encoded SHA-256 digest.
+ */
+export const hashToken = (token: string): string => {
+  return crypto.createHash('sha256').update(token).digest('hex');
+};
@@ -0,0 +1,105 @@
+// src/utils/units.ts
+// Units of measure for listing quantities. Every unit belongs to a dimension, and each
+// dimension has a canonical unit that listings' normalised quantities and prices are stored
+// in, so listings in 'oz', 'kg' and 'tonne' can be filtered and sorted together.
+
+export const UNIT_DIMENSIONS = ['mass', 'volume', 'count'] as const;
+export type UnitDimension = (typeof UNIT_DIMENSIONS)[number];
+
+export const CANONICAL_UNITS: Record<UnitDimension, string> = {
+  mass: 'kg',
+  volume: 'l',
+  count: 'unit',
+};
+
+export interface UnitOfMeasure {
+  symbol: string; // Stored on listings, e.g. 'oz'
+  name: string;
+  dimension: UnitDimension;
+  toCanonical: number; // How many of the dimension's canonical unit one of this unit is
+  aliases: string[]; // Other spellings accepted, in lower case
+}
+
+export const UNITS: UnitOfMeasure[] = [
+  { symbol: 'kg', name: 'kilogram', dimension: 'mass', toCanonical: 1, aliases: ['kgs', 'kilo', 'kilos', 'kilogram', 'kilograms'] },
+  { symbol: 'g', name: 'gram', dimension: 'mass', toCanonical: 0.001, aliases: ['gram', 'grams'] },
+  {
+    symbol: 'tonne',
+    name: 'metric tonne',
+    dimension: 'mass',
+    toCanonical: 1000,
+    aliases: ['t', 'tonnes', 'mt', 'metric ton', 'metric tons', 'metric tonne', 'metric tonnes'],
+  },
+  // Precious metals are priced in troy ounces, so 'oz' means a troy ounce here
+  {
+    symbol: 'oz',
+    name: 'troy ounce',
+    dimension: 'mass',
+    toCanonical: 0.0311034768,
+    aliases: ['ozt', 'troy oz', 'troy ounce', 'troy ounces', 'ounce', 'ounces'],
+  },
+  { symbol: 'lb', name: 'pound', dimension: 'mass', toCanonical: 0.45359237, aliases: ['lbs', 'pound', 'pounds'] },
+  { symbol: 'short ton', name: 'short ton', dimension: 'mass', toCanonical: 907.18474, aliases: ['short tons', 'us ton', 'us tons'] },
+  { symbol: 'long ton', name: 'long ton', dimension: 'mass', toCanonical: 1016.0469088, aliases: ['long tons'] },
+  { symbol: 'l', name: 'litre', dimension: 'volume', toCanonical: 1, aliases: ['litre', 'litres', 'liter', 'liters'] },
+  { symbol: 'm3', name: 'cubic metre', dimension: 'volume', toCanonical: 1000, aliases: ['m³', 'cubic metre', 'cubic metres', 'cubic meter', 'cubic meters'] },
+  { symbol: 'bbl', name: 'barrel', dimension: 'volume', toCanonical: 158.987294928, aliases: ['barrel', 'barrels'] },
+  { symbol: 'gal', name: 'US gallon', dimension: 'volume', toCanonical: 3.785411784, aliases: ['gallon', 'gallons'] },
+  { symbol: 'unit', name: 'unit', dimension: 'count', toCanonical: 1, aliases: ['units', 'piece', 'pieces', 'pc', 'pcs', 'each', 'ea'] },
+];
+
+export const UNIT_SYMBOLS = UNITS.map((unit) => unit.symbol);
+
+// Lower case, single spaces and no trailing full stop, so 'Troy  Ounces' and 'lbs.' match
+const normalizeUnitName = (name: string) =>
+  name.trim().toLowerCase().replace(/\s+/g, ' ').replace(/\.$/, '');
+
+const UNITS_BY_NAME = new Map(
+  UNITS.flatMap((unit) => [unit.symbol, ...unit.aliases].map((name): [string, UnitOfMeasure] => [name, unit]))
+);
+
+/**
+ * Finds a unit by its symbol or one of its aliases, in any case.
+ * @param name - The unit as written, e.g. 'tonnes' or 'troy ounce'.
+ * @returns The unit, or null if it is not known.
+ */
+export const findUnit = (name: string): UnitOfMeasure | null => UNITS_BY_NAME.get(normalizeUnitName(name)) ?? null;
+
+// Drops floating-point noise such as 0.30000000000000004 from converted figures
+const tidy = (value: number) => Number(value.toPrecision(12));
+
+// A quantity and price per unit, in some unit
+export interface UnitQuantity {
+  unit: string;
+  quantity: number;
+  price_per_unit: number;
+}
+
+/**
+ * Converts a quantity and its price per unit to another unit of the same dimension.
+ * @param value - The quantity and price, in `from`.
+ * @param from - The unit they are in.
+ * @param to - The unit to convert them to.
+ * @returns The quantity and price in `to`.
+ */
+export const convertUnitQuantity = (
+  value: { quantity: number; price_per_unit: number },
+  from: UnitOfMeasure,
+  to: UnitOfMeasure
+): UnitQuantity => {
+  if (from.dimension !== to.dimension) {
+    throw new Error(`Cannot convert ${from.dimension} in '${from.symbol}' to ${to.dimension} in '${to.symbol}'.`);
+  }
+  const factor = from.toCanonical / to.toCanonical;
+  return { unit: to.symbol, quantity: tidy(value.quantity * factor), price_per_unit: tidy(value.price_per_unit / factor) };
+};
+
+/**
+ * Converts a quantity and its price per unit to the canonical unit of their unit's dimension,
+ * e.g. from troy ounces to kilograms.
+ * @param value - The quantity and price, in `unit`.
+ * @param unit - The unit they are in.
+ * @returns The quantity and price in the canonical unit.
+ */
+export const toCanonicalUnit = (value: { quantity: number; price_per_unit: number }, unit: UnitOfMeasure): UnitQuantity =>
+  convertUnitQuantity(value, unit, findUnit(CANONICAL_UNITS[unit.dimension]) as UnitOfMeasure);
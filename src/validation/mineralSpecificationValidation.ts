@@ -0,0 +1,60 @@
+import Joi from 'joi';
+import { Commodity, SpecificationField } from '../models/commodityModel.js';
+import { MineralSpecification } from '../models/interfaces/marketplace.js';
+
+// Element symbols, e.g. As, Pb, S
+export const ELEMENT_SYMBOL_PATTERN = /^[A-Z][a-z]?$/;
+
+// What a commodity decides about the specifications of its listings
+export type SpecificationRules = Pick<Commodity, 'allowed_forms' | 'grade_unit' | 'specification_fields'>;
+
+const percent = Joi.number().min(0).max(100);
+
+// Builds the specification schema for a commodity; grade_unit is always set by the server
+const specificationSchema = (commodity: SpecificationRules) => {
+  const allowed = (field: SpecificationField, schema: Joi.Schema) =>
+    commodity.specification_fields.includes(field)
+      ? schema
+      : Joi.forbidden().messages({ 'any.unknown': `"${field}" is not recorded for this mineral` });
+
+  return Joi.object({
+    form: Joi.string()
+      .valid(...commodity.allowed_forms)
+      .required()
+      .messages({ 'any.only': `"form" must be one of ${commodity.allowed_forms.join(', ')} for this mineral` }),
+    grade: allowed('grade', commodity.grade_unit === '%' ? percent : Joi.number().min(0).max(1_000_000)),
+    grade_unit: Joi.any().strip(),
+    purity_percent: allowed('purity_percent', percent),
+    moisture_percent: allowed('moisture_percent', percent),
+    impurities_ppm: allowed(
+      'impurities_ppm',
+      Joi.object()
+        .pattern(ELEMENT_SYMBOL_PATTERN, Joi.number().min(0).max(1_000_000))
+        .max(30)
+        .messages({ 'object.unknown': '"impurities_ppm" must be keyed by element symbols such as As or Pb' })
+    ),
+    particle_size_mm: allowed(
+      'particle_size_mm',
+      Joi.object({
+        min: Joi.number().min(0),
+        max: Joi.number()
+          .positive()
+          .required()
+          .when('min', { is: Joi.exist(), then: Joi.number().min(Joi.ref('min')) }),
+      })
+    ),
+  }).custom((specification: MineralSpecification) =>
+    specification.grade === undefined ? specification : { ...specification, grade_unit: commodity.grade_unit }
+  );
+};
+
+/**
+ * Validates a listing's specification against its commodity.
+ * @param commodity - The listing's commodity: its forms, grade unit and specification fields.
+ * @param specification - The specification from the request.
+ * @returns The Joi result; the value has grade_unit set when a grade is given.
+ */
+export const validateMineralSpecification = (
+  commodity: SpecificationRules,
+  specification: unknown
+): Joi.ValidationResult<MineralSpecification> => specificationSchema(commodity).validate(specification);
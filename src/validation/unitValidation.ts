@@ -0,0 +1,9 @@
+import Joi from 'joi';
+import { findUnit, UNIT_SYMBOLS } from '../utils/units.js';
+
+// A unit of measure in any spelling src/utils/units.ts knows, e.g. 'tonnes'; validates to its symbol
+export const unitSchema = Joi.string()
+  .trim()
+  .max(30)
+  .custom((value: string, helpers) => findUnit(value)?.symbol ?? helpers.error('any.invalid'))
+  .messages({ 'any.invalid': `{{#label}} must be a known unit: ${UNIT_SYMBOLS.join(', ')}` });